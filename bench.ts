@@ -1,4 +1,4 @@
-import { PriorityQueue, StablePriorityQueue, TypedPriorityQueue, StableTypedPriorityQueue, type IPriorityNode } from "./main.ts";
+import { PriorityQueue, StablePriorityQueue, TypedPriorityQueue, StableTypedPriorityQueue, MergeablePriorityQueue, RadixTypedPriorityQueue, type IPriorityNode } from "./main.ts";
 import { run, bench, boxplot, summary } from "mitata";
 import { MinQueue } from "heapify";
 
@@ -12,6 +12,28 @@ bench(`PriorityQueue enqueue ${ITEMS_COUNT} items`, () => {
   }
 });
 
+// PriorityQueue EnqueueRange
+const ENTRIES = Array.from({ length: ITEMS_COUNT }, (_, i): [number, number] => [i, i]);
+bench(`PriorityQueue enqueueRange ${ITEMS_COUNT} items`, () => {
+  const pq = new PriorityQueue();
+  pq.enqueueRange(ENTRIES);
+});
+
+// PriorityQueue Meld
+bench(`PriorityQueue meld 2 x ${ITEMS_COUNT / 2} items`, () => {
+  const pq = PriorityQueue.fromEntries(ENTRIES.slice(0, ITEMS_COUNT / 2));
+  pq.meld(PriorityQueue.fromEntries(ENTRIES.slice(ITEMS_COUNT / 2)));
+});
+
+// MergeablePriorityQueue Meld
+bench(`MergeablePriorityQueue meld 2 x ${ITEMS_COUNT / 2} items`, () => {
+  const mpq = new MergeablePriorityQueue();
+  mpq.enqueueRange(ENTRIES.slice(0, ITEMS_COUNT / 2));
+  const other = new MergeablePriorityQueue();
+  other.enqueueRange(ENTRIES.slice(ITEMS_COUNT / 2));
+  mpq.meld(other);
+});
+
 // PriorityQueue Dequeue (Pre-fill before measuring)
 const pqPreFilled = new PriorityQueue();
 for (let i = 0; i < ITEMS_COUNT; i++) {
@@ -281,6 +303,29 @@ bench(`StableTypedPriorityQueue remove ${REMOVE_COUNT} items`, () => {
   }
 });
 
+// Monotone workload (Dijkstra-style): every enqueued priority is at least the last dequeued priority
+const MONOTONE_EDGES = Array.from({ length: ITEMS_COUNT }, () => Math.floor(Math.random() * 1000));
+
+bench(`TypedPriorityQueue monotone ${ITEMS_COUNT} items`, () => {
+  const tpq = new TypedPriorityQueue(Uint32Array, ITEMS_COUNT);
+  tpq.enqueue(0, 0);
+  for (let i = 1; i < ITEMS_COUNT; i++) {
+    const node = tpq.pop() as IPriorityNode<number>;
+    tpq.enqueue(i, node.priority + MONOTONE_EDGES[i]);
+    tpq.enqueue(i, node.priority + MONOTONE_EDGES[ITEMS_COUNT - i]);
+  }
+});
+
+bench(`RadixTypedPriorityQueue monotone ${ITEMS_COUNT} items`, () => {
+  const rpq = new RadixTypedPriorityQueue(Uint32Array, 1024);
+  rpq.enqueue(0, 0);
+  for (let i = 1; i < ITEMS_COUNT; i++) {
+    const node = rpq.pop() as IPriorityNode<number>;
+    rpq.enqueue(i, node.priority + MONOTONE_EDGES[i]);
+    rpq.enqueue(i, node.priority + MONOTONE_EDGES[ITEMS_COUNT - i]);
+  }
+});
+
 // Force garbage collection before running benchmarks if supported
 globalThis.gc?.();
 
@@ -26,7 +26,7 @@ export function enqueueRandom() {
 export function dequeue() {
   const priority = pq.priorityAt(0);
   const dequeuedValue = pq.dequeue();
-  if (dequeuedValue !== undefined) {
+  if (dequeuedValue !== undefined && priority !== undefined) {
     updateDequeued(dequeuedValue, priority);
   }
   updateQueue();
@@ -15,8 +15,35 @@
  *   order of elements with the same priority.
  * - **Typed Priority Queue**: A priority queue with typed arrays.
  * - **Stable Typed Priority Queue**: A stable priority queue with typed arrays.
+ * - **Concurrent Typed Priority Queue**: A typed priority queue in a
+ *   `SharedArrayBuffer` that several worker threads can change at once.
+ * - **Slot Typed Priority Queue**: A priority queue of any values that stores
+ *   priorities in typed arrays and the values in a slot table.
+ * - **Indexed Typed Priority Queue**: A typed priority queue of integer keys with
+ *   O(1) lookups and O(log n) priority changes.
+ * - **Bounded Priority Queue**: A priority queue with a fixed capacity and an
+ *   overflow policy for keeping the top-K elements.
+ * - **Min-Max Priority Queue**: A double-ended priority queue that can remove
+ *   elements from both the front and the back, with a typed array variant.
+ * - **Mergeable Priority Queue**: A pairing heap with O(1) meld and decrease-key.
+ * - **Radix Priority Queue**: A radix heap for monotone integer priorities, with a
+ *   typed array variant.
+ * - **Bucket Priority Queue**: A stable bucket queue for small integer priority
+ *   ranges, with a calendar queue mode for wide but dense ranges.
+ * - **Async Priority Queue**: A producer/consumer channel whose `dequeue` waits
+ *   for an element, with cancellation and async iteration.
+ * - **Delay Queue**: A queue of elements that become available at a scheduled
+ *   time, with an awaitable `take`.
+ * - **Expiring Priority Queue**: A stable priority queue whose elements can
+ *   carry an expiry time, with expired elements purged automatically.
+ * - **Priority Scheduler**: Runs promise-returning tasks in priority order with a
+ *   concurrency limit, with retries, backoff, and dead letters.
  * - **Custom Comparer**: Support for custom comparison functions to define the
  *   order of elements.
+ * - **Custom Priority Types**: Priorities of any type, such as bigints, strings,
+ *   dates, or tuples, with built-in priority comparers.
+ * - **Events**: Opt-in listeners for enqueues, dequeues, removals, clears, and
+ *   growth, with no cost for queues without listeners.
  * - **Efficient Operations**: Optimized for efficient enqueue, dequeue, and heap
  *   operations.
  *
@@ -122,7 +149,26 @@
 
 export * from "./src/types.ts";
 export * from "./src/primitive.ts";
+export * from "./src/comparer.ts";
+export * from "./src/snapshot.ts";
+export * from "./src/events.ts";
 export * from "./src/pq.ts";
 export * from "./src/stable.pq.ts";
 export * from "./src/typed.pq.ts";
-export * from "./src/stable.typed.pq.ts";
\ No newline at end of file
+export * from "./src/concurrent.typed.pq.ts";
+export * from "./src/stable.typed.pq.ts";
+export * from "./src/slot.typed.pq.ts";
+export * from "./src/indexed.typed.pq.ts";
+export * from "./src/bounded.pq.ts";
+export * from "./src/minmax.pq.ts";
+export * from "./src/minmax.typed.pq.ts";
+export * from "./src/mergeable.pq.ts";
+export * from "./src/radix.pq.ts";
+export * from "./src/radix.typed.pq.ts";
+export * from "./src/bucket.pq.ts";
+export * from "./src/async.pq.ts";
+export * from "./src/scheduler.ts";
+export * from "./src/clock.ts";
+export * from "./src/retry.ts";
+export * from "./src/delay.pq.ts";
+export * from "./src/expiring.pq.ts";
\ No newline at end of file
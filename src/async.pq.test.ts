@@ -0,0 +1,96 @@
+import { expect, describe, it, vi } from "vitest";
+import { AsyncPriorityQueue } from "./async.pq.ts";
+import { StablePriorityQueue } from "./stable.pq.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+
+describe("AsyncPriorityQueue", () => {
+  it("should dequeue queued elements in priority order", async () => {
+    const pq = new AsyncPriorityQueue<string>();
+    pq.enqueue("b", 2);
+    pq.enqueue("a", 1);
+
+    expect(pq.count).toBe(2);
+    expect(pq.peek()).toBe("a");
+    expect(await pq.dequeue()).toBe("a");
+    expect(pq.tryDequeue()).toBe("b");
+    expect(pq.tryDequeue()).toBeUndefined();
+  });
+
+  it("should serve waiting consumers in the order they started waiting", async () => {
+    const pq = new AsyncPriorityQueue<string>(new StablePriorityQueue<string>());
+    const first = pq.dequeue();
+    const second = pq.dequeue();
+    expect(pq.waiting).toBe(2);
+
+    pq.enqueue("x", 5);
+    pq.enqueue("y", 1);
+    expect(await first).toBe("x");
+    expect(await second).toBe("y");
+    expect(pq.waiting).toBe(0);
+    expect(pq.isEmpty()).toBe(true);
+  });
+
+  it("should wrap other queues", async () => {
+    const pq = new AsyncPriorityQueue(new TypedPriorityQueue(Int32Array, 1, undefined, { buffer: new SharedArrayBuffer(TypedPriorityQueue.byteLength(Int32Array, 1)) }));
+    const next = pq.dequeue();
+
+    expect(pq.enqueue(7, 1)).toBe(true);
+    expect(await next).toBe(7);
+    expect(pq.enqueue(8, 1)).toBe(true);
+    expect(pq.enqueue(9, 0)).toBe(false);
+  });
+
+  it("should stop waiting when the signal is aborted", async () => {
+    const pq = new AsyncPriorityQueue<number>();
+    const controller = new AbortController();
+    const next = pq.dequeue({ signal: controller.signal });
+    controller.abort(new Error("stop"));
+
+    await expect(next).rejects.toThrow("stop");
+    expect(pq.waiting).toBe(0);
+    await expect(pq.dequeue({ signal: controller.signal })).rejects.toThrow("stop");
+    pq.enqueue(1, 1);
+    expect(pq.count).toBe(1);
+  });
+
+  it("should stop waiting when the timeout passes", async () => {
+    vi.useFakeTimers();
+    try {
+      const pq = new AsyncPriorityQueue<number>();
+      const next = pq.dequeue({ timeout: 100 });
+      const result = expect(next).rejects.toThrow("[pq-ts] Timed out waiting for an element.");
+      await vi.advanceTimersByTimeAsync(100);
+      await result;
+      expect(pq.waiting).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should reject waiting consumers and new elements when closed", async () => {
+    const pq = new AsyncPriorityQueue<number>();
+    const next = pq.dequeue();
+    pq.close();
+
+    await expect(next).rejects.toThrow("[pq-ts] The queue is closed.");
+    await expect(pq.dequeue()).rejects.toThrow("[pq-ts] The queue is closed.");
+    expect(pq.enqueue(1, 1)).toBe(false);
+    expect(pq.closed).toBe(true);
+  });
+
+  it("should iterate until the queue is closed and drained", async () => {
+    const pq = new AsyncPriorityQueue<string>();
+    const received: string[] = [];
+    const consumer = (async () => {
+      for await (const value of pq) received.push(value);
+    })();
+
+    pq.enqueue("c", 3);
+    pq.enqueue("b", 2);
+    pq.enqueue("a", 1);
+    pq.close();
+    await consumer;
+
+    expect(received).toEqual(["c", "a", "b"]);
+  });
+});
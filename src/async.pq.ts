@@ -0,0 +1,187 @@
+import type { IAsyncDequeueOptions, IPriorityNode, IPriorityQueueCore } from "./types.ts";
+import { PriorityQueue } from "./pq.ts";
+
+/**
+ * A consumer waiting for an element of an async priority queue.
+ */
+interface IWaiter<T> {
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * A priority queue whose `dequeue` waits for an element when the queue is empty,
+ * so that it can be used as a channel between producers and consumers.
+ * Any priority queue can store the elements; a `PriorityQueue` is used by default.
+ *
+ * @remarks
+ * Waiting consumers are served in the order they called `dequeue`. After `close`, no elements can be added,
+ * waiting consumers are rejected, and the elements left in the queue can still be dequeued.
+ *
+ * @example
+ * ```typescript
+ * const jobs = new AsyncPriorityQueue<Job>();
+ *
+ * // Consumer
+ * for await (const job of jobs) {
+ *   await run(job);
+ * }
+ *
+ * // Producer
+ * jobs.enqueue(job, 1);
+ * jobs.close();
+ * ```
+ */
+export class AsyncPriorityQueue<T, P = number> implements AsyncIterable<T> {
+  /**
+   * The queue that stores the elements.
+   */
+  readonly queue: IPriorityQueueCore<T, P>;
+  /**
+   * The consumers waiting for an element, in the order they started waiting.
+   * @protected
+   */
+  protected _waiters: IWaiter<T>[] = [];
+  /**
+   * Whether the queue was closed.
+   * @protected
+   */
+  protected _closed = false;
+
+  /**
+   * Creates a new instance of an async priority queue.
+   * @param queue - The queue to store the elements in. Defaults to an empty `PriorityQueue`.
+   */
+  constructor(queue?: IPriorityQueueCore<T, P>) {
+    this.queue = queue ?? new PriorityQueue<T, IPriorityNode<T, P>>();
+  }
+
+  /**
+   * The number of elements in the queue.
+   * @readonly
+   */
+  get count(): number {
+    return this.queue.count;
+  }
+
+  /**
+   * The number of consumers waiting for an element.
+   * @readonly
+   */
+  get waiting(): number {
+    return this._waiters.length;
+  }
+
+  /**
+   * Whether the queue was closed.
+   * @readonly
+   */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  /**
+   * Adds an element to the queue and hands the front of the queue to the first waiting consumer.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - True if the element was added, false if the queue is closed or rejected the element.
+   */
+  enqueue(value: T, priority: P): boolean {
+    if (this._closed || !this.queue.enqueue(value, priority)) return false;
+    while (this._waiters.length > 0 && !this.queue.isEmpty()) {
+      this._waiters.shift()?.resolve(this.queue.dequeue() as T);
+    }
+    return true;
+  }
+
+  /**
+   * Removes and returns the element at the front of the queue, waiting for one if the queue is empty.
+   * @param options - (Optional) A signal and a timeout that stop waiting.
+   * @returns - A promise of the element at the front of the queue.
+   * @throws - If the queue is closed and empty, the signal is aborted, or the timeout passes.
+   */
+  dequeue(options?: IAsyncDequeueOptions): Promise<T> {
+    if (!this.queue.isEmpty()) return Promise.resolve(this.queue.dequeue() as T);
+    if (this._closed) return Promise.reject(new Error("[pq-ts] The queue is closed."));
+    const signal = options?.signal;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const cancel = (reason: unknown) => {
+        const index = this._waiters.indexOf(waiter);
+        if (index >= 0) this._waiters.splice(index, 1);
+        settle();
+        reject(reason);
+      };
+      const onAbort = () => cancel(signal?.reason);
+      const waiter: IWaiter<T> = {
+        resolve: (value) => { settle(); resolve(value); },
+        reject: (reason) => { settle(); reject(reason); }
+      };
+
+      this._waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (options?.timeout !== undefined) {
+        timer = setTimeout(() => cancel(new Error("[pq-ts] Timed out waiting for an element.")), options.timeout);
+      }
+    });
+  }
+
+  /**
+   * Removes and returns the element at the front of the queue without waiting.
+   * @returns - The element at the front of the queue, or undefined if the queue is empty.
+   */
+  tryDequeue(): T | undefined {
+    return this.queue.dequeue();
+  }
+
+  /**
+   * Returns the element at the front of the queue without removing it.
+   * @returns - The element at the front of the queue, or undefined if the queue is empty.
+   */
+  peek(): T | undefined {
+    return this.queue.peek();
+  }
+
+  /**
+   * Returns true if the queue is empty, false otherwise.
+   * @returns - True if the queue is empty, false otherwise.
+   */
+  isEmpty(): boolean {
+    return this.queue.isEmpty();
+  }
+
+  /**
+   * Closes the queue. New elements are not added, and waiting consumers are rejected.
+   * The elements left in the queue can still be dequeued, and iteration ends once they are.
+   */
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+    const waiters = this._waiters;
+    this._waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(new Error("[pq-ts] The queue is closed."));
+    }
+  }
+
+  /**
+   * Dequeues elements in priority order as they become available, until the queue is closed and empty.
+   * @returns - An async iterator for the queue.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (!this._closed || !this.queue.isEmpty()) {
+      try {
+        yield await this.dequeue();
+      } catch (error) {
+        if (this._closed && this.queue.isEmpty()) return;
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { expect, describe, it } from "vitest";
+import { BoundedPriorityQueue } from "./bounded.pq.ts";
+import { PriorityQueue } from "./pq.ts";
+
+describe("BoundedPriorityQueue", () => {
+  it("should throw if the capacity is not a positive integer", () => {
+    expect(() => new BoundedPriorityQueue<number>(0)).toThrow();
+    expect(() => new BoundedPriorityQueue<number>(1.5)).toThrow();
+  });
+
+  it("should reject elements when full by default", () => {
+    const pq = new BoundedPriorityQueue<number>(2);
+    expect(pq.overflow).toBe("reject");
+    expect(pq.enqueue(1, 5)).toBe(true);
+    expect(pq.enqueue(2, 3)).toBe(true);
+    expect(pq.isFull()).toBe(true);
+    expect(pq.enqueue(3, 1)).toBe(false);
+    expect(pq.count).toBe(2);
+    expect(pq.toArray()).toEqual([2, 1]);
+  });
+
+  it("should evict the worst element when full", () => {
+    const pq = new BoundedPriorityQueue<number>(3, undefined, { overflow: "evict-worst" });
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.peekWorst()).toBe(1);
+    expect(pq.enqueue(4, 1)).toBe(true);
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual([4, 2, 3]);
+    expect(pq.enqueue(5, 9)).toBe(false);
+    expect(pq.toArray()).toEqual([4, 2, 3]);
+  });
+
+  it("should keep the top-K elements", () => {
+    const k = 10;
+    const pq = new BoundedPriorityQueue<number>(k, (a, b) => b.priority - a.priority, { overflow: "evict-worst" });
+    const scores = Array.from({ length: 1000 }, (_, i) => (i * 7919) % 1000);
+    for (const score of scores) {
+      pq.enqueue(score, score);
+    }
+
+    expect(pq.count).toBe(k);
+    expect(pq.toArray()).toEqual([999, 998, 997, 996, 995, 994, 993, 992, 991, 990]);
+    expect(pq.peekWorst()).toBe(990);
+  });
+
+  it("should drop the oldest element when full", () => {
+    const pq = new BoundedPriorityQueue<string>(3, undefined, { overflow: "drop-oldest" });
+    pq.enqueue("a", 1);
+    pq.enqueue("b", 5);
+    pq.enqueue("c", 3);
+    pq.enqueue("d", 4);
+
+    expect(pq.toArray()).toEqual(["c", "d", "b"]);
+    expect(pq.dequeue()).toBe("c");
+    pq.enqueue("e", 2);
+    pq.enqueue("f", 6);
+    expect(pq.toArray()).toEqual(["e", "d", "f"]);
+  });
+
+  it("should skip removed elements when dropping the oldest", () => {
+    const pq = new BoundedPriorityQueue<number>(2, undefined, { overflow: "drop-oldest" });
+    for (let i = 0; i < 100; i++) {
+      pq.enqueue(i, i);
+      if (i % 3 === 1) pq.remove(i);
+    }
+
+    expect(pq.toArray()).toEqual([98, 99]);
+  });
+
+  it("should keep the worst element in sync with priority updates and removals", () => {
+    const pq = new BoundedPriorityQueue<string>(3, undefined, { overflow: "evict-worst" });
+    const a = pq.enqueueWithHandle("a", 1)!;
+    pq.enqueue("b", 2);
+    pq.enqueue("c", 3);
+
+    pq.updatePriority(a, 10);
+    expect(pq.peekWorst()).toBe("a");
+    pq.removeHandle(a);
+    expect(pq.peekWorst()).toBe("c");
+    pq.dequeue();
+    expect(pq.peekWorst()).toBe("c");
+
+    pq.enqueue("d", 4);
+    pq.enqueue("e", 0);
+    expect(pq.peekWorst()).toBe("d");
+    pq.enqueue("f", 1);
+    expect(pq.toArray()).toEqual(["e", "f", "c"]);
+  });
+
+  it("should apply the overflow policy to enqueueRange", () => {
+    const pq = new BoundedPriorityQueue<number>(2, undefined, { overflow: "evict-worst" });
+    expect(pq.enqueueRange([[1, 5], [2, 3], [3, 4], [4, 9]])).toBe(3);
+    expect(pq.toArray()).toEqual([2, 3]);
+  });
+
+  it("should clone and clear the queue", () => {
+    const pq = new BoundedPriorityQueue<number>(2, undefined, { overflow: "drop-oldest", arity: 2 });
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    const clone = pq.clone();
+    expect(clone.capacity).toBe(2);
+    expect(clone.arity).toBe(2);
+    clone.enqueue(3, 4);
+    expect(clone.toArray()).toEqual([2, 3]);
+    expect(pq.toArray()).toEqual([2, 1]);
+
+    pq.clear();
+    expect(pq.count).toBe(0);
+    pq.enqueue(4, 1);
+    pq.enqueue(5, 2);
+    pq.enqueue(6, 3);
+    expect(pq.toArray()).toEqual([5, 6]);
+  });
+
+  it("should apply the overflow policy when melding", () => {
+    const pq = new BoundedPriorityQueue<number>(3, undefined, { overflow: "evict-worst" });
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    const other = new BoundedPriorityQueue<number>(3);
+    other.enqueue(3, 1);
+    other.enqueue(4, 9);
+
+    pq.meld(other);
+    expect(other.count).toBe(0);
+    expect(pq.toArray()).toEqual([3, 2, 1]);
+  });
+
+  it("should reject the static factories that need a capacity", () => {
+    const json = new PriorityQueue<string>([["a", 1], ["b", 2]], undefined, { entries: true }).toJSON();
+    expect(() => BoundedPriorityQueue.from(["a"])).toThrow("[pq-ts] BoundedPriorityQueue.from is not supported.");
+    expect(() => BoundedPriorityQueue.fromEntries([["a", 1]])).toThrow("[pq-ts] BoundedPriorityQueue.fromEntries is not supported.");
+    expect(() => BoundedPriorityQueue.fromJSON(json)).toThrow("[pq-ts] BoundedPriorityQueue.fromJSON is not supported.");
+
+    const pq = new BoundedPriorityQueue<string>(1).meld(PriorityQueue.fromJSON<string>(json));
+    expect(pq.toArray()).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,276 @@
+import type { IBoundedPriorityQueueOptions, IComparer, IPriorityHandle, IPriorityNode, OverflowPolicy } from "./types.ts";
+import { PriorityQueue } from "./pq.ts";
+
+/**
+ * A priority queue that holds at most `capacity` elements.
+ * When the queue is full, `enqueue` applies the configured overflow policy.
+ *
+ * @remarks
+ * The `evict-worst` policy keeps a second heap ordered from the lowest-ranked element,
+ * and the `drop-oldest` policy keeps the elements in insertion order, so that both
+ * evictions run in O(log n). Neither structure is kept for the `reject` policy.
+ */
+export class BoundedPriorityQueue<
+  T,
+  Node extends IPriorityNode<T> = IPriorityNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>
+> extends PriorityQueue<T, Node, Comparer> {
+  /**
+   * The maximum number of elements in the queue.
+   */
+  readonly capacity: number;
+  /**
+   * The policy applied when an element is added to a full queue.
+   */
+  readonly overflow: OverflowPolicy;
+  /**
+   * The nodes of the queue ordered from the lowest-ranked node. Only used by `evict-worst`.
+   * @protected
+   */
+  protected _worst: PriorityQueue<Node>;
+  /**
+   * The handles of the nodes in `_worst`, keyed by node.
+   * @protected
+   */
+  protected _worstHandles = new Map<Node, IPriorityHandle<Node>>();
+  /**
+   * The nodes of the queue in insertion order. Only used by `drop-oldest`.
+   * Nodes that have left the queue are skipped lazily.
+   * @protected
+   */
+  protected _order: Node[] = [];
+  /**
+   * The index of the oldest node in `_order` that may still be in the queue.
+   * @protected
+   */
+  protected _orderHead = 0;
+
+  /**
+   * Creates a new instance of a bounded priority queue.
+   * @param capacity - The maximum number of elements in the queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   */
+  constructor(capacity: number, comparer?: Comparer, options?: IBoundedPriorityQueueOptions) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error("[pq-ts] Capacity must be a positive integer.");
+    }
+    super(comparer as Comparer, options);
+    this.capacity = capacity;
+    this.overflow = options?.overflow ?? "reject";
+    this._worst = new PriorityQueue<Node>((a, b) => this.compare(b.value, a.value), { arity: this.arity });
+  }
+
+  /**
+   * Returns true if the queue holds `capacity` elements, false otherwise.
+   * @returns - True if the queue is full, false otherwise.
+   */
+  isFull(): boolean {
+    return this._size >= this.capacity;
+  }
+
+  /**
+   * Adds an element to the queue and returns a handle to it.
+   * If the queue is full, the overflow policy decides whether an element is evicted or the new element is rejected.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - A handle to the element, or undefined if the element was not added.
+   */
+  override enqueueWithHandle(value: T, priority: number): IPriorityHandle<T, Node> | undefined {
+    if (typeof priority !== "number") return undefined;
+    if (this.isFull()) {
+      switch (this.overflow) {
+        case "reject":
+          return undefined;
+        case "evict-worst": {
+          const worst = this._worst.peek() as Node;
+          if (this.compare(this.createNode(value, priority, -1), worst) >= 0) return undefined;
+          this.removeHandle(worst);
+          break;
+        }
+        case "drop-oldest":
+          this.removeHandle(this.oldest() as Node);
+          break;
+      }
+    }
+
+    const node = super.enqueueWithHandle(value, priority) as Node;
+    this.track(node);
+    return node;
+  }
+
+  /**
+   * Adds value and priority pairs to the queue, applying the overflow policy to each pair.
+   * @param entries - The value and priority pairs to add.
+   * @returns - The number of elements that were added.
+   */
+  override enqueueRange(entries: Iterable<[T, number]>): number {
+    let added = 0;
+    for (const [value, priority] of entries) {
+      if (this.enqueue(value, priority)) added++;
+    }
+    return added;
+  }
+
+  /**
+   * Moves all elements of another queue into this queue, applying the overflow policy to each element,
+   * and leaves the other queue empty. Handles from the other queue do not refer to elements of this queue.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  override meld(other: PriorityQueue<T, Node, Comparer>): this {
+    if (other === this) return this;
+    for (const node of other.heap.slice(0, other.count)) {
+      this.enqueue(node.value, node.priority);
+    }
+    other.clear();
+    return this;
+  }
+
+  override enqueueDequeue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    if (this.isEmpty() || this.compare(this._elements[0], this.createNode(value, priority, -1)) >= 0) return value;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  override dequeueEnqueue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  override updatePriority(handle: IPriorityHandle<T, Node>, priority: number): boolean {
+    if (!super.updatePriority(handle, priority)) return false;
+    if (this.overflow === "evict-worst") {
+      this.untrack(handle as Node);
+      this.track(handle as Node);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the lowest-ranked element in the queue without removing it.
+   * @returns - The lowest-ranked element, or undefined if the queue is empty.
+   * @remarks Runs in O(1) with the `evict-worst` policy and O(n) otherwise.
+   */
+  peekWorst(): T | undefined {
+    if (this.isEmpty()) return undefined;
+    if (this.overflow === "evict-worst") return this._worst.peek()?.value;
+    let worst = this._elements[0];
+    for (let i = 1; i < this._size; i++) {
+      if (this.compare(this._elements[i], worst) > 0) worst = this._elements[i];
+    }
+    return worst.value;
+  }
+
+  override clear(): void {
+    super.clear();
+    this._worst.clear();
+    this._worstHandles.clear();
+    this._order = [];
+    this._orderHead = 0;
+  }
+
+  override clone(): this {
+    const clone = new BoundedPriorityQueue<T, Node, Comparer>(
+      this.capacity,
+      this.compare,
+      { arity: this.arity, overflow: this.overflow }
+    );
+    const nodes = this.overflow === "drop-oldest" ? this._order.slice(this._orderHead) : this._elements;
+    for (const node of nodes) {
+      if (node && this.hasHandle(node)) clone.enqueue(node.value, node.priority);
+    }
+    return clone as this;
+  }
+
+  protected override removeRootNode(): void {
+    if (this.isEmpty()) return;
+    const root = this._elements[0];
+    super.removeRootNode();
+    this.untrack(root);
+  }
+
+  protected override removeAt(index: number): Node {
+    const node = super.removeAt(index);
+    this.untrack(node);
+    return node;
+  }
+
+  /**
+   * Records a node that entered the queue in the structures used by the overflow policy.
+   * @param node - The node that entered the queue.
+   * @protected
+   */
+  protected track(node: Node): void {
+    if (this.overflow === "evict-worst") {
+      this._worstHandles.set(node, this._worst.enqueueWithHandle(node, 0) as IPriorityHandle<Node>);
+    } else if (this.overflow === "drop-oldest") {
+      // Compact the insertion order once it holds mostly nodes that have left the queue.
+      if (this._order.length - this._orderHead > 2 * this._size + 16) {
+        this._order = this._order.slice(this._orderHead).filter((n) => this.hasHandle(n));
+        this._orderHead = 0;
+      }
+      this._order.push(node);
+    }
+  }
+
+  /**
+   * Removes a node that left the queue from the structures used by the overflow policy.
+   * @param node - The node that left the queue.
+   * @protected
+   */
+  protected untrack(node: Node): void {
+    if (this.overflow !== "evict-worst") return;
+    const handle = this._worstHandles.get(node);
+    if (handle) {
+      this._worst.removeHandle(handle);
+      this._worstHandles.delete(node);
+    }
+  }
+
+  /**
+   * Returns the oldest node in the queue. Only used by `drop-oldest`.
+   * @returns - The oldest node, or undefined if the queue is empty.
+   * @protected
+   */
+  protected oldest(): Node | undefined {
+    while (this._orderHead < this._order.length && !this.hasHandle(this._order[this._orderHead])) {
+      this._orderHead++;
+    }
+    return this._order[this._orderHead];
+  }
+
+  /**
+   * Not supported, because a bounded queue needs a capacity.
+   * Create the queue with `new BoundedPriorityQueue(capacity)` and add the elements with `enqueueRange`.
+   * @param _args - The arguments of the factory, which are ignored.
+   * @throws - Always.
+   */
+  static override from(..._args: unknown[]): never {
+    throw new Error("[pq-ts] BoundedPriorityQueue.from is not supported. Create the queue with a capacity and call enqueueRange.");
+  }
+
+  /**
+   * Not supported, because a bounded queue needs a capacity.
+   * Create the queue with `new BoundedPriorityQueue(capacity)` and add the elements with `enqueueRange`.
+   * @param _args - The arguments of the factory, which are ignored.
+   * @throws - Always.
+   */
+  static override fromEntries(..._args: unknown[]): never {
+    throw new Error("[pq-ts] BoundedPriorityQueue.fromEntries is not supported. Create the queue with a capacity and call enqueueRange.");
+  }
+
+  /**
+   * Not supported, because a bounded queue needs a capacity.
+   * Restore a `PriorityQueue` with `PriorityQueue.fromJSON` and move its elements into a bounded queue with `meld`.
+   * @param _args - The arguments of the factory, which are ignored.
+   * @throws - Always.
+   */
+  static override fromJSON(..._args: unknown[]): never {
+    throw new Error("[pq-ts] BoundedPriorityQueue.fromJSON is not supported. Restore a PriorityQueue and meld it into a bounded queue.");
+  }
+}
@@ -0,0 +1,120 @@
+import { expect, describe, it } from "vitest";
+import { BucketPriorityQueue } from "./bucket.pq.ts";
+import { StablePriorityQueue } from "./stable.pq.ts";
+
+describe("BucketPriorityQueue", () => {
+  it("should create an empty bucket priority queue", () => {
+    const pq = new BucketPriorityQueue<number>();
+    expect(pq.count).toBe(0);
+    expect(pq.mode).toBe("bucket");
+    expect(pq.bucketCount).toBe(256);
+    expect(pq.peek()).toBeUndefined();
+    expect(pq.dequeue()).toBeUndefined();
+  });
+
+  it("should dequeue elements with equal priorities in insertion order", () => {
+    const pq = new BucketPriorityQueue<string>();
+    pq.enqueue("a", 3);
+    pq.enqueue("b", 1);
+    pq.enqueue("c", 3);
+    pq.enqueue("d", 1);
+    pq.enqueue("e", 0);
+
+    expect(pq.peek()).toBe("e");
+    expect(pq.toArray()).toEqual(["e", "b", "d", "a", "c"]);
+    expect(pq.dequeue()).toBe("e");
+    expect(pq.dequeue()).toBe("b");
+    pq.enqueue("f", 1);
+    expect(pq.toArray()).toEqual(["d", "f", "a", "c"]);
+  });
+
+  it("should match StablePriorityQueue", () => {
+    const pq = new BucketPriorityQueue<number>({ min: 10, max: 20 });
+    const spq = new StablePriorityQueue<number>();
+    let seed = 13;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+    for (let i = 0; i < 2000; i++) {
+      if (random() < 0.6) {
+        const priority = 10 + Math.floor(random() * 11);
+        pq.enqueue(i, priority);
+        spq.enqueue(i, priority);
+      } else {
+        expect(pq.dequeue()).toBe(spq.dequeue());
+      }
+      expect(pq.count).toBe(spq.count);
+    }
+    expect(pq.toArray()).toEqual(spq.toArray());
+  });
+
+  it("should throw when a priority is out of range", () => {
+    const pq = new BucketPriorityQueue<number>({ min: 1, max: 8 });
+    expect(() => pq.enqueue(1, 0)).toThrow("[pq-ts] Priority 0 is not an integer in the range [1, 8].");
+    expect(() => pq.enqueue(1, 9)).toThrow();
+    expect(() => pq.enqueue(1, 1.5)).toThrow();
+    expect(() => new BucketPriorityQueue({ min: 5, max: 4 })).toThrow();
+  });
+
+  it("should order elements in calendar mode", () => {
+    const pq = new BucketPriorityQueue<number>({ mode: "calendar", width: 10, buckets: 8 });
+    const priorities = [5, 995, 12.5, 80, 12.5, 7, 1000000, 79, 240, 3];
+    priorities.forEach((priority, i) => pq.enqueue(i, priority));
+
+    expect(pq.max).toBe(Number.POSITIVE_INFINITY);
+    expect(pq.toArray()).toEqual([9, 0, 5, 2, 4, 7, 3, 8, 1, 6]);
+    expect(pq.dequeue()).toBe(9);
+    expect(pq.dequeue()).toBe(0);
+    pq.enqueue(10, 1);
+    expect(pq.dequeue()).toBe(10);
+  });
+
+  it("should match StablePriorityQueue in calendar mode", () => {
+    const pq = new BucketPriorityQueue<number>({ mode: "calendar", width: 4, buckets: 16 });
+    const spq = new StablePriorityQueue<number>();
+    let seed = 17;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    let now = 0;
+
+    for (let i = 0; i < 3000; i++) {
+      if (random() < 0.55) {
+        const priority = now + Math.floor(random() * 200);
+        pq.enqueue(i, priority);
+        spq.enqueue(i, priority);
+      } else if (!spq.isEmpty()) {
+        const node = spq.pop()!;
+        now = node.priority;
+        expect(pq.dequeue()).toBe(node.value);
+      }
+    }
+    pq.enqueue(-1, 0);
+    spq.enqueue(-1, 0);
+    expect(pq.toArray()).toEqual(spq.toArray());
+  });
+
+  it("should remove, find and clone elements", () => {
+    const pq = new BucketPriorityQueue<number>({ mode: "calendar", width: 2, buckets: 4 });
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.indexOf(3, true)).toBe(1);
+    expect(pq.priorityAt(2, true)).toBe(5);
+    const clone = pq.clone();
+    expect(clone.width).toBe(2);
+    expect(pq.remove(3)).toBe(true);
+    expect(pq.remove(3)).toBe(false);
+    expect(pq.toArray()).toEqual([2, 1]);
+    expect(clone.toArray()).toEqual([2, 3, 1]);
+  });
+
+  it("should replace the front of the queue", () => {
+    const pq = new BucketPriorityQueue<number>();
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 2);
+
+    expect(pq.enqueueDequeue(3, 0)).toBe(3);
+    expect(pq.enqueueDequeue(3, 1)).toBe(1);
+    expect(pq.dequeueEnqueue(4, 0)).toBe(3);
+    expect(pq.toArray()).toEqual([4, 2]);
+  });
+});
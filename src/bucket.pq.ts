@@ -0,0 +1,420 @@
+import type { BucketQueueMode, IBucketPriorityQueueOptions, IComparer, IEqualityComparator, IPriorityNode, IPriorityQueueLike } from "./types.ts";
+
+/**
+ * A stable priority queue that keeps elements in buckets of priorities.
+ * Elements with equal priorities are dequeued in insertion order, like `StablePriorityQueue`,
+ * without comparing stability indices.
+ *
+ * In `bucket` mode, each integer priority in `[min, max]` has its own FIFO bucket, so enqueueing
+ * and dequeueing take O(1) time (amortized over the range). In `calendar` mode, a fixed number of
+ * buckets each cover `width` priorities and wrap around like the days of a calendar, so wide but
+ * dense ranges of (not necessarily integer) priorities take O(1) time per operation when the
+ * width is close to the gap between priorities.
+ *
+ * @remarks
+ * Elements are ordered by priority only, so a custom comparer is not supported.
+ * `nindex` is the bucket of a node, and `arity` is `Infinity`.
+ */
+export class BucketPriorityQueue<
+  T,
+  Node extends IPriorityNode<T> = IPriorityNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>
+> implements IPriorityQueueLike<T, Node, Comparer> {
+  /**
+   * The layout of the queue.
+   */
+  readonly mode: BucketQueueMode;
+  /**
+   * The smallest priority that can be enqueued.
+   */
+  readonly min: number;
+  /**
+   * The largest priority that can be enqueued, or `Infinity` in `calendar` mode.
+   */
+  readonly max: number;
+  /**
+   * The number of priorities covered by each bucket.
+   */
+  readonly width: number;
+  /**
+   * The buckets used internally. Each bucket is sorted by priority from its head.
+   * @protected
+   */
+  protected _buckets: Node[][];
+  /**
+   * The index of the first element of each bucket used internally.
+   * @protected
+   */
+  protected _heads: number[];
+  /**
+   * The day (priority divided by the width) that the next element is searched from.
+   * No element in the queue has an earlier day.
+   * @protected
+   */
+  protected _day = 0;
+  /**
+   * The size of elements in the queue used internally.
+   * @protected
+   */
+  protected _size = 0;
+  /**
+   * The compare function, which orders elements by priority.
+   */
+  compare: Comparer = ((a: Node, b: Node) => a.priority - b.priority) as Comparer;
+
+  /**
+   * Creates a new instance of a bucket priority queue.
+   * @param options - The options for the queue.
+   */
+  constructor(options: IBucketPriorityQueueOptions = {}) {
+    this.mode = options.mode ?? "bucket";
+    this.min = options.min ?? 0;
+    let count: number;
+    if (this.mode === "bucket") {
+      this.max = options.max ?? 255;
+      this.width = 1;
+      if (!Number.isSafeInteger(this.min) || !Number.isSafeInteger(this.max) || this.min > this.max) {
+        throw new Error("[pq-ts] The priority range must be integers with min <= max.");
+      }
+      count = this.max - this.min + 1;
+    } else {
+      this.max = Number.POSITIVE_INFINITY;
+      this.width = options.width ?? 1;
+      count = options.buckets ?? 256;
+      if (!Number.isFinite(this.min)) {
+        throw new Error("[pq-ts] The smallest priority must be a finite number.");
+      }
+      if (!(this.width > 0) || !Number.isFinite(this.width)) {
+        throw new Error("[pq-ts] The bucket width must be a positive number.");
+      }
+      if (!Number.isSafeInteger(count) || count < 1) {
+        throw new Error("[pq-ts] The bucket count must be a positive integer.");
+      }
+    }
+
+    this._buckets = Array.from({ length: count }, () => []);
+    this._heads = new Array<number>(count).fill(0);
+  }
+
+  get count(): number {
+    return this._size;
+  }
+
+  /**
+   * The number of children each node in the heap has, which does not apply to a bucket queue.
+   * @readonly
+   */
+  get arity(): number {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * The number of buckets.
+   * @readonly
+   */
+  get bucketCount(): number {
+    return this._buckets.length;
+  }
+
+  get values(): T[] {
+    return this.heap.map((node) => node.value);
+  }
+
+  /**
+   * The nodes in the queue, bucket by bucket.
+   * @returns - The nodes in the queue.
+   */
+  get heap(): Node[] {
+    return this._buckets.flatMap((bucket, b) => bucket.slice(this._heads[b]));
+  }
+
+  /**
+   * Adds an element to the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - True if the element was added, false if the priority is not a number.
+   * @throws - If the priority is out of the range of the queue.
+   */
+  enqueue(value: T, priority: number): boolean {
+    if (typeof priority !== "number") return false;
+    this.validate(priority);
+    const day = this.dayOf(priority);
+    if (day < this._day || this._size === 0) this._day = day;
+
+    const b = day % this._buckets.length;
+    const bucket = this._buckets[b];
+    const node = { value, priority, nindex: b } as Node;
+    if (bucket.length === this._heads[b] || bucket[bucket.length - 1].priority <= priority) {
+      bucket.push(node);
+    } else {
+      // Insert after the last element with a priority less than or equal to the new one
+      let low = this._heads[b];
+      let high = bucket.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (bucket[mid].priority <= priority) low = mid + 1;
+        else high = mid;
+      }
+      bucket.splice(low, 0, node);
+    }
+
+    this._size++;
+    return true;
+  }
+
+  /**
+   * Adds value and priority pairs to the queue.
+   * @param entries - The value and priority pairs to add.
+   * @returns - The number of elements that were added.
+   */
+  enqueueRange(entries: Iterable<[T, number]>): number {
+    let added = 0;
+    for (const [value, priority] of entries) {
+      if (this.enqueue(value, priority)) added++;
+    }
+    return added;
+  }
+
+  dequeue(): T | undefined {
+    return this.pop()?.value;
+  }
+
+  pop(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    this._day = this.locate(this._heads, this._day);
+    const b = this._day % this._buckets.length;
+    const bucket = this._buckets[b];
+    const head = this._heads[b];
+    const node = bucket[head];
+
+    if (head + 1 === bucket.length) {
+      this._buckets[b] = [];
+      this._heads[b] = 0;
+    } else if (head >= 32 && head * 2 >= bucket.length) {
+      // Drop the dequeued slots once they make up half of the bucket
+      bucket.splice(0, head + 1);
+      this._heads[b] = 0;
+    } else {
+      bucket[head] = undefined as unknown as Node;
+      this._heads[b] = head + 1;
+    }
+
+    this._size--;
+    return node;
+  }
+
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   */
+  enqueueDequeue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    this.validate(priority);
+    // An element already in the queue with an equal priority was added first
+    if (this.isEmpty() || priority < (this.front() as Node).priority) return value;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   */
+  dequeueEnqueue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    this.validate(priority);
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  peek(): T | undefined {
+    return this.front()?.value;
+  }
+
+  clear(): void {
+    this._buckets = Array.from({ length: this._buckets.length }, () => []);
+    this._heads.fill(0);
+    this._day = 0;
+    this._size = 0;
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * Elements with equal priorities are returned in insertion order.
+   * @returns - A generator of nodes in priority order.
+   */
+  *orderedNodes(): Generator<Node, void, undefined> {
+    const heads = [...this._heads];
+    let day = this._day;
+    for (let remaining = this._size; remaining > 0; remaining--) {
+      day = this.locate(heads, day);
+      const b = day % this._buckets.length;
+      yield this._buckets[b][heads[b]++];
+    }
+  }
+
+  /**
+   * Creates a copy of the priority queue.
+   * @returns - A new priority queue instance with the same elements.
+   */
+  clone(): this {
+    const clone = new BucketPriorityQueue<T, Node, Comparer>(this.options());
+    clone._buckets = this._buckets.map((bucket, b) => bucket.slice(this._heads[b]).map((node) => ({ ...node })));
+    clone._day = this._day;
+    clone._size = this._size;
+    return clone as this;
+  }
+
+  /**
+   * Removes the first occurrence of a specific element from the queue.
+   * @param value - The element to remove.
+   * @param comparer - An optional equality comparison function.
+   * @returns - True if the element was removed, false otherwise.
+   */
+  remove(value: T, comparer: IEqualityComparator<T> = (a, b) => a === b): boolean {
+    for (let b = 0; b < this._buckets.length; b++) {
+      const bucket = this._buckets[b];
+      for (let i = this._heads[b]; i < bucket.length; i++) {
+        if (!comparer(bucket[i].value, value)) continue;
+        bucket.splice(i, 1);
+        this._size--;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns the index of the first occurrence of a specific element in the queue.
+   * @param value - The element to search for.
+   * @param dequeue - If true, searches for the element in priority order; otherwise bucket by bucket.
+   * @param comparer - An optional equality comparison function.
+   * @returns - The index of the element if it exists, or -1 if the element is not found.
+   */
+  indexOf(value: T, dequeue = false, comparer: IEqualityComparator<T> = (a, b) => a === b): number {
+    let index = 0;
+    for (const node of dequeue ? this.orderedNodes() : this.heap) {
+      if (comparer(node.value, value)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the priority of the element at the specified index.
+   * @param index - The index of the element.
+   * @param dequeue - If true, counts the elements in priority order; otherwise bucket by bucket.
+   * @returns - The priority of the element if it exists, or `Number.MAX_VALUE` if the index is out of range.
+   */
+  priorityAt(index: number, dequeue = false): number {
+    if (index < 0 || index >= this._size) return Number.MAX_VALUE;
+    if (!dequeue) return this.heap[index].priority;
+    let i = index;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
+    }
+    return Number.MAX_VALUE;
+  }
+
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  toString(): string {
+    return this.toArray().join(", ");
+  }
+
+  /**
+   * Iterates over the queue in priority order.
+   * @returns - An iterator for the queue.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Returns the options the queue was created with.
+   * @returns - The options of the queue.
+   * @protected
+   */
+  protected options(): IBucketPriorityQueueOptions {
+    return this.mode === "bucket"
+      ? { mode: this.mode, min: this.min, max: this.max }
+      : { mode: this.mode, min: this.min, width: this.width, buckets: this._buckets.length };
+  }
+
+  /**
+   * Throws if a priority cannot be added to the queue.
+   * @param priority - The priority to check.
+   * @protected
+   */
+  protected validate(priority: number): void {
+    if (this.mode === "bucket") {
+      if (!Number.isInteger(priority) || priority < this.min || priority > this.max) {
+        throw new Error(`[pq-ts] Priority ${priority} is not an integer in the range [${this.min}, ${this.max}].`);
+      }
+    } else if (!Number.isFinite(priority) || priority < this.min) {
+      throw new Error(`[pq-ts] Priority ${priority} must be a finite number not less than ${this.min}.`);
+    }
+  }
+
+  /**
+   * Returns the day of a priority, which is the number of bucket widths between the priority and `min`.
+   * @param priority - The priority.
+   * @returns - The day of the priority.
+   * @protected
+   */
+  protected dayOf(priority: number): number {
+    return Math.floor((priority - this.min) / this.width);
+  }
+
+  /**
+   * Finds the day of the element at the front of the queue.
+   * Buckets are visited one day at a time for a full round; if no element is due in that round,
+   * the heads of all buckets are searched directly.
+   * @param heads - The index of the first element of each bucket.
+   * @param day - The day to start from. No element may have an earlier day.
+   * @returns - The day of the element at the front of the queue.
+   * @protected
+   */
+  protected locate(heads: number[], day: number): number {
+    const count = this._buckets.length;
+    for (let i = 0; i < count; i++, day++) {
+      const b = day % count;
+      const bucket = this._buckets[b];
+      if (heads[b] < bucket.length && this.dayOf(bucket[heads[b]].priority) <= day) return day;
+    }
+
+    let front: Node | undefined;
+    for (let b = 0; b < count; b++) {
+      const node = this._buckets[b][heads[b]];
+      if (heads[b] < this._buckets[b].length && (!front || node.priority < front.priority)) front = node;
+    }
+    return this.dayOf((front as Node).priority);
+  }
+
+  /**
+   * Returns the node at the front of the queue without removing it.
+   * @returns - The node at the front of the queue, or undefined if the queue is empty.
+   * @protected
+   */
+  protected front(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    this._day = this.locate(this._heads, this._day);
+    const b = this._day % this._buckets.length;
+    return this._buckets[b][this._heads[b]];
+  }
+}
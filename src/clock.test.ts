@@ -0,0 +1,15 @@
+import { expect, describe, it } from "vitest";
+import { systemClock } from "./clock.ts";
+
+describe("systemClock", () => {
+  it("should read the system time and run timers", async () => {
+    const before = Date.now();
+    expect(systemClock.now()).toBeGreaterThanOrEqual(before);
+
+    const calls: string[] = [];
+    const cancelled = systemClock.setTimeout(() => calls.push("cancelled"), 0);
+    systemClock.clearTimeout(cancelled);
+    await new Promise<void>((resolve) => systemClock.setTimeout(resolve, 1));
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,10 @@
+import type { ITimerClock } from "./types.ts";
+
+/**
+ * The clock of the system, which reads `Date.now` and uses the global timer functions.
+ */
+export const systemClock: ITimerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
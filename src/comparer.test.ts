@@ -0,0 +1,37 @@
+import { expect, describe, it } from "vitest";
+import { compareBigInts, compareDates, compareNumbers, createStringComparer, createTupleComparer } from "./comparer.ts";
+
+describe("comparers", () => {
+  it("should compare numbers and bigints in ascending order", () => {
+    expect([3, -1, 2].sort(compareNumbers)).toEqual([-1, 2, 3]);
+    expect([2n ** 70n, -5n, 0n].sort(compareBigInts)).toEqual([-5n, 0n, 2n ** 70n]);
+    expect(compareBigInts(1n, 1n)).toBe(0);
+  });
+
+  it("should compare dates in chronological order", () => {
+    const a = new Date(2020, 0, 1);
+    const b = new Date(2021, 0, 1);
+    expect(compareDates(a, b)).toBeLessThan(0);
+    expect(compareDates(b, a)).toBeGreaterThan(0);
+    expect(compareDates(a, new Date(a))).toBe(0);
+  });
+
+  it("should compare strings with a collator", () => {
+    const compare = createStringComparer("en", { numeric: true });
+    expect(["item 10", "item 2", "item 1"].sort(compare)).toEqual(["item 1", "item 2", "item 10"]);
+    expect(createStringComparer("en", { sensitivity: "base" })("a", "A")).toBe(0);
+  });
+
+  it("should compare tuples lexicographically", () => {
+    const compare = createTupleComparer(compareNumbers, compareBigInts);
+    expect(compare([1, 2n], [1, 3n])).toBeLessThan(0);
+    expect(compare([2, 0n], [1, 3n])).toBeGreaterThan(0);
+    expect(compare([1, 2n], [1, 2n])).toBe(0);
+  });
+
+  it("should order a tuple before the tuples it is a prefix of", () => {
+    const compare = createTupleComparer<number[]>(compareNumbers, compareNumbers);
+    expect(compare([1], [1, 0])).toBeLessThan(0);
+    expect(compare([1, 0], [1])).toBeGreaterThan(0);
+  });
+});
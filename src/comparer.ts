@@ -0,0 +1,74 @@
+/**
+ * Built-in priority comparers for use with the `priorityComparer` option.
+ * Each comparer orders the smallest priority first.
+ *
+ * @module Comparer
+ */
+import type { IComparer } from "./types.ts";
+
+/**
+ * Compares two number priorities in ascending order.
+ * @param a - The first priority.
+ * @param b - The second priority.
+ * @returns - A negative number if `a` is smaller, a positive number if `a` is larger, and zero otherwise.
+ */
+export const compareNumbers: IComparer<number> = (a, b) => a - b;
+
+/**
+ * Compares two bigint priorities in ascending order.
+ * @param a - The first priority.
+ * @param b - The second priority.
+ * @returns - -1 if `a` is smaller, 1 if `a` is larger, and 0 otherwise.
+ */
+export const compareBigInts: IComparer<bigint> = (a, b) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Compares two date priorities in chronological order.
+ * @param a - The first priority.
+ * @param b - The second priority.
+ * @returns - A negative number if `a` is earlier, a positive number if `a` is later, and zero otherwise.
+ */
+export const compareDates: IComparer<Date> = (a, b) => a.getTime() - b.getTime();
+
+/**
+ * Creates a comparer that orders string priorities with an `Intl.Collator`.
+ * @param locales - The locales passed to the collator.
+ * @param options - The options passed to the collator.
+ * @returns - A comparer for string priorities.
+ *
+ * @example
+ * ```typescript
+ * const compare = createStringComparer("en", { numeric: true });
+ * compare("item 2", "item 10"); // Negative
+ * ```
+ */
+export const createStringComparer = (
+  locales?: string | string[],
+  options?: Intl.CollatorOptions
+): IComparer<string> => new Intl.Collator(locales, options).compare;
+
+/**
+ * Creates a comparer that orders tuple priorities lexicographically.
+ * Each element is compared with the comparer at the same position, and a tuple that is
+ * a prefix of another tuple is ordered first.
+ * @param comparers - The comparers for the elements of the tuple.
+ * @returns - A comparer for tuple priorities.
+ *
+ * @example
+ * ```typescript
+ * const compare = createTupleComparer(compareNumbers, createStringComparer());
+ * compare([1, "b"], [1, "a"]); // Positive
+ * ```
+ */
+export const createTupleComparer = <P extends readonly unknown[]>(
+  ...comparers: { [K in keyof P]: IComparer<P[K]> }
+): IComparer<P> => {
+  return (a, b) => {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const order = (comparers[i] as IComparer<unknown>)(a[i], b[i]);
+      if (order !== 0) return order;
+    }
+    return a.length - b.length;
+  };
+}
@@ -0,0 +1,93 @@
+import { expect, describe, it } from "vitest";
+import { Worker } from "node:worker_threads";
+import { ConcurrentTypedPriorityQueue } from "./concurrent.typed.pq.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+import { SHARED_HEADER } from "./primitive.ts";
+import type { IPriorityNode } from "./types.ts";
+
+describe("ConcurrentTypedPriorityQueue", () => {
+  it("should share the heap with attached queues", () => {
+    const pq = new ConcurrentTypedPriorityQueue(Uint32Array, 4);
+    const attached = ConcurrentTypedPriorityQueue.attach(pq.buffer);
+    pq.enqueue(1, 3);
+    attached.enqueue(2, 1);
+    pq.enqueue(3, 2);
+
+    expect(attached).toBeInstanceOf(ConcurrentTypedPriorityQueue);
+    expect(attached.count).toBe(3);
+    expect(attached.dequeue()).toBe(2);
+    expect(pq.peek()).toBe(3);
+    expect(pq.toArray()).toEqual([3, 1]);
+  });
+
+  it("should allow nested operations while holding the lock", () => {
+    const pq = new ConcurrentTypedPriorityQueue<IPriorityNode<bigint, bigint>>(BigInt64Array, 4);
+    const now = 10n;
+    pq.withLock((q) => {
+      q.enqueue(1n, 5n);
+      q.enqueue(2n, 20n);
+    });
+
+    expect(pq.withLock((q) => (q.priorityAt(0) <= now ? q.dequeue() : undefined))).toBe(1n);
+    expect(pq.withLock((q) => (q.priorityAt(0) <= now ? q.dequeue() : undefined))).toBeUndefined();
+    expect(new Int32Array(pq.buffer)[SHARED_HEADER.LOCK]).toBe(0);
+    expect(() => pq.withLock(() => { throw new Error("failed"); })).toThrow("failed");
+    expect(new Int32Array(pq.buffer)[SHARED_HEADER.LOCK]).toBe(0);
+  });
+
+  it("should clone into a new shared buffer", () => {
+    const pq = ConcurrentTypedPriorityQueue.from([1, 2, 3], [3, 2, 1], Int8Array, 3);
+    const clone = pq.clone();
+
+    expect(clone).toBeInstanceOf(ConcurrentTypedPriorityQueue);
+    expect(clone.buffer).not.toBe(pq.buffer);
+    pq.clear();
+    expect(clone.toArray()).toEqual([3, 2, 1]);
+    expect(pq.meld(clone).toArray()).toEqual([3, 2, 1]);
+    expect(pq.meld(ConcurrentTypedPriorityQueue.attach(pq.buffer)).count).toBe(3);
+    expect(ConcurrentTypedPriorityQueue.fromJSON(JSON.stringify(pq)).buffer).toBeInstanceOf(SharedArrayBuffer);
+  });
+
+  it("should copy a transferred queue into a shared buffer", () => {
+    const source = TypedPriorityQueue.from([1, 2, 3], [3, 2, 1], Int16Array, 3);
+    const pq = ConcurrentTypedPriorityQueue.fromTransferable(source.toTransferable().descriptor);
+
+    expect(pq.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(ConcurrentTypedPriorityQueue.attach(pq.buffer).toArray()).toEqual([3, 2, 1]);
+    expect(() => pq.toTransferable()).toThrow("[pq-ts] A queue in a shared buffer cannot be transferred; use attach instead.");
+  });
+
+  it("should open a queue created by a typed priority queue", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Float64Array, 2));
+    new TypedPriorityQueue(Float64Array, 2, undefined, { buffer }).enqueue(1.5, 1);
+
+    const pq = ConcurrentTypedPriorityQueue.attach(buffer);
+    expect(pq.enqueue(2.5, 0)).toBe(true);
+    expect(pq.enqueue(3.5, 0)).toBe(false);
+    expect(pq.toArray()).toEqual([2.5, 1.5]);
+  });
+
+  it("should wait for a lock held by another thread", async () => {
+    const pq = new ConcurrentTypedPriorityQueue(Int32Array, 4);
+    pq.enqueue(5, 2);
+    const worker = new Worker(
+      `
+      const { parentPort, workerData } = require("node:worker_threads");
+      const header = new Int32Array(workerData, 0, ${SHARED_HEADER.LENGTH});
+      Atomics.store(header, ${SHARED_HEADER.LOCK}, 1);
+      parentPort.postMessage("locked");
+      Atomics.wait(header, ${SHARED_HEADER.LOCK}, 1, 100);
+      header[${SHARED_HEADER.SIZE}] = 0;
+      Atomics.store(header, ${SHARED_HEADER.LOCK}, 0);
+      Atomics.notify(header, ${SHARED_HEADER.LOCK}, 1);
+      `,
+      { eval: true, workerData: pq.buffer }
+    );
+    await new Promise((resolve) => worker.once("message", resolve));
+
+    // The worker empties the queue before it releases the lock, so the enqueue must come after it.
+    pq.enqueue(7, 1);
+    expect(pq.toArray()).toEqual([7]);
+    await worker.terminate();
+  });
+});
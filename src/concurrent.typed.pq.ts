@@ -0,0 +1,170 @@
+import type { IComparer, IEqualityComparator, IPriorityNode, IQueueJSON, ITypedPriorityQueueOptions, ITypedTransferable, TypedBackend, TypedValue } from "./types.ts";
+import { SHARED_HEADER } from "./primitive.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+
+/**
+ * A typed priority queue in a `SharedArrayBuffer` that several threads can change at once.
+ * Each operation holds a lock in the header of the buffer, so `worker_threads` can enqueue and dequeue
+ * the same heap. Create the queue in one thread, send its `buffer` to the others, and open it there with `attach`.
+ *
+ * @remarks
+ * Waiting for the lock uses `Atomics.wait`, which browsers do not allow on the main thread.
+ * Iterating the queue does not hold the lock; use `toArray` or `withLock` for a consistent view.
+ */
+export class ConcurrentTypedPriorityQueue<
+  Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+> extends TypedPriorityQueue<Node, Comparer> {
+  /** The number of nested operations of this thread that hold the lock */
+  protected _depth = 0;
+
+  /**
+   * Creates a new instance of a concurrent priority queue in a shared buffer.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
+   * @param size - The number of elements the queue can hold.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue. A buffer is allocated when none is given.
+   */
+  constructor(backend: TypedBackend, size: number, comparer?: Comparer, options?: ITypedPriorityQueueOptions) {
+    super(backend, size, comparer, {
+      ...options,
+      buffer: options?.buffer ?? new SharedArrayBuffer(TypedPriorityQueue.byteLength(backend, size))
+    });
+  }
+
+  /**
+   * The shared buffer that stores the queue.
+   * @readonly
+   */
+  override get buffer(): SharedArrayBuffer {
+    return this._buffer as SharedArrayBuffer;
+  }
+
+  override get count(): number {
+    return Atomics.load(this._header, SHARED_HEADER.SIZE);
+  }
+
+  override get values(): Node["value"][] {
+    return this.withLock(() => super.values);
+  }
+
+  override get heap(): Node[] {
+    return this.withLock(() => super.heap);
+  }
+
+  /**
+   * Runs an action while holding the lock, so that several operations happen without other threads
+   * changing the queue in between. Operations of the queue can be called from the action.
+   * @param action - The action to run.
+   * @returns - The result of the action.
+   *
+   * @example
+   * ```typescript
+   * // Dequeue the next event only if it is due
+   * const event = queue.withLock((q) => q.priorityAt(0) <= now ? q.dequeue() : undefined);
+   * ```
+   */
+  withLock<R>(action: (queue: this) => R): R {
+    if (this._depth++ === 0) {
+      while (Atomics.compareExchange(this._header, SHARED_HEADER.LOCK, 0, 1) !== 0) {
+        Atomics.wait(this._header, SHARED_HEADER.LOCK, 1);
+      }
+    }
+    try {
+      return action(this);
+    } finally {
+      if (--this._depth === 0) {
+        Atomics.store(this._header, SHARED_HEADER.LOCK, 0);
+        Atomics.notify(this._header, SHARED_HEADER.LOCK, 1);
+      }
+    }
+  }
+
+  override enqueue(value: Node["value"], priority: Node["priority"]): boolean {
+    return this.withLock(() => super.enqueue(value, priority));
+  }
+
+  override dequeue(): Node["value"] | undefined {
+    return this.withLock(() => super.dequeue());
+  }
+
+  override pop(): Node | undefined {
+    return this.withLock(() => super.pop());
+  }
+
+  override peek(): Node["value"] | undefined {
+    return this.withLock(() => super.peek());
+  }
+
+  override enqueueDequeue(value: Node["value"], priority: Node["priority"]): Node["value"] | undefined {
+    return this.withLock(() => super.enqueueDequeue(value, priority));
+  }
+
+  override dequeueEnqueue(value: Node["value"], priority: Node["priority"]): Node["value"] | undefined {
+    return this.withLock(() => super.dequeueEnqueue(value, priority));
+  }
+
+  override remove(value: Node["value"], comparer?: IEqualityComparator<Node["value"]>): boolean {
+    return this.withLock(() => super.remove(value, comparer));
+  }
+
+  override indexOf(value: Node["value"], dequeue?: boolean, comparer?: IEqualityComparator<Node["value"]>): number {
+    return this.withLock(() => super.indexOf(value, dequeue, comparer));
+  }
+
+  override priorityAt(index: number, dequeue?: boolean): Node["priority"] | number {
+    return this.withLock(() => super.priorityAt(index, dequeue));
+  }
+
+  override toArray(): Node["value"][] {
+    return this.withLock(() => super.toArray());
+  }
+
+  override clear(): void {
+    this.withLock(() => super.clear());
+  }
+
+  override toJSON(): IQueueJSON<number | string, number | string> {
+    return this.withLock(() => super.toJSON());
+  }
+
+  override toBuffer(): Uint8Array {
+    return this.withLock(() => super.toBuffer());
+  }
+
+  /**
+   * Moves all elements of another typed queue into this queue and leaves the other queue empty.
+   * Only this queue is locked, so the other queue must not be changed by other threads meanwhile.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  override meld(other: TypedPriorityQueue<Node, Comparer>): this {
+    if (other.buffer === this.buffer) return this;
+    return this.withLock(() => super.meld(other));
+  }
+
+  /**
+   * Creates a copy of the queue in a new shared buffer.
+   * @returns - A concurrent queue with the elements of the queue.
+   */
+  override clone(): this {
+    return this.withLock(() => {
+      const clone = new ConcurrentTypedPriorityQueue<Node, Comparer>(
+        this.backends, this._elements.length, this.compare, { arity: this.arity }
+      );
+      clone._elements.set(this._elements);
+      clone._priorities.set(this._priorities);
+      clone._size = this._size;
+      return clone as this;
+    });
+  }
+
+  /**
+   * Returns the size of the shared buffer for a queue that copies transferred storage into it.
+   * @param descriptor - The description of the queue.
+   * @returns - The number of elements the new queue can hold.
+   */
+  protected static override adoptionSize(descriptor: ITypedTransferable): number {
+    return Math.max(descriptor.initialSize, descriptor.count, 1);
+  }
+}
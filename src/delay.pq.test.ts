@@ -0,0 +1,140 @@
+import { expect, describe, it } from "vitest";
+import { DelayQueue } from "./delay.pq.ts";
+import type { ITimerClock } from "./types.ts";
+
+/**
+ * A clock whose time only moves when `advance` is called.
+ */
+class VirtualClock implements ITimerClock {
+  time = 0;
+  timers: { at: number; callback: () => void }[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): unknown {
+    const timer = { at: this.time + delay, callback };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer !== handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const end = this.time + ms;
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const due = this.timers.filter((timer) => timer.at <= end).sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers.splice(this.timers.indexOf(due), 1);
+      this.time = due.at;
+      due.callback();
+    }
+    this.time = end;
+  }
+}
+
+describe("DelayQueue", () => {
+  it("should only return elements whose time has passed", async () => {
+    const clock = new VirtualClock();
+    const queue = new DelayQueue<string>({ clock });
+    queue.enqueue("later", 200);
+    queue.enqueue("soon", 100);
+    queue.enqueue("also soon", 100);
+
+    expect(queue.count).toBe(3);
+    expect(queue.nextAvailableAt()).toBe(100);
+    expect(queue.peek()).toBeUndefined();
+    expect(queue.dequeue()).toBeUndefined();
+
+    await clock.advance(100);
+    expect(queue.peek()).toBe("soon");
+    expect(queue.dequeue()).toBe("soon");
+    expect(queue.dequeue()).toBe("also soon");
+    expect(queue.dequeue()).toBeUndefined();
+    expect(queue.toArray()).toEqual(["later"]);
+    expect(clock.timers).toHaveLength(0);
+  });
+
+  it("should wake consumers in take when elements become due", async () => {
+    const clock = new VirtualClock();
+    const queue = new DelayQueue<string>({ clock });
+    const received: string[] = [];
+    queue.take().then((value) => received.push(value));
+    queue.take().then((value) => received.push(value));
+
+    queue.enqueue("b", 300);
+    await clock.advance(100);
+    queue.enqueue("a", 200);
+    expect(clock.timers).toHaveLength(1);
+
+    await clock.advance(100);
+    expect(received).toEqual(["a"]);
+    await clock.advance(100);
+    expect(received).toEqual(["a", "b"]);
+    expect(queue.waiting).toBe(0);
+    expect(clock.timers).toHaveLength(0);
+  });
+
+  it("should return a due element from take without waiting", async () => {
+    const clock = new VirtualClock();
+    clock.time = 50;
+    const queue = new DelayQueue<number>({ clock });
+    queue.enqueue(1, 0);
+
+    expect(await queue.take()).toBe(1);
+    expect(queue.isEmpty()).toBe(true);
+  });
+
+  it("should stop waiting in take when the signal is aborted or the timeout passes", async () => {
+    const clock = new VirtualClock();
+    const queue = new DelayQueue<number>({ clock });
+    queue.enqueue(1, 1000);
+    const controller = new AbortController();
+    const aborted = queue.take({ signal: controller.signal });
+    const timedOut = queue.take({ timeout: 100 });
+    const assertion = expect(timedOut).rejects.toThrow("[pq-ts] Timed out waiting for an element.");
+
+    controller.abort(new Error("stop"));
+    await expect(aborted).rejects.toThrow("stop");
+    await clock.advance(100);
+    await assertion;
+    expect(queue.waiting).toBe(0);
+    expect(queue.count).toBe(1);
+    expect(clock.timers).toHaveLength(0);
+  });
+
+  it("should wait for elements further away than the longest timer delay", async () => {
+    const clock = new VirtualClock();
+    const queue = new DelayQueue<string>({ clock });
+    const maxDelay = 2 ** 31 - 1;
+    queue.enqueue("far", maxDelay * 2 + 10);
+    let taken: string | undefined;
+    queue.take().then((value) => { taken = value; });
+
+    expect(clock.timers).toHaveLength(1);
+    expect(clock.timers[0].at).toBe(maxDelay);
+    await clock.advance(maxDelay);
+    expect(taken).toBeUndefined();
+    expect(clock.timers).toHaveLength(1);
+    expect(clock.timers[0].at).toBe(maxDelay * 2);
+
+    await clock.advance(maxDelay);
+    expect(taken).toBeUndefined();
+    expect(clock.timers[0].at).toBe(maxDelay * 2 + 10);
+    await clock.advance(10);
+    expect(taken).toBe("far");
+    expect(clock.timers).toHaveLength(0);
+  });
+
+  it("should reject times that are not numbers", () => {
+    const queue = new DelayQueue<number>();
+    expect(queue.enqueue(1, "soon" as unknown as number)).toBe(false);
+    queue.enqueue(2, 0);
+    queue.clear();
+    expect(queue.isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,218 @@
+import type { IAsyncDequeueOptions, IDelayQueueOptions, ITimerClock } from "./types.ts";
+import { StablePriorityQueue } from "./stable.pq.ts";
+import { systemClock } from "./clock.ts";
+
+/**
+ * The longest delay timers accept. Longer delays fire at once in Node and browsers, so the timer is set again instead.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * A consumer waiting in `take` for an element of a delay queue.
+ */
+interface ITaker<T> {
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * A queue of elements that become available at a scheduled time.
+ * The elements are ordered by the time they become available, and elements with the same time
+ * in the order they were added. `dequeue` and `peek` only return elements whose time has passed,
+ * and `take` waits until the next element is due.
+ *
+ * @example
+ * ```typescript
+ * const reminders = new DelayQueue<string>();
+ * reminders.enqueue("stand up", Date.now() + 60_000);
+ *
+ * const reminder = await reminders.take();
+ * ```
+ */
+export class DelayQueue<T> {
+  /**
+   * The elements, with the times they become available as priorities.
+   * @protected
+   */
+  protected _queue = new StablePriorityQueue<T>();
+  /**
+   * The clock that tells when elements become available.
+   * @protected
+   */
+  protected _clock: ITimerClock;
+  /**
+   * The consumers waiting in `take`, in the order they started waiting.
+   * @protected
+   */
+  protected _takers: ITaker<T>[] = [];
+  /**
+   * The timer that wakes the waiting consumers, or undefined if none is set.
+   * @protected
+   */
+  protected _timer?: unknown;
+  /**
+   * The time the timer is set for.
+   * @protected
+   */
+  protected _timerAt = Number.POSITIVE_INFINITY;
+
+  /**
+   * Creates a new instance of a delay queue.
+   * @param options - The options for the queue.
+   */
+  constructor(options?: IDelayQueueOptions) {
+    this._clock = options?.clock ?? systemClock;
+  }
+
+  /**
+   * The number of elements in the queue, including elements that are not available yet.
+   * @readonly
+   */
+  get count(): number {
+    return this._queue.count;
+  }
+
+  /**
+   * The number of consumers waiting in `take`.
+   * @readonly
+   */
+  get waiting(): number {
+    return this._takers.length;
+  }
+
+  /**
+   * Adds an element that becomes available at a time.
+   * @param value - The value to add.
+   * @param availableAt - The time in milliseconds, as read from the clock, when the element becomes available.
+   * @returns - True if the element was added, false if the time is not a number.
+   */
+  enqueue(value: T, availableAt: number): boolean {
+    if (!this._queue.enqueue(value, availableAt)) return false;
+    this.wake();
+    return true;
+  }
+
+  /**
+   * Removes and returns the next element if it is available.
+   * @returns - The next available element, or undefined if no element is available.
+   */
+  dequeue(): T | undefined {
+    return this.isDue() ? this._queue.dequeue() : undefined;
+  }
+
+  /**
+   * Returns the next element without removing it if it is available.
+   * @returns - The next available element, or undefined if no element is available.
+   */
+  peek(): T | undefined {
+    return this.isDue() ? this._queue.peek() : undefined;
+  }
+
+  /**
+   * Returns the time the next element becomes available.
+   * @returns - The time in milliseconds, or undefined if the queue is empty.
+   */
+  nextAvailableAt(): number | undefined {
+    return this._queue.isEmpty() ? undefined : this._queue.priorityAt(0);
+  }
+
+  /**
+   * Removes and returns the next element, waiting until one is available.
+   * Waiting consumers are served in the order they called `take`.
+   * @param options - (Optional) A signal and a timeout that stop waiting.
+   * @returns - A promise of the next available element.
+   * @throws - If the signal is aborted or the timeout passes.
+   */
+  take(options?: IAsyncDequeueOptions): Promise<T> {
+    if (this._takers.length === 0 && this.isDue()) return Promise.resolve(this._queue.dequeue() as T);
+    const signal = options?.signal;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<T>((resolve, reject) => {
+      let timeout: unknown;
+      const settle = () => {
+        if (timeout !== undefined) this._clock.clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const cancel = (reason: unknown) => {
+        const index = this._takers.indexOf(taker);
+        if (index >= 0) this._takers.splice(index, 1);
+        settle();
+        this.wake();
+        reject(reason);
+      };
+      const onAbort = () => cancel(signal?.reason);
+      const taker: ITaker<T> = {
+        resolve: (value) => { settle(); resolve(value); },
+        reject: (reason) => { settle(); reject(reason); }
+      };
+
+      this._takers.push(taker);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (options?.timeout !== undefined) {
+        timeout = this._clock.setTimeout(() => cancel(new Error("[pq-ts] Timed out waiting for an element.")), options.timeout);
+      }
+      this.wake();
+    });
+  }
+
+  /**
+   * Returns true if the queue is empty, false otherwise. Elements that are not available yet count.
+   * @returns - True if the queue is empty, false otherwise.
+   */
+  isEmpty(): boolean {
+    return this._queue.isEmpty();
+  }
+
+  /**
+   * Removes all elements from the queue. Consumers waiting in `take` keep waiting.
+   */
+  clear(): void {
+    this._queue.clear();
+    this.wake();
+  }
+
+  /**
+   * Returns the elements in the order they become available.
+   * @returns - An array of elements in the queue.
+   */
+  toArray(): T[] {
+    return this._queue.toArray();
+  }
+
+  /**
+   * Determines whether the next element is available.
+   * @returns - True if the queue has an element whose time has passed, false otherwise.
+   * @protected
+   */
+  protected isDue(): boolean {
+    return !this._queue.isEmpty() && (this._queue.priorityAt(0) as number) <= this._clock.now();
+  }
+
+  /**
+   * Hands the available elements to the waiting consumers and sets the timer for the next element.
+   * The timer is only set while consumers are waiting, and is set again when the next element is further away
+   * than the longest delay timers accept.
+   * @protected
+   */
+  protected wake(): void {
+    while (this._takers.length > 0 && this.isDue()) {
+      this._takers.shift()?.resolve(this._queue.dequeue() as T);
+    }
+
+    const at = this._takers.length > 0 ? this.nextAvailableAt() ?? Number.POSITIVE_INFINITY : Number.POSITIVE_INFINITY;
+    if (at === this._timerAt) return;
+    if (this._timer !== undefined) {
+      this._clock.clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    this._timerAt = at;
+    if (at !== Number.POSITIVE_INFINITY) {
+      this._timer = this._clock.setTimeout(() => {
+        this._timer = undefined;
+        this._timerAt = Number.POSITIVE_INFINITY;
+        this.wake();
+      }, Math.min(at - this._clock.now(), MAX_TIMER_DELAY));
+    }
+  }
+}
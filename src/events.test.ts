@@ -0,0 +1,46 @@
+import { expect, describe, it } from "vitest";
+import { QueueEmitter } from "./events.ts";
+
+describe("QueueEmitter", () => {
+  it("should call the listeners of an event in order", () => {
+    const emitter = new QueueEmitter<string>();
+    const calls: string[] = [];
+    emitter.on("enqueue", ({ value }) => calls.push(`first ${value}`));
+    emitter.on("enqueue", ({ value }) => calls.push(`second ${value}`));
+    emitter.on("clear", ({ count }) => calls.push(`clear ${count}`));
+
+    emitter.emit("enqueue", { value: "a", priority: 1, index: 0 });
+    emitter.emit("dequeue", { value: "a", priority: 1, index: 0 });
+    expect(calls).toEqual(["first a", "second a"]);
+    expect(emitter.count).toBe(3);
+  });
+
+  it("should remove listeners", () => {
+    const emitter = new QueueEmitter<string>();
+    const calls: number[] = [];
+    const listener = ({ capacity }: { capacity: number }) => calls.push(capacity);
+    emitter.on("grow", listener);
+
+    expect(emitter.off("grow", listener)).toBe(true);
+    expect(emitter.off("grow", listener)).toBe(false);
+    expect(emitter.off("clear", () => {})).toBe(false);
+    emitter.emit("grow", { capacity: 8 });
+    expect(calls).toEqual([]);
+    expect(emitter.count).toBe(0);
+  });
+
+  it("should apply changes made during an emit from the next event", () => {
+    const emitter = new QueueEmitter<string>();
+    const calls: string[] = [];
+    const once = () => {
+      calls.push("once");
+      emitter.off("remove", once);
+    };
+    emitter.on("remove", once);
+    emitter.on("remove", () => calls.push("always"));
+
+    emitter.emit("remove", { value: "a", priority: 1, index: 2 });
+    emitter.emit("remove", { value: "b", priority: 1, index: 2 });
+    expect(calls).toEqual(["once", "always", "always"]);
+  });
+});
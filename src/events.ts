@@ -0,0 +1,61 @@
+import type { IQueueEventMap, IQueueListener, QueueEventType } from "./types.ts";
+
+/**
+ * The listeners of a queue, grouped by event.
+ * Queues create an emitter when the first listener is added and drop it when the last one is removed,
+ * so that a queue without listeners only checks for a missing emitter.
+ */
+export class QueueEmitter<T, P = number> {
+  protected readonly _listeners: {
+    [K in QueueEventType]?: IQueueListener<IQueueEventMap<T, P>[K]>[];
+  } = {};
+  protected _count = 0;
+
+  /**
+   * The number of listeners of all events.
+   * @readonly
+   */
+  get count(): number {
+    return this._count;
+  }
+
+  /**
+   * Adds a listener for an event.
+   * @param type - The name of the event.
+   * @param listener - The function to call when the event is emitted.
+   */
+  on<K extends QueueEventType>(type: K, listener: IQueueListener<IQueueEventMap<T, P>[K]>): void {
+    const listeners = (this._listeners[type] ??= []) as IQueueListener<IQueueEventMap<T, P>[K]>[];
+    listeners.push(listener);
+    this._count++;
+  }
+
+  /**
+   * Removes a listener for an event.
+   * @param type - The name of the event.
+   * @param listener - The function that was added with `on`.
+   * @returns - True if the listener was removed, false if it was not listening to the event.
+   */
+  off<K extends QueueEventType>(type: K, listener: IQueueListener<IQueueEventMap<T, P>[K]>): boolean {
+    const listeners = this._listeners[type] as IQueueListener<IQueueEventMap<T, P>[K]>[] | undefined;
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index < 0) return false;
+    listeners?.splice(index, 1);
+    this._count--;
+    return true;
+  }
+
+  /**
+   * Calls the listeners of an event in the order they were added.
+   * Listeners added or removed while the event is emitted take effect from the next event.
+   * @param type - The name of the event.
+   * @param event - The data of the event.
+   */
+  emit<K extends QueueEventType>(type: K, event: IQueueEventMap<T, P>[K]): void {
+    const listeners = this._listeners[type] as IQueueListener<IQueueEventMap<T, P>[K]>[] | undefined;
+    if (!listeners?.length) return;
+    for (const listener of listeners.slice()) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { expect, describe, it } from "vitest";
+import type { IExpiredElement } from "./types.ts";
+import { ExpiringPriorityQueue } from "./expiring.pq.ts";
+
+const createClock = () => ({ time: 0, now() { return this.time; } });
+
+describe("ExpiringPriorityQueue", () => {
+  it("should throw if the time to live is not a non-negative number", () => {
+    expect(() => new ExpiringPriorityQueue<number>(undefined, { ttl: -1 })).toThrow();
+    expect(() => new ExpiringPriorityQueue<number>(undefined, { ttl: Number.NaN })).toThrow();
+  });
+
+  it("should keep elements without an expiry time", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 2);
+    pq.enqueue("b", 1);
+    clock.time = 1e9;
+
+    expect(pq.count).toBe(2);
+    expect(pq.toArray()).toEqual(["b", "a"]);
+  });
+
+  it("should skip expired elements on dequeue and peek", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 1, 10);
+    pq.enqueue("b", 2, 20);
+    pq.enqueue("c", 3);
+
+    expect(pq.peek()).toBe("a");
+    clock.time = 10;
+    expect(pq.peek()).toBe("b");
+    clock.time = 25;
+    expect(pq.dequeue()).toBe("c");
+    expect(pq.dequeue()).toBeUndefined();
+    expect(pq.isEmpty()).toBe(true);
+  });
+
+  it("should exclude expired elements from count, values and iteration", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 3, 5);
+    pq.enqueue("b", 1, 15);
+    pq.enqueue("c", 2);
+    clock.time = 5;
+
+    expect(pq.count).toBe(2);
+    expect(pq.values.sort()).toEqual(["b", "c"]);
+    expect([...pq]).toEqual(["b", "c"]);
+    expect(pq.toArray()).toEqual(["b", "c"]);
+  });
+
+  it("should exclude expired elements from lookups by index and value", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 1, 10);
+    pq.enqueue("b", 2);
+    pq.enqueue("c", 3, 10);
+    clock.time = 20;
+
+    expect(pq.priorityAt(0)).toBe(2);
+    expect(pq.priorityAt(0, true)).toBe(2);
+    expect(pq.priorityAt(1)).toBe(Number.MAX_VALUE);
+    expect(pq.indexOf("a")).toBe(-1);
+    expect(pq.indexOf("b")).toBe(0);
+    expect(pq.heap.slice(0, 1).map((node) => node.value)).toEqual(["b"]);
+    expect(pq.remove("c")).toBe(false);
+    expect(pq.count).toBe(1);
+  });
+
+  it("should expire elements after the default time to live", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock, ttl: 100 });
+    pq.enqueue("a", 1);
+    clock.time = 50;
+    const b = pq.enqueueWithHandle("b", 2);
+    pq.enqueue("c", 3, Number.POSITIVE_INFINITY);
+
+    expect(pq.expiryOf(b as NonNullable<typeof b>)).toBe(150);
+    clock.time = 100;
+    expect(pq.toArray()).toEqual(["b", "c"]);
+    clock.time = 150;
+    expect(pq.toArray()).toEqual(["c"]);
+  });
+
+  it("should apply the default time to live to ranges", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock, ttl: 10 });
+    expect(pq.enqueueRange([["a", 2], ["b", 1]])).toBe(2);
+    expect(pq.count).toBe(2);
+    clock.time = 10;
+    expect(pq.count).toBe(0);
+  });
+
+  it("should return purged elements in expiry order and report them", () => {
+    const clock = createClock();
+    const expired: IExpiredElement<string>[] = [];
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock, onExpire: (element) => expired.push(element) });
+    pq.enqueue("a", 1, 30);
+    pq.enqueue("b", 2, 10);
+    pq.enqueue("c", 3, 20);
+    pq.enqueue("d", 4, 40);
+
+    expect(pq.purgeExpired()).toEqual([]);
+    clock.time = 30;
+    expect(pq.purgeExpired()).toEqual(["b", "c", "a"]);
+    expect(expired).toEqual([
+      { value: "b", priority: 2, expiresAt: 10 },
+      { value: "c", priority: 3, expiresAt: 20 },
+      { value: "a", priority: 1, expiresAt: 30 },
+    ]);
+    expect(pq.purgeExpired()).toEqual([]);
+    expect(pq.toArray()).toEqual(["d"]);
+  });
+
+  it("should not report elements that left the queue before they expired", () => {
+    const clock = createClock();
+    const expired: string[] = [];
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock, onExpire: ({ value }) => expired.push(value) });
+    pq.enqueue("a", 1, 10);
+    const b = pq.enqueueWithHandle("b", 2, 10) as NonNullable<ReturnType<typeof pq.enqueueWithHandle>>;
+    pq.enqueue("c", 3, 10);
+    pq.enqueue("d", 4, 10);
+
+    expect(pq.dequeue()).toBe("a");
+    expect(pq.removeHandle(b)).toBe(true);
+    expect(pq.remove("c")).toBe(true);
+    expect(pq.expiryOf(b)).toBeUndefined();
+    clock.time = 10;
+    expect(pq.purgeExpired()).toEqual(["d"]);
+    expect(expired).toEqual(["d"]);
+  });
+
+  it("should keep expiry times when priorities change", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    const a = pq.enqueueWithHandle("a", 5, 10) as NonNullable<ReturnType<typeof pq.enqueueWithHandle>>;
+    pq.enqueue("b", 3);
+
+    expect(pq.updatePriority(a, 1)).toBe(true);
+    expect(pq.peek()).toBe("a");
+    clock.time = 10;
+    expect(pq.peek()).toBe("b");
+  });
+
+  it("should keep elements with equal priorities in insertion order", () => {
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock: createClock() });
+    pq.enqueue("a", 1, 10);
+    pq.enqueue("b", 1);
+    pq.enqueue("c", 1, 5);
+
+    expect(pq.toArray()).toEqual(["a", "b", "c"]);
+  });
+
+  it("should track the elements added by enqueueDequeue and dequeueEnqueue", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock, ttl: 10 });
+    pq.enqueue("a", 1);
+    expect(pq.enqueueDequeue("b", 0)).toBe("b");
+    expect(pq.enqueueDequeue("c", 2)).toBe("a");
+    expect(pq.dequeueEnqueue("d", 3)).toBe("c");
+    expect(pq.count).toBe(1);
+    clock.time = 10;
+    expect(pq.purgeExpired()).toEqual(["d"]);
+  });
+
+  it("should keep expiry times when melding another expiring queue", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    const other = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 1, 20);
+    other.enqueue("b", 2, 10);
+    other.enqueue("c", 3);
+
+    pq.meld(other);
+    expect(other.count).toBe(0);
+    expect(pq.toArray()).toEqual(["a", "b", "c"]);
+    clock.time = 10;
+    expect(pq.toArray()).toEqual(["a", "c"]);
+    clock.time = 20;
+    expect(pq.toArray()).toEqual(["c"]);
+  });
+
+  it("should purge expired elements of the other queue before melding it", () => {
+    const clock = createClock();
+    const expired: string[] = [];
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    const other = new ExpiringPriorityQueue<string>(undefined, { clock, onExpire: ({ value }) => expired.push(value) });
+    other.enqueue("a", 1, 10);
+    other.enqueue("b", 2, 30);
+    clock.time = 20;
+
+    pq.meld(other);
+    expect(expired).toEqual(["a"]);
+    expect(pq.toArray()).toEqual(["b"]);
+    expect(pq.purgeExpired()).toEqual([]);
+    clock.time = 30;
+    expect(pq.purgeExpired()).toEqual(["b"]);
+  });
+
+  it("should clone elements with their expiry times", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 1, 10);
+    pq.enqueue("b", 2);
+
+    const clone = pq.clone();
+    expect(clone).toBeInstanceOf(ExpiringPriorityQueue);
+    clock.time = 10;
+    expect(clone.toArray()).toEqual(["b"]);
+    expect(pq.toArray()).toEqual(["b"]);
+  });
+
+  it("should forget expiry times when cleared", () => {
+    const clock = createClock();
+    const expired: string[] = [];
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock, onExpire: ({ value }) => expired.push(value) });
+    pq.enqueue("a", 1, 10);
+    pq.clear();
+    pq.enqueue("b", 2);
+    clock.time = 10;
+
+    expect(pq.toArray()).toEqual(["b"]);
+    expect(expired).toEqual([]);
+  });
+
+  it("should omit expired elements from JSON", () => {
+    const clock = createClock();
+    const pq = new ExpiringPriorityQueue<string>(undefined, { clock });
+    pq.enqueue("a", 1, 10);
+    pq.enqueue("b", 2);
+    clock.time = 10;
+
+    expect(pq.toJSON().values).toEqual(["b"]);
+  });
+});
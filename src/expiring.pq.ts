@@ -0,0 +1,286 @@
+import type {
+  IClock,
+  IComparer,
+  IEqualityComparator,
+  IExpiredElement,
+  IExpiringPriorityQueueOptions,
+  IPriorityHandle,
+  IQueueCodecs,
+  IQueueJSON,
+  IStableNode
+} from "./types.ts";
+import { PriorityQueue } from "./pq.ts";
+import { StablePriorityQueue } from "./stable.pq.ts";
+import { systemClock } from "./clock.ts";
+
+/**
+ * A stable priority queue whose elements can carry an expiry time.
+ * Expired elements are purged before the queue is read, so they are never returned by `dequeue`, `peek`,
+ * `priorityAt` or `heap`, are not found by `indexOf` or `remove`, and are not part of `count`, `values` or iteration. Purged elements are passed to the `onExpire` option.
+ *
+ * @remarks
+ * The elements that can expire are kept in a second heap ordered by expiry time,
+ * so that purging k expired elements runs in O(k log n) without scanning the queue.
+ * Expiry times are not stored by `toJSON`.
+ *
+ * @example
+ * ```typescript
+ * const sessions = new ExpiringPriorityQueue<string>(undefined, { ttl: 30_000 });
+ * sessions.enqueue("alice", 1);
+ * sessions.enqueue("bob", 2, Date.now() + 5_000);
+ * ```
+ */
+export class ExpiringPriorityQueue<
+  T,
+  // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+  Node extends IStableNode<T, any> = IStableNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+  P = Node["priority"]
+> extends StablePriorityQueue<T, Node, Comparer, P> {
+  /**
+   * The clock that tells when elements expire.
+   */
+  readonly clock: IClock;
+  /**
+   * The time to live of elements that are added without an expiry time.
+   */
+  readonly ttl: number;
+  /**
+   * The function called with each purged element.
+   * @protected
+   */
+  protected _onExpire?: (element: IExpiredElement<T, P>) => void;
+  /**
+   * The nodes that can expire, with their expiry times as priorities.
+   * @protected
+   */
+  protected _expiries = new PriorityQueue<Node>();
+  /**
+   * The handles of the nodes in `_expiries`, keyed by node.
+   * @protected
+   */
+  protected _expiryHandles = new Map<Node, IPriorityHandle<Node>>();
+
+  /**
+   * Creates a new instance of an expiring priority queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   */
+  constructor(comparer?: Comparer, options?: IExpiringPriorityQueueOptions<T, P>) {
+    super(comparer as Comparer, options);
+    if (options?.ttl !== undefined && !(options.ttl >= 0)) {
+      throw new Error(`[pq-ts] The time to live must be a non-negative number, but got ${options.ttl}.`);
+    }
+    this.clock = options?.clock ?? systemClock;
+    this.ttl = options?.ttl ?? Number.POSITIVE_INFINITY;
+    this._onExpire = options?.onExpire;
+  }
+
+  /**
+   * Adds an element to the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @param expiresAt - (Optional) The time the element expires at. Defaults to `ttl` from now; `Infinity` never expires.
+   * @returns - True if the element was added, false otherwise.
+   */
+  override enqueue(value: T, priority: P, expiresAt?: number): boolean {
+    return this.enqueueWithHandle(value, priority, expiresAt) !== undefined;
+  }
+
+  /**
+   * Adds an element to the queue and returns a handle to it.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @param expiresAt - (Optional) The time the element expires at. Defaults to `ttl` from now; `Infinity` never expires.
+   * @returns - A handle to the element, or undefined if the element was not added.
+   */
+  override enqueueWithHandle(value: T, priority: P, expiresAt?: number): IPriorityHandle<T, Node> | undefined {
+    if (expiresAt !== undefined && Number.isNaN(expiresAt)) return undefined;
+    const node = super.enqueueWithHandle(value, priority) as Node | undefined;
+    if (node) this.track(node, expiresAt ?? this.clock.now() + this.ttl);
+    return node;
+  }
+
+  /**
+   * Adds value and priority pairs to the queue. The elements expire `ttl` from now.
+   * @param entries - The value and priority pairs to add.
+   * @returns - The number of elements that were added.
+   */
+  override enqueueRange(entries: Iterable<[T, P]>): number {
+    if (this.ttl === Number.POSITIVE_INFINITY) return super.enqueueRange(entries);
+    let added = 0;
+    for (const [value, priority] of entries) {
+      if (this.enqueue(value, priority)) added++;
+    }
+    return added;
+  }
+
+  /**
+   * Moves all elements of another queue into this queue and leaves the other queue empty.
+   * Elements of another expiring queue keep their expiry times; other elements never expire.
+   * Elements that already expired in the other queue are purged from it first and are not moved.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  override meld(other: StablePriorityQueue<T, Node, Comparer, P>): this {
+    if (other === this) return this;
+    let expiries: IPriorityHandle<Node>[] = [];
+    if (other instanceof ExpiringPriorityQueue) {
+      const expiring = other as ExpiringPriorityQueue<T, Node, Comparer, P>;
+      expiring.purgeExpired();
+      expiries = [...expiring._expiryHandles.values()];
+    }
+    super.meld(other);
+    for (const handle of expiries) {
+      this.track(handle.value, handle.priority);
+    }
+    return this;
+  }
+
+  override enqueueDequeue(value: T, priority: P): T | undefined {
+    if (!this.isPriority(priority)) return undefined;
+    if (this.isEmpty() || this.compare(this._elements[0], this.createNode(value, priority, -1)) >= 0) return value;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  override dequeueEnqueue(value: T, priority: P): T | undefined {
+    if (!this.isPriority(priority)) return undefined;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Returns the time the element referenced by a handle expires at.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns - The expiry time, `Infinity` if the element never expires,
+   * or undefined if the handle is no longer in the queue.
+   */
+  expiryOf(handle: IPriorityHandle<T, Node>): number | undefined {
+    if (!this.hasHandle(handle)) return undefined;
+    return this._expiryHandles.get(handle as Node)?.priority ?? Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * Removes every element whose expiry time has passed and passes each of them to `onExpire`.
+   * Runs in O(k log n) for k expired elements.
+   * @returns - The values of the removed elements, ordered by expiry time.
+   */
+  purgeExpired(): T[] {
+    const expired: T[] = [];
+    if (this._expiries.isEmpty()) return expired;
+    const now = this.clock.now();
+    while (!this._expiries.isEmpty() && (this._expiries.priorityAt(0) as number) <= now) {
+      const { value: node, priority: expiresAt } = this._expiries.pop() as IPriorityHandle<Node>;
+      this._expiryHandles.delete(node);
+      if (!this.removeHandle(node)) continue;
+      expired.push(node.value);
+      this._onExpire?.({ value: node.value, priority: node.priority, expiresAt });
+    }
+    return expired;
+  }
+
+  override isEmpty(): boolean {
+    this.purgeExpired();
+    return super.isEmpty();
+  }
+
+  override get count(): number {
+    this.purgeExpired();
+    return this._size;
+  }
+
+  override get values(): T[] {
+    this.purgeExpired();
+    return super.values;
+  }
+
+  override get heap(): Node[] {
+    this.purgeExpired();
+    return super.heap;
+  }
+
+  override remove(value: T, comparer?: IEqualityComparator<T>): boolean {
+    this.purgeExpired();
+    return super.remove(value, comparer);
+  }
+
+  override indexOf(value: T, dequeue?: boolean, comparer?: IEqualityComparator<T>): number {
+    this.purgeExpired();
+    return super.indexOf(value, dequeue, comparer);
+  }
+
+  override priorityAt(index: number, dequeue?: boolean): P | undefined {
+    this.purgeExpired();
+    return super.priorityAt(index, dequeue);
+  }
+
+  override orderedNodes(): Generator<Node, void, undefined> {
+    this.purgeExpired();
+    return super.orderedNodes();
+  }
+
+  override toJSON(codecs?: IQueueCodecs<T, P>): IQueueJSON {
+    this.purgeExpired();
+    return super.toJSON(codecs);
+  }
+
+  override clear(): void {
+    super.clear();
+    this._expiries.clear();
+    this._expiryHandles.clear();
+  }
+
+  override clone(): this {
+    const clone = new ExpiringPriorityQueue<T, Node, Comparer, P>(this.compare, {
+      arity: this.arity,
+      priorityComparer: this._priorityComparer,
+      clock: this.clock,
+      ttl: this.ttl,
+      onExpire: this._onExpire,
+    });
+    for (const node of this.orderedNodes()) {
+      clone.enqueue(node.value, node.priority, this.expiryOf(node));
+    }
+    return clone as this;
+  }
+
+  protected override removeRootNode(): void {
+    if (super.isEmpty()) return;
+    const root = this._elements[0];
+    super.removeRootNode();
+    this.untrack(root);
+  }
+
+  protected override removeAt(index: number): Node {
+    const node = super.removeAt(index);
+    this.untrack(node);
+    return node;
+  }
+
+  /**
+   * Records the expiry time of a node that entered the queue.
+   * @param node - The node that entered the queue.
+   * @param expiresAt - The time the node expires at. Nodes that never expire are not recorded.
+   * @protected
+   */
+  protected track(node: Node, expiresAt: number): void {
+    if (expiresAt === Number.POSITIVE_INFINITY) return;
+    this._expiryHandles.set(node, this._expiries.enqueueWithHandle(node, expiresAt) as IPriorityHandle<Node>);
+  }
+
+  /**
+   * Removes the expiry time of a node that left the queue.
+   * @param node - The node that left the queue.
+   * @protected
+   */
+  protected untrack(node: Node): void {
+    const handle = this._expiryHandles.get(node);
+    if (handle) {
+      this._expiries.removeHandle(handle);
+      this._expiryHandles.delete(node);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { expect, describe, it } from "vitest";
+import { IndexedTypedPriorityQueue } from "./indexed.typed.pq.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+
+describe("IndexedTypedPriorityQueue", () => {
+  it("should create an indexed priority queue from an array", () => {
+    const pq = IndexedTypedPriorityQueue.from([1, 2, 3], [5, 3, 4], Float64Array, 10);
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual([2, 3, 1]);
+  });
+
+  it("should create an indexed priority queue from an existing queue", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    const pq2 = IndexedTypedPriorityQueue.from(pq);
+    expect(pq2.contains(1)).toBe(true);
+    expect(pq2.priorityOf(2)).toBe(3);
+    expect(pq2.toArray()).toEqual([2, 1]);
+  });
+
+  it("should reject keys that are out of range or already present", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 4);
+    expect(pq.enqueue(4, 1)).toBe(false);
+    expect(pq.enqueue(-1, 1)).toBe(false);
+    expect(pq.enqueue(1.5, 1)).toBe(false);
+    expect(pq.enqueue(1, 1)).toBe(true);
+    expect(pq.enqueue(1, 2)).toBe(false);
+    expect(pq.count).toBe(1);
+  });
+
+  it("should track which keys are in the queue", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.contains(2)).toBe(true);
+    expect(pq.dequeue()).toBe(2);
+    expect(pq.contains(2)).toBe(false);
+    expect(pq.contains(9)).toBe(false);
+    expect(pq.contains(10)).toBe(false);
+  });
+
+  it("should keep positions in sync with the heap", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 20);
+    const priorities = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5, 95, 15, 85, 25];
+    for (let i = 0; i < priorities.length; i++) {
+      pq.enqueue(i, priorities[i]);
+    }
+    pq.dequeue();
+    pq.remove(4);
+    pq.changePriority(2, 1);
+
+    const heap = pq.heap;
+    for (let i = 0; i < pq.count; i++) {
+      expect(pq.indexOf(heap[i].value)).toBe(i);
+    }
+  });
+
+  it("should change the priority of a key", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.changePriority(1, 1)).toBe(true);
+    expect(pq.peek()).toBe(1);
+    expect(pq.priorityOf(1)).toBe(1);
+    expect(pq.changePriority(1, 10)).toBe(true);
+    expect(pq.toArray()).toEqual([2, 3, 1]);
+    expect(pq.changePriority(7, 1)).toBe(false);
+  });
+
+  it("should remove a key", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.remove(2)).toBe(true);
+    expect(pq.remove(2)).toBe(false);
+    expect(pq.priorityOf(2)).toBeUndefined();
+    expect(pq.toArray()).toEqual([3, 1]);
+    expect(pq.enqueue(2, 0)).toBe(true);
+    expect(pq.peek()).toBe(2);
+  });
+
+  it("should emit events when keys are added and removed", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    const events: unknown[] = [];
+    pq.on("enqueue", (event) => events.push(["enqueue", event]))
+      .on("dequeue", (event) => events.push(["dequeue", event]))
+      .on("remove", (event) => events.push(["remove", event]))
+      .on("clear", (event) => events.push(["clear", event]));
+
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+    pq.remove(3);
+    pq.remove(1, (a, b) => a === b);
+    pq.remove(3);
+    pq.dequeue();
+    pq.enqueue(4, 1);
+    pq.clear();
+
+    expect(events).toEqual([
+      ["enqueue", { value: 1, priority: 5, index: 0 }],
+      ["enqueue", { value: 2, priority: 3, index: 1 }],
+      ["enqueue", { value: 3, priority: 4, index: 2 }],
+      ["remove", { value: 3, priority: 4, index: 2 }],
+      ["remove", { value: 1, priority: 5, index: 1 }],
+      ["dequeue", { value: 2, priority: 3, index: 0 }],
+      ["enqueue", { value: 4, priority: 1, index: 0 }],
+      ["clear", { count: 1 }],
+    ]);
+  });
+
+  it("should clear the position map", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.clear();
+
+    expect(pq.contains(1)).toBe(false);
+    expect(pq.enqueue(1, 2)).toBe(true);
+  });
+
+  it("should clone the queue", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    const clone = pq.clone();
+    clone.remove(2);
+    expect(pq.contains(2)).toBe(true);
+    expect(clone.contains(2)).toBe(false);
+    expect(clone.contains(1)).toBe(true);
+  });
+
+  it("should maintain heap order under random updates", () => {
+    const keyCount = 200;
+    const pq = new IndexedTypedPriorityQueue(Float64Array, keyCount);
+    for (let i = 0; i < keyCount; i++) {
+      pq.enqueue(i, Math.random() * 1000);
+    }
+    for (let i = 0; i < 500; i++) {
+      const key = Math.floor(Math.random() * keyCount);
+      if (i % 5 === 0) {
+        pq.remove(key);
+      } else {
+        pq.changePriority(key, Math.random() * 1000);
+      }
+    }
+
+    let prev = pq.pop()!;
+    while (!pq.isEmpty()) {
+      const curr = pq.pop()!;
+      expect(curr.priority).toBeGreaterThanOrEqual(prev.priority);
+      expect(pq.contains(curr.value)).toBe(false);
+      prev = curr;
+    }
+  });
+  it("should keep positions in sync in enqueueDequeue and dequeueEnqueue", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    expect(pq.enqueueDequeue(3, 4)).toBe(2);
+    expect(pq.contains(2)).toBe(false);
+    expect(pq.contains(3)).toBe(true);
+    expect(pq.enqueueDequeue(3, 1)).toBeUndefined();
+
+    expect(pq.dequeueEnqueue(4, 6)).toBe(3);
+    expect(pq.contains(3)).toBe(false);
+    expect(pq.priorityOf(4)).toBe(6);
+    expect(pq.toArray()).toEqual([1, 4]);
+  });
+  it("should keep positions in sync with a configurable arity", () => {
+    const pq = new IndexedTypedPriorityQueue(Float64Array, 50, undefined, { arity: 2 });
+    for (let i = 0; i < 50; i++) {
+      pq.enqueue(i, Math.random());
+    }
+    pq.changePriority(25, -1);
+
+    expect(pq.peek()).toBe(25);
+    for (let i = 0; i < pq.count; i++) {
+      expect(pq.indexOf(pq.heap[i].value)).toBe(i);
+    }
+  });
+
+  it("should meld another queue and skip keys already in the queue", () => {
+    const pq = new IndexedTypedPriorityQueue(Int32Array, 5);
+    pq.enqueue(0, 5);
+    pq.enqueue(1, 3);
+    const other = new IndexedTypedPriorityQueue(Int32Array, 5);
+    other.enqueue(1, 0);
+    other.enqueue(2, 1);
+
+    pq.meld(other);
+    expect(other.count).toBe(0);
+    expect(pq.priorityOf(1)).toBe(3);
+    expect(pq.toArray()).toEqual([2, 1, 0]);
+  });
+
+  it("should restore key positions from JSON", () => {
+    const pq = IndexedTypedPriorityQueue.from([3, 1, 4], [2, 0, 1], Float64Array, 6);
+    const restored = IndexedTypedPriorityQueue.fromJSON(JSON.stringify(pq));
+
+    expect(restored.contains(4)).toBe(true);
+    expect(restored.changePriority(4, -1)).toBe(true);
+    expect(restored.toArray()).toEqual([4, 1, 3]);
+    expect(() => IndexedTypedPriorityQueue.fromJSON({ ...pq.toJSON(), values: [1, 1, 2] }))
+      .toThrow("[pq-ts] The JSON holds an invalid or duplicate key: 1.");
+  });
+
+  it("should restore key positions from a binary snapshot", () => {
+    const pq = IndexedTypedPriorityQueue.from([3, 1, 4], [2, 0, 1], Float64Array, 6);
+    const restored = IndexedTypedPriorityQueue.fromBuffer(pq.toBuffer());
+
+    expect(restored.contains(3)).toBe(true);
+    expect(restored.changePriority(3, -1)).toBe(true);
+    expect(restored.toArray()).toEqual([3, 1, 4]);
+  });
+
+  it("should restore key positions after a transfer", () => {
+    const pq = IndexedTypedPriorityQueue.from([3, 1, 4], [2, 0, 1], Float64Array, 6);
+    const moved = IndexedTypedPriorityQueue.fromTransferable(pq.toTransferable().descriptor);
+
+    expect(pq.contains(3)).toBe(false);
+    expect(moved.keyCount).toBe(6);
+    expect(moved.changePriority(3, -1)).toBe(true);
+    expect(moved.toArray()).toEqual([3, 1, 4]);
+  });
+
+  it("should not be stored in a shared buffer", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Int32Array, 2));
+    expect(() => new IndexedTypedPriorityQueue(Int32Array, 2, undefined, { buffer } as object)).toThrow(
+      "[pq-ts] An indexed typed queue cannot be stored in a shared buffer."
+    );
+    expect(() => TypedPriorityQueue.attach(buffer)).toThrow("[pq-ts] The shared buffer does not hold a queue.");
+  });
+});
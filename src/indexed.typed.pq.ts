@@ -0,0 +1,341 @@
+import type { IComparer, IEqualityComparator, IPriorityNode, IPriorityQueueOptions, IQueueJSON, ITypedPriorityQueueOptions, ITypedSnapshot, ITypedTransferable, TypedBackend } from "./types.ts";
+import { upWithPriorities, downWithPriorities, heapifyWithPriorities } from "./primitive.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+
+/**
+ * A priority queue backed by typed arrays whose values are integer keys in the range `[0, keyCount)`.
+ * A position map from key to heap index is kept in sync with the heap, so that
+ * `contains` runs in O(1) and `changePriority`, `remove` and `priorityOf` run in O(log n) or better.
+ *
+ * @remarks Each key can be in the queue at most once.
+ */
+export class IndexedTypedPriorityQueue<
+  Node extends IPriorityNode<number> = IPriorityNode<number>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+> extends TypedPriorityQueue<Node, Comparer> {
+  /**
+   * The heap index of each key, or -1 if the key is not in the queue.
+   */
+  protected _positions: Int32Array;
+
+  protected readonly _up = (node: Node, index: number) => {
+    return upWithPriorities(this._elements, this._priorities, undefined, this._positions, this._log2Arity)(
+      node, index, this.compare as Comparer
+    );
+  }
+
+  protected readonly _down = (node: Node, index: number) => {
+    return downWithPriorities(this._elements, this._priorities, this._size, undefined, this._positions, this._log2Arity)(
+      node,
+      index,
+      this.compare as Comparer
+    );
+  }
+
+  protected readonly _heapify = (size: number) => {
+    return heapifyWithPriorities(this._elements, this._priorities, size, undefined, this._positions, this._log2Arity)(
+      this.compare as Comparer
+    );
+  }
+
+  /**
+   * Creates a new instance of an indexed priority queue backed by a typed array.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
+   * @param keyCount - The number of keys. Keys must be integers in the range `[0, keyCount)`.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   * @throws - If the options hold a shared buffer, since the position map cannot be shared.
+   */
+  constructor(backend: TypedBackend, keyCount: number, comparer?: Comparer, options?: IPriorityQueueOptions) {
+    if ((options as ITypedPriorityQueueOptions | undefined)?.buffer) {
+      throw new Error("[pq-ts] An indexed typed queue cannot be stored in a shared buffer.");
+    }
+    super(backend, keyCount, comparer, options);
+    this._positions = new Int32Array(keyCount).fill(-1);
+  }
+
+  /**
+   * The number of keys the queue can hold.
+   * @readonly
+   */
+  get keyCount(): number {
+    return this._positions.length;
+  }
+
+  /**
+   * Determines whether a key is in the queue in O(1).
+   * @param key - The key to look up.
+   * @returns - True if the key is in the queue, false otherwise.
+   */
+  contains(key: number): boolean {
+    return this.isKey(key) && this._positions[key] >= 0;
+  }
+
+  /**
+   * Adds a key to the queue.
+   * @param value - The key to add.
+   * @param priority - The priority of the key.
+   * @returns - True if the key was added, false if it is out of range or already in the queue.
+   */
+  override enqueue(value: number, priority: number): boolean {
+    if (!this.isKey(value) || this._positions[value] >= 0) return false;
+    return super.enqueue(value, priority);
+  }
+
+  /**
+   * Adds a key to the queue and then removes and returns the key at the front of the queue.
+   * @param value - The key to add.
+   * @param priority - The priority of the key.
+   * @returns - The key at the front of the queue, or undefined if the key is out of range or already in the queue.
+   */
+  override enqueueDequeue(value: number, priority: number): number | undefined {
+    if (!this.isKey(value) || this._positions[value] >= 0) return undefined;
+    const result = super.enqueueDequeue(value, priority);
+    if (result !== undefined && result !== value) this._positions[result] = -1;
+    return result;
+  }
+
+  /**
+   * Removes the key at the front of the queue and then adds a key to the queue.
+   * @param value - The key to add.
+   * @param priority - The priority of the key.
+   * @returns - The key that was at the front of the queue, or undefined if the queue was empty
+   * or the key is out of range or already in the queue.
+   */
+  override dequeueEnqueue(value: number, priority: number): number | undefined {
+    if (!this.isKey(value) || this._positions[value] >= 0) return undefined;
+    const result = super.dequeueEnqueue(value, priority);
+    if (result !== undefined) this._positions[result] = -1;
+    return result;
+  }
+
+  /**
+   * Changes the priority of a key in O(log n).
+   * @param key - The key to update.
+   * @param priority - The new priority of the key.
+   * @returns - True if the priority was changed, false if the key is not in the queue.
+   */
+  changePriority(key: number, priority: number): boolean {
+    if (!this.contains(key)) return false;
+    const index = this._positions[key];
+    const node = { value: key, priority, nindex: index } as Node;
+    const previous = { value: key, priority: this._priorities[index], nindex: index } as Node;
+
+    if (this.compare(node, previous) < 0) {
+      this._up(node, index);
+    } else {
+      this._down(node, index);
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the priority of a key in O(1).
+   * @param key - The key to look up.
+   * @returns - The priority of the key, or undefined if the key is not in the queue.
+   */
+  priorityOf(key: number): number | undefined {
+    return this.contains(key) ? this._priorities[this._positions[key]] as number : undefined;
+  }
+
+  /**
+   * Removes a key from the queue in O(log n).
+   * @param value - The key to remove.
+   * @param comparer - An optional equality comparison function. When provided, the queue is searched linearly.
+   * @returns - True if the key was removed, false otherwise.
+   */
+  override remove(value: number, comparer?: IEqualityComparator<number>): boolean {
+    let index = -1;
+    if (comparer) {
+      for (let i = 0; i < this._size; i++) {
+        if (comparer(value, this._elements[i] as number)) { index = i; break; }
+      }
+    } else if (this.contains(value)) {
+      index = this._positions[value];
+    }
+    if (index < 0) return false;
+
+    const removedNode = {
+      value: this._elements[index],
+      priority: this._priorities[index],
+      nindex: index
+    } as const as Node;
+    this._events?.emit("remove", { value: removedNode.value, priority: removedNode.priority, index });
+    const newSize = --this._size;
+    this._positions[removedNode.value] = -1;
+
+    if (index < newSize) {
+      const lastNode = {
+        value: this._elements[newSize],
+        priority: this._priorities[newSize],
+        nindex: newSize
+      } as const as Node;
+
+      if (this.compare(lastNode, removedNode) < 0) {
+        this._up(lastNode, index);
+      } else {
+        this._down(lastNode, index);
+      }
+    }
+
+    this.clearAt(newSize);
+
+    return true;
+  }
+
+  /**
+   * Moves all keys of another queue into this queue and leaves the other queue empty.
+   * Keys that are out of range or already in this queue keep their place here and are dropped from the other queue.
+   * @param other - The queue to take keys from.
+   * @returns - This queue.
+   */
+  override meld(other: TypedPriorityQueue<Node, Comparer>): this {
+    if (other === this) return this;
+    for (const node of other.heap.slice(0, other.count)) {
+      this.enqueue(node.value, node.priority);
+    }
+    other.clear();
+    return this;
+  }
+
+  override indexOf(value: number, dequeue = false, comparer?: IEqualityComparator<number>): number {
+    if (dequeue || comparer) return super.indexOf(value, dequeue, comparer);
+    return this.contains(value) ? this._positions[value] : -1;
+  }
+
+  override clone(): this {
+    const clone = new IndexedTypedPriorityQueue<Node, Comparer>(this.backends, this._positions.length, this.compare, { arity: this.arity });
+    clone._elements.set(this._elements);
+    clone._priorities.set(this._priorities);
+    clone._positions.set(this._positions);
+    clone._size = this._size;
+    return clone as this;
+  }
+
+  override clear(): void {
+    super.clear();
+    this._positions.fill(-1);
+  }
+
+  /**
+   * Determines whether a value is a valid key for the queue.
+   * @param value - The value to check.
+   * @returns - True if the value is an integer in the range `[0, keyCount)`.
+   */
+  protected isKey(value: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value < this._positions.length;
+  }
+
+  /**
+   * Loads the keys of a queue from its JSON representation and records their positions.
+   * @param json - The JSON representation of the queue.
+   */
+  protected override restore(json: IQueueJSON): void {
+    super.restore(json);
+    this.recordPositions("JSON");
+  }
+
+  /**
+   * Loads the keys of a queue from a binary snapshot and records their positions.
+   * @param snapshot - The contents of the queue.
+   */
+  protected override restoreSnapshot(snapshot: ITypedSnapshot): void {
+    super.restoreSnapshot(snapshot);
+    this.recordPositions("snapshot");
+  }
+
+  /**
+   * Takes over the storage of a queue that was transferred from another thread and records the positions of its keys.
+   * @param descriptor - The description of the queue.
+   */
+  protected override adopt(descriptor: ITypedTransferable): void {
+    super.adopt(descriptor);
+    if (this._positions.length !== descriptor.initialSize) {
+      this._positions = new Int32Array(descriptor.initialSize).fill(-1);
+    }
+    this.recordPositions("descriptor");
+  }
+
+  /**
+   * Records the positions of the restored keys.
+   * @param source - The kind of data the keys were restored from, for error messages.
+   */
+  private recordPositions(source: string): void {
+    for (let i = 0; i < this._size; i++) {
+      const key = this._elements[i] as number;
+      if (!this.isKey(key) || this._positions[key] >= 0) {
+        throw new Error(`[pq-ts] The ${source} holds an invalid or duplicate key: ${key}.`);
+      }
+      this._positions[key] = i;
+    }
+  }
+
+  protected override removeRootNode(): void {
+    if (this.isEmpty()) return;
+    this._positions[this._elements[0] as number] = -1;
+    super.removeRootNode();
+  }
+
+  /**
+   * Create a queue from keys and priorities.
+   *
+   * @param elements - An array of keys to be added to the queue.
+   * @param priorities - An array of priorities corresponding to the keys.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
+   * @param keyCount - The number of keys.
+   * @param comparer - (Optional) A custom comparer for the queue elements.
+   * @param options - (Optional) The options for the queue.
+   * @returns A new instance of the indexed typed priority queue.
+   */
+  static override from(
+    elements: number[],
+    priorities: number[],
+    backend: TypedBackend,
+    keyCount: number,
+    comparer?: IComparer<IPriorityNode<number>>,
+    options?: IPriorityQueueOptions
+  ): IndexedTypedPriorityQueue<IPriorityNode<number>>;
+
+  /**
+   * Create a queue from an existing queue.
+   *
+   * @param queue - An existing queue to copy.
+   * @param comparer - (Optional) A custom comparer for the queue elements.
+   * @returns A new instance of the indexed typed priority queue.
+   */
+  static override from<Node extends IPriorityNode<number>>(
+    queue: IndexedTypedPriorityQueue<Node>,
+    comparer?: IComparer<Node>
+  ): IndexedTypedPriorityQueue<Node>;
+  static override from<Node extends IPriorityNode<number>>(
+    elementsOrQueue: number[] | IndexedTypedPriorityQueue<Node>,
+    prioritiesOrComparer?: number[] | IComparer<Node>,
+    backend?: TypedBackend,
+    keyCount?: number,
+    comparer?: IComparer<Node>,
+    options?: IPriorityQueueOptions
+  ): IndexedTypedPriorityQueue<Node> {
+    if (Array.isArray(elementsOrQueue)) {
+      const queue = new IndexedTypedPriorityQueue<Node>(backend as TypedBackend, keyCount as number, comparer, options);
+      const priorities = prioritiesOrComparer as number[];
+      for (let i = 0; i < elementsOrQueue.length; i++) {
+        queue.enqueue(elementsOrQueue[i], priorities[i]);
+      }
+      return queue;
+    }
+
+    const source = elementsOrQueue;
+    const queue = new IndexedTypedPriorityQueue<Node>(
+      source.backends,
+      source._positions.length,
+      (prioritiesOrComparer as IComparer<Node> | undefined) ?? source.compare,
+      { arity: source.arity }
+    );
+    queue._elements.set(source._elements);
+    queue._priorities.set(source._priorities);
+    queue._positions.set(source._positions);
+    queue._size = source._size;
+    return queue;
+  }
+}
@@ -0,0 +1,150 @@
+import { expect, describe, it } from "vitest";
+import { MergeablePriorityQueue } from "./mergeable.pq.ts";
+
+describe("MergeablePriorityQueue", () => {
+  it("should create an empty mergeable priority queue", () => {
+    const pq = new MergeablePriorityQueue<number>();
+    expect(pq.count).toBe(0);
+    expect(pq.isEmpty()).toBe(true);
+    expect(pq.peek()).toBeUndefined();
+    expect(pq.dequeue()).toBeUndefined();
+  });
+
+  it("should dequeue elements in priority order", () => {
+    const pq = new MergeablePriorityQueue<number>();
+    const priorities = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5, 95, 15, 85, 25];
+    for (const priority of priorities) {
+      pq.enqueue(priority, priority);
+    }
+
+    expect(pq.count).toBe(priorities.length);
+    expect(pq.toArray()).toEqual([...priorities].sort((a, b) => a - b));
+    const result: number[] = [];
+    while (!pq.isEmpty()) {
+      result.push(pq.dequeue() as number);
+    }
+    expect(result).toEqual([...priorities].sort((a, b) => a - b));
+  });
+
+  it("should meld another queue in constant time and keep its handles", () => {
+    const pq = new MergeablePriorityQueue<string>();
+    pq.enqueue("a", 5);
+    pq.enqueue("b", 1);
+    const other = new MergeablePriorityQueue<string>();
+    const c = other.enqueueWithHandle("c", 3)!;
+    other.enqueue("d", 2);
+
+    expect(pq.meld(other)).toBe(pq);
+    expect(pq.count).toBe(4);
+    expect(other.isEmpty()).toBe(true);
+    expect(pq.updatePriority(c, 0)).toBe(true);
+    expect(pq.toArray()).toEqual(["c", "b", "d", "a"]);
+  });
+
+  it("should reject handles of other queues", () => {
+    const pq = new MergeablePriorityQueue<string>();
+    const a = pq.enqueueWithHandle("a", 1)!;
+    const other = new MergeablePriorityQueue<string>();
+    const b = other.enqueueWithHandle("b", 2)!;
+    other.enqueue("c", 3);
+
+    expect(pq.removeHandle(b)).toBe(false);
+    expect(pq.updatePriority(b, 0)).toBe(false);
+    expect(pq.priorityOf(b)).toBeUndefined();
+    expect(other.removeHandle(a)).toBe(false);
+    expect(pq.toArray()).toEqual(["a"]);
+    expect(other.toArray()).toEqual(["b", "c"]);
+
+    const third = new MergeablePriorityQueue<string>();
+    third.meld(other);
+    pq.meld(third);
+    expect(other.priorityOf(b)).toBeUndefined();
+    expect(third.priorityOf(b)).toBeUndefined();
+    expect(pq.updatePriority(b, 0)).toBe(true);
+    expect(pq.toArray()).toEqual(["b", "a", "c"]);
+  });
+
+  it("should update priorities and remove elements with handles", () => {
+    const pq = new MergeablePriorityQueue<string>();
+    const handles = ["a", "b", "c", "d", "e", "f"].map((value, i) => pq.enqueueWithHandle(value, i)!);
+    pq.dequeue();
+
+    expect(pq.updatePriority(handles[4], -1)).toBe(true);
+    expect(pq.updatePriority(handles[1], 10)).toBe(true);
+    expect(pq.priorityOf(handles[1])).toBe(10);
+    expect(pq.removeHandle(handles[2])).toBe(true);
+    expect(pq.removeHandle(handles[2])).toBe(false);
+    expect(pq.priorityOf(handles[0])).toBeUndefined();
+    expect(pq.toArray()).toEqual(["e", "d", "f", "b"]);
+  });
+
+  it("should keep the heap in order under random operations", () => {
+    const pq = new MergeablePriorityQueue<number>();
+    const handles: ReturnType<typeof pq.enqueueWithHandle>[] = [];
+    const expected = new Map<number, number>();
+    let seed = 11;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+    for (let i = 0; i < 1000; i++) {
+      const r = random();
+      if (r < 0.5 || expected.size === 0) {
+        const priority = Math.floor(random() * 1000);
+        handles[i] = pq.enqueueWithHandle(i, priority);
+        expected.set(i, priority);
+      } else if (r < 0.8) {
+        const keys = [...expected.keys()];
+        const key = keys[Math.floor(random() * keys.length)];
+        const priority = Math.floor(random() * 1000);
+        pq.updatePriority(handles[key]!, priority);
+        expected.set(key, priority);
+      } else {
+        const min = Math.min(...expected.values());
+        const value = pq.dequeue() as number;
+        expect(expected.get(value)).toBe(min);
+        expected.delete(value);
+      }
+    }
+
+    expect(pq.count).toBe(expected.size);
+    const priorities = [...pq.orderedNodes()].map((node) => node.priority);
+    expect(priorities).toEqual([...expected.values()].sort((a, b) => a - b));
+  });
+
+  it("should remove, find and clone elements", () => {
+    const pq = new MergeablePriorityQueue<number>();
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.indexOf(3, true)).toBe(1);
+    expect(pq.priorityAt(2, true)).toBe(5);
+    const clone = pq.clone();
+    expect(pq.remove(3)).toBe(true);
+    expect(pq.remove(3)).toBe(false);
+    expect(pq.toArray()).toEqual([2, 1]);
+    expect(clone.toArray()).toEqual([2, 3, 1]);
+  });
+
+  it("should replace the front of the queue", () => {
+    const pq = new MergeablePriorityQueue<number>();
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 2);
+
+    expect(pq.enqueueDequeue(3, 0)).toBe(3);
+    expect(pq.enqueueDequeue(3, 3)).toBe(1);
+    expect(pq.dequeueEnqueue(4, 0)).toBe(2);
+    expect(pq.toArray()).toEqual([4, 3]);
+  });
+
+  it("should clear the queue and invalidate handles", () => {
+    const pq = new MergeablePriorityQueue<number>();
+    const handle = pq.enqueueWithHandle(1, 1)!;
+    pq.enqueue(2, 2);
+    pq.clear();
+
+    expect(pq.count).toBe(0);
+    pq.enqueue(3, 3);
+    expect(pq.removeHandle(handle)).toBe(false);
+    expect(pq.toArray()).toEqual([3]);
+  });
+});
@@ -0,0 +1,461 @@
+import type { IComparer, IEqualityComparator, IPairingNode, IPairingOwner, IPriorityHandle, IPriorityQueue } from "./types.ts";
+import { PriorityQueue } from "./pq.ts";
+
+/**
+ * A priority queue backed by a pairing heap.
+ * Enqueueing, melding another queue and decreasing a priority take O(1) time,
+ * and dequeueing takes O(log n) amortized time.
+ *
+ * @remarks
+ * Handles stay valid when their queue is melded into another queue and then refer to elements of that queue.
+ * Handles of other queues are rejected.
+ * A pairing heap is not a d-ary heap, so `arity` is `Infinity`.
+ */
+export class MergeablePriorityQueue<
+  T,
+  Node extends IPairingNode<T> = IPairingNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>
+> implements IPriorityQueue<T, Node> {
+  /**
+   * The root of the pairing heap used internally.
+   * @protected
+   */
+  protected _root: Node | undefined;
+  /**
+   * The size of elements in the queue used internally.
+   * @protected
+   */
+  protected _size = 0;
+  /**
+   * The token that the nodes of the queue point to, so that handles of other queues are rejected.
+   * @protected
+   */
+  protected _owner: IPairingOwner = {};
+  /**
+   * The compare function used internally.
+   */
+  compare: Comparer;
+
+  /**
+   * Creates a new instance of a mergeable priority queue.
+   * @param comparer - An optional comparison function.
+   */
+  constructor(comparer?: Comparer) {
+    this.compare = comparer ?? ((a: Node, b: Node) => a.priority - b.priority) as Comparer;
+  }
+
+  /**
+   * The number of elements in the queue.
+   * @returns - The number of elements in the queue.
+   */
+  get count(): number {
+    return this._size;
+  }
+
+  /**
+   * The number of children each node in the heap has, which is unbounded in a pairing heap.
+   * @readonly
+   */
+  get arity(): number {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * The elements in the queue returned in an unordered manner.
+   * @returns - The elements in the queue.
+   */
+  get values(): T[] {
+    return this.heap.map((node) => node.value);
+  }
+
+  /**
+   * The nodes of the heap in depth-first order.
+   * @returns - The nodes in the queue.
+   */
+  get heap(): Node[] {
+    return [...this.nodes()];
+  }
+
+  /**
+   * Adds an element to the queue in O(1).
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - True if the element was added, false otherwise.
+   */
+  enqueue(value: T, priority: number): boolean {
+    return this.enqueueWithHandle(value, priority) !== undefined;
+  }
+
+  /**
+   * Adds an element to the queue in O(1) and returns a handle to it.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - A handle to the element, or undefined if the element was not added.
+   */
+  enqueueWithHandle(value: T, priority: number): IPriorityHandle<T, Node> | undefined {
+    if (typeof priority !== "number") return undefined;
+    const node = { value, priority, nindex: 0, owner: this._owner } as Node;
+    this._root = this._root ? this.link(this._root, node) : node;
+    this._size++;
+    return node;
+  }
+
+  /**
+   * Adds value and priority pairs to the queue.
+   * @param entries - The value and priority pairs to add.
+   * @returns - The number of elements that were added.
+   */
+  enqueueRange(entries: Iterable<[T, number]>): number {
+    let added = 0;
+    for (const [value, priority] of entries) {
+      if (this.enqueue(value, priority)) added++;
+    }
+    return added;
+  }
+
+  /**
+   * Moves all elements of another mergeable queue into this queue in O(1) and leaves the other queue empty.
+   * Handles from the other queue refer to elements of this queue.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  meld(other: MergeablePriorityQueue<T, Node, Comparer>): this {
+    if (other === this || !other._root) return this;
+    this._root = this._root ? this.link(this._root, other._root) : other._root;
+    this._size += other._size;
+    // The nodes of the other queue keep their token, which now forwards to this queue.
+    other._owner.next = this._owner;
+    other._owner = {};
+    other._root = undefined;
+    other._size = 0;
+    return this;
+  }
+
+  dequeue(): T | undefined {
+    return this.pop()?.value;
+  }
+
+  pop(): Node | undefined {
+    const root = this._root;
+    if (!root) return undefined;
+    this._root = this.mergePairs(root.child as Node | undefined);
+    this._size--;
+    this.release(root);
+    return root;
+  }
+
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   */
+  enqueueDequeue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    const node = { value, priority, nindex: 0 } as Node;
+    if (!this._root || this.compare(this._root, node) >= 0) return value;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   */
+  dequeueEnqueue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Changes the priority of the element referenced by a handle.
+   * Moving an element closer to the front of the queue (decrease-key) takes O(1) time;
+   * moving it towards the back takes O(log n) amortized time.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @param priority - The new priority of the element.
+   * @returns - True if the priority was updated, false if the handle is not in this queue.
+   */
+  updatePriority(handle: IPriorityHandle<T, Node>, priority: number): boolean {
+    if (typeof priority !== "number" || !this.hasHandle(handle)) return false;
+    const node = handle as Node;
+    const previous = { ...node };
+    node.priority = priority;
+    if (node === this._root) {
+      if (this.compare(node, previous) > 0) {
+        this._root = this.mergePairs(node.child as Node | undefined);
+        node.child = undefined;
+        this._root = this._root ? this.link(this._root, node) : node;
+      }
+      return true;
+    }
+
+    this.cut(node);
+    if (this.compare(node, previous) > 0) {
+      const children = this.mergePairs(node.child as Node | undefined);
+      node.child = undefined;
+      if (children) this._root = this.link(this._root as Node, children);
+    }
+    this._root = this.link(this._root as Node, node);
+    return true;
+  }
+
+  /**
+   * Removes the element referenced by a handle in O(log n) amortized time.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns - True if the element was removed, false if the handle is not in this queue.
+   */
+  removeHandle(handle: IPriorityHandle<T, Node>): boolean {
+    if (!this.hasHandle(handle)) return false;
+    const node = handle as Node;
+    if (node === this._root) {
+      this.pop();
+      return true;
+    }
+
+    this.cut(node);
+    const children = this.mergePairs(node.child as Node | undefined);
+    if (children) this._root = this.link(this._root as Node, children);
+    this._size--;
+    this.release(node);
+    return true;
+  }
+
+  /**
+   * Returns the priority of the element referenced by a handle.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns - The priority of the element, or undefined if the handle is not in this queue.
+   */
+  priorityOf(handle: IPriorityHandle<T, Node>): number | undefined {
+    return this.hasHandle(handle) ? handle.priority : undefined;
+  }
+
+  peek(): T | undefined {
+    return this._root?.value;
+  }
+
+  clear(): void {
+    for (const node of this.heap) {
+      this.release(node);
+    }
+    this._root = undefined;
+    this._size = 0;
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * The children of the nodes visited so far are kept in a binary heap. Reading a node adds all of its
+   * children to that heap, and a node of a pairing heap can have O(n) children, so a single step takes
+   * O(n log n) time at worst. Reading all n nodes takes O(n log n) time.
+   * @returns - A generator of nodes in priority order.
+   */
+  *orderedNodes(): Generator<Node, void, undefined> {
+    if (!this._root) return;
+    const frontier = new PriorityQueue<Node>((a, b) => this.compare(a.value, b.value), { arity: 2 });
+    frontier.enqueue(this._root, 0);
+    while (!frontier.isEmpty()) {
+      const node = frontier.dequeue() as Node;
+      yield node;
+      for (let child = node.child; child; child = child.sibling) {
+        frontier.enqueue(child as Node, 0);
+      }
+    }
+  }
+
+  /**
+   * Creates a copy of the priority queue.
+   * Handles from the original queue do not refer to elements of the copy.
+   * @returns - A new priority queue instance with the same elements.
+   */
+  clone(): this {
+    const clone = new MergeablePriorityQueue<T, Node, Comparer>(this.compare);
+    for (const node of this.nodes()) {
+      clone.enqueue(node.value, node.priority);
+    }
+    return clone as this;
+  }
+
+  /**
+   * Removes the first occurrence of a specific element from the queue.
+   * @param value - The element to remove.
+   * @param comparer - An optional equality comparison function.
+   * @returns - True if the element was removed, false otherwise.
+   */
+  remove(value: T, comparer: IEqualityComparator<T> = (a, b) => a === b): boolean {
+    for (const node of this.nodes()) {
+      if (comparer(node.value, value)) return this.removeHandle(node);
+    }
+    return false;
+  }
+
+  /**
+   * Returns the index of the first occurrence of a specific element in the queue.
+   * @param value - The element to search for.
+   * @param dequeue - If true, searches for the element in priority order; otherwise in depth-first order.
+   * @param comparer - An optional equality comparison function.
+   * @returns - The index of the element if it exists, or -1 if the element is not found.
+   */
+  indexOf(value: T, dequeue = false, comparer: IEqualityComparator<T> = (a, b) => a === b): number {
+    let index = 0;
+    for (const node of dequeue ? this.orderedNodes() : this.nodes()) {
+      if (comparer(node.value, value)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the priority of the element at the specified index.
+   * @param index - The index of the element.
+   * @param dequeue - If true, counts the elements in priority order; otherwise in depth-first order.
+   * @returns - The priority of the element if it exists, or `Number.MAX_VALUE` if the index is out of range.
+   */
+  priorityAt(index: number, dequeue = false): number {
+    if (index < 0 || index >= this._size) return Number.MAX_VALUE;
+    let i = index;
+    for (const node of dequeue ? this.orderedNodes() : this.nodes()) {
+      if (i-- === 0) return node.priority;
+    }
+    return Number.MAX_VALUE;
+  }
+
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  toString(): string {
+    return this.toArray().join(", ");
+  }
+
+  /**
+   * Iterates over the queue in priority order.
+   * @returns - An iterator for the queue.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Determines whether a handle refers to a node that is still in this queue.
+   * @param handle - The handle to check.
+   * @returns - True if the handle is in this queue, false otherwise.
+   * @protected
+   */
+  protected hasHandle(handle: IPriorityHandle<T, Node>): boolean {
+    return handle.nindex === 0 && this.ownerOf(handle as Node) === this._owner;
+  }
+
+  /**
+   * Finds the token of the queue that holds a node, following the tokens of melded queues.
+   * The node is pointed at the token it finds, so that later lookups take O(1) time.
+   * @param node - The node to look up.
+   * @returns - The token of the queue that holds the node.
+   * @protected
+   */
+  protected ownerOf(node: Node): IPairingOwner | undefined {
+    let owner = node.owner;
+    while (owner?.next) owner = owner.next;
+    node.owner = owner;
+    return owner;
+  }
+
+  /**
+   * Iterates over the nodes of the heap in depth-first order.
+   * @returns - A generator of nodes.
+   * @protected
+   */
+  protected *nodes(): Generator<Node, void, undefined> {
+    const stack: Node[] = this._root ? [this._root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop() as Node;
+      yield node;
+      if (node.sibling) stack.push(node.sibling as Node);
+      if (node.child) stack.push(node.child as Node);
+    }
+  }
+
+  /**
+   * Links two roots and returns the root that is closer to the front of the queue.
+   * The other root becomes its first child.
+   * @param a - The first root.
+   * @param b - The second root.
+   * @returns - The new root.
+   * @protected
+   */
+  protected link(a: Node, b: Node): Node {
+    const [first, second] = this.compare(b, a) < 0 ? [b, a] : [a, b];
+    second.prev = first;
+    second.sibling = first.child;
+    if (first.child) first.child.prev = second;
+    first.child = second;
+    first.prev = undefined;
+    first.sibling = undefined;
+    return first;
+  }
+
+  /**
+   * Merges a list of siblings into a single tree with the two-pass pairing strategy.
+   * @param first - The first node of the list.
+   * @returns - The root of the merged tree, or undefined if the list is empty.
+   * @protected
+   */
+  protected mergePairs(first: Node | undefined): Node | undefined {
+    const pairs: Node[] = [];
+    let node = first;
+    while (node) {
+      const second = node.sibling as Node | undefined;
+      const next = second?.sibling as Node | undefined;
+      node.prev = node.sibling = undefined;
+      if (second) {
+        second.prev = second.sibling = undefined;
+        pairs.push(this.link(node, second));
+      } else {
+        pairs.push(node);
+      }
+      node = next;
+    }
+
+    let root = pairs.pop();
+    while (pairs.length > 0) {
+      root = this.link(pairs.pop() as Node, root as Node);
+    }
+    return root;
+  }
+
+  /**
+   * Detaches a node (and its children) from its parent and siblings.
+   * @param node - The node to detach.
+   * @protected
+   */
+  protected cut(node: Node): void {
+    const prev = node.prev as Node;
+    if (prev.child === node) {
+      prev.child = node.sibling;
+    } else {
+      prev.sibling = node.sibling;
+    }
+    if (node.sibling) node.sibling.prev = prev;
+    node.prev = node.sibling = undefined;
+  }
+
+  /**
+   * Clears the links of a node that left the queue.
+   * @param node - The node that left the queue.
+   * @protected
+   */
+  protected release(node: Node): void {
+    node.child = node.sibling = node.prev = undefined;
+    node.nindex = -1;
+  }
+}
@@ -0,0 +1,110 @@
+import { expect, describe, it } from "vitest";
+import { MinMaxPriorityQueue } from "./minmax.pq.ts";
+
+describe("MinMaxPriorityQueue", () => {
+  it("should create an empty min-max priority queue", () => {
+    const pq = new MinMaxPriorityQueue<number>();
+    expect(pq.count).toBe(0);
+    expect(pq.arity).toBe(2);
+    expect(pq.peekMin()).toBeUndefined();
+    expect(pq.peekMax()).toBeUndefined();
+    expect(pq.popMax()).toBeUndefined();
+  });
+
+  it("should peek and dequeue from both ends", () => {
+    const pq = new MinMaxPriorityQueue<string>();
+    pq.enqueue("a", 5);
+    pq.enqueue("b", 3);
+    pq.enqueue("c", 4);
+    pq.enqueue("d", 9);
+    pq.enqueue("e", 1);
+
+    expect(pq.peekMin()).toBe("e");
+    expect(pq.peekMax()).toBe("d");
+    expect(pq.dequeueMax()).toBe("d");
+    expect(pq.dequeueMin()).toBe("e");
+    expect(pq.dequeueMax()).toBe("a");
+    expect(pq.toArray()).toEqual(["b", "c"]);
+  });
+
+  it("should follow the comparer for min and max", () => {
+    const pq = new MinMaxPriorityQueue<number>((a, b) => b.priority - a.priority);
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 2);
+    pq.enqueue(3, 3);
+
+    expect(pq.peekMin()).toBe(3);
+    expect(pq.peekMax()).toBe(1);
+  });
+
+  it("should keep both ends in order under random operations", () => {
+    const pq = new MinMaxPriorityQueue<number>();
+    const expected: number[] = [];
+    let seed = 42;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+    for (let i = 0; i < 2000; i++) {
+      const r = random();
+      if (r < 0.5 || expected.length === 0) {
+        const priority = Math.floor(random() * 1000);
+        pq.enqueue(priority, priority);
+        expected.push(priority);
+        expected.sort((a, b) => a - b);
+      } else if (r < 0.75) {
+        expect(pq.dequeueMin()).toBe(expected.shift());
+      } else {
+        expect(pq.dequeueMax()).toBe(expected.pop());
+      }
+      expect(pq.peekMin()).toBe(expected[0]);
+      expect(pq.peekMax()).toBe(expected[expected.length - 1]);
+    }
+  });
+
+  it("should create a queue from pairs", () => {
+    const pq = MinMaxPriorityQueue.fromEntries([["a", 5], ["b", 3], ["c", 4], ["d", 1], ["e", 7]]);
+    expect(pq).toBeInstanceOf(MinMaxPriorityQueue);
+    expect(pq.peekMax()).toBe("e");
+    expect(pq.toArray()).toEqual(["d", "b", "c", "a", "e"]);
+  });
+
+  it("should remove elements and update priorities with handles", () => {
+    const pq = new MinMaxPriorityQueue<string>();
+    const a = pq.enqueueWithHandle("a", 5)!;
+    pq.enqueue("b", 3);
+    const c = pq.enqueueWithHandle("c", 4)!;
+    pq.enqueue("d", 1);
+
+    pq.updatePriority(a, 0);
+    expect(pq.peekMin()).toBe("a");
+    pq.updatePriority(a, 10);
+    expect(pq.peekMax()).toBe("a");
+    expect(pq.removeHandle(c)).toBe(true);
+    expect(pq.remove("b")).toBe(true);
+    expect(pq.toArray()).toEqual(["d", "a"]);
+  });
+
+  it("should clone the queue without sharing nodes", () => {
+    const pq = new MinMaxPriorityQueue<number>();
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    const clone = pq.clone();
+    expect(clone).toBeInstanceOf(MinMaxPriorityQueue);
+    expect(clone.dequeueMax()).toBe(1);
+    expect(pq.count).toBe(3);
+    expect(pq.peekMax()).toBe(1);
+  });
+
+  it("should replace the front of the queue", () => {
+    const pq = new MinMaxPriorityQueue<number>();
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 2);
+    pq.enqueue(3, 3);
+
+    expect(pq.dequeueEnqueue(4, 10)).toBe(1);
+    expect(pq.peekMax()).toBe(4);
+    expect(pq.enqueueDequeue(5, 0)).toBe(5);
+    expect(pq.toArray()).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,167 @@
+import type { IComparer, IPriorityNode } from "./types.ts";
+import { minMaxSift, minMaxHeapify, minMaxBack } from "./primitive.ts";
+import { PriorityQueue } from "./pq.ts";
+
+/**
+ * A double-ended priority queue backed by a min-max heap.
+ * Both the element at the front of the queue (min) and the element at the back (max) can be
+ * read in O(1) and removed in O(log n).
+ *
+ * @remarks
+ * "Min" and "max" follow the comparer: `dequeue` and `dequeueMin` return the first element in
+ * priority order, and `dequeueMax` returns the last. A min-max heap is always binary, so the
+ * `arity` option is not supported.
+ */
+export class MinMaxPriorityQueue<
+  T,
+  Node extends IPriorityNode<T> = IPriorityNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>
+> extends PriorityQueue<T, Node, Comparer> {
+  protected override _up = (node: Node, index: number) => {
+    this.place(node, index);
+    minMaxSift(this.compareAt, this.swap, this._size)(index);
+  }
+
+  protected override _down = (node: Node, index: number) => {
+    this.place(node, index);
+    minMaxSift(this.compareAt, this.swap, this._size)(index);
+  }
+
+  protected override _heapify = (size: number) => {
+    minMaxHeapify(this.compareAt, this.swap, size)();
+  }
+
+  /**
+   * Creates a new instance of a min-max priority queue.
+   */
+  constructor();
+  /**
+   * Creates a new instance of a min-max priority queue.
+   * @param comparer - An optional comparison function.
+   */
+  constructor(comparer: Comparer);
+  /**
+   * Creates a new instance of a min-max priority queue.
+   * @param queue - The queue to copy elements from.
+   * @param comparer - An optional comparison function.
+   */
+  constructor(queue: PriorityQueue<T, Node, Comparer>, comparer?: Comparer);
+  /**
+   * Creates a new instance of a min-max priority queue.
+   * @param elements - The elements to add to the queue.
+   * @param comparer - An optional comparison function.
+   */
+  constructor(elements: T[], comparer?: IComparer<T>);
+  /**
+   * Creates a new instance of a min-max priority queue.
+   * @param entries - The value and priority pairs to add to the queue.
+   * @param comparer - An optional comparison function.
+   * @remarks Arrays are treated as elements. Use `fromEntries` to create a queue from an array of pairs.
+   */
+  constructor(entries: Iterable<[T, number]>, comparer?: Comparer);
+  constructor(
+    elements?: T[] | PriorityQueue<T, Node, Comparer> | Iterable<[T, number]> | Comparer,
+    comparer?: Comparer
+  ) {
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    super(elements as any, comparer);
+    // The base constructor builds a d-ary heap, which is rebuilt as a binary min-max heap.
+    this._log2Arity = 1;
+    this._heapify(this._size);
+  }
+
+  /**
+   * Returns the element at the front of the queue without removing it.
+   * @returns - The first element in priority order, or undefined if the queue is empty.
+   */
+  peekMin(): T | undefined {
+    return this.peek();
+  }
+
+  /**
+   * Removes and returns the node at the front of the queue.
+   * @returns - The first node in priority order, or undefined if the queue is empty.
+   */
+  popMin(): Node | undefined {
+    return this.pop();
+  }
+
+  /**
+   * Removes and returns the element at the front of the queue.
+   * @returns - The first element in priority order, or undefined if the queue is empty.
+   */
+  dequeueMin(): T | undefined {
+    return this.dequeue();
+  }
+
+  /**
+   * Returns the element at the back of the queue without removing it.
+   * @returns - The last element in priority order, or undefined if the queue is empty.
+   */
+  peekMax(): T | undefined {
+    return this.isEmpty() ? undefined : this._elements[minMaxBack(this.compareAt, this._size)].value;
+  }
+
+  /**
+   * Removes and returns the node at the back of the queue.
+   * @returns - The last node in priority order, or undefined if the queue is empty.
+   */
+  popMax(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    return this.removeAt(minMaxBack(this.compareAt, this._size));
+  }
+
+  /**
+   * Removes and returns the element at the back of the queue.
+   * @returns - The last element in priority order, or undefined if the queue is empty.
+   */
+  dequeueMax(): T | undefined {
+    return this.popMax()?.value;
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * The nodes are read from a copy of the queue, so starting the iteration takes O(n) time
+   * and reading each node takes O(log n) time.
+   * @returns - A generator of nodes in priority order.
+   */
+  override *orderedNodes(): Generator<Node, void, undefined> {
+    const copy = this.clone();
+    while (!copy.isEmpty()) {
+      yield copy.pop() as Node;
+    }
+  }
+
+  override clone(): this {
+    return new MinMaxPriorityQueue(this, this.compare) as this;
+  }
+
+  /**
+   * Writes a node to a heap index.
+   * @param node - The node to write.
+   * @param index - The index to write the node to.
+   * @protected
+   */
+  protected place(node: Node, index: number): void {
+    node.nindex = index;
+    this._elements[index] = node;
+  }
+
+  /**
+   * Compares the nodes at two heap indices.
+   * @protected
+   */
+  protected compareAt = (a: number, b: number): number => {
+    return this.compare(this._elements[a], this._elements[b]);
+  }
+
+  /**
+   * Swaps the nodes at two heap indices and updates their node indices.
+   * @protected
+   */
+  protected swap = (a: number, b: number): void => {
+    const node = this._elements[a];
+    this.place(this._elements[b], a);
+    this.place(node, b);
+  }
+}
@@ -0,0 +1,99 @@
+import { expect, describe, it } from "vitest";
+import { MinMaxTypedPriorityQueue } from "./minmax.typed.pq.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+
+describe("MinMaxTypedPriorityQueue", () => {
+  it("should create an empty min-max typed priority queue", () => {
+    const pq = new MinMaxTypedPriorityQueue(Uint32Array, 10);
+    expect(pq.count).toBe(0);
+    expect(pq.arity).toBe(2);
+    expect(pq.peekMax()).toBeUndefined();
+    expect(pq.dequeueMax()).toBeUndefined();
+  });
+
+  it("should peek and dequeue from both ends", () => {
+    const pq = new MinMaxTypedPriorityQueue(Uint32Array, 2);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+    pq.enqueue(4, 9);
+    pq.enqueue(5, 1);
+
+    expect(pq.peekMin()).toBe(5);
+    expect(pq.peekMax()).toBe(4);
+    expect(pq.popMax()).toEqual({ value: 4, priority: 9, nindex: 1 });
+    expect(pq.dequeueMin()).toBe(5);
+    expect(pq.dequeueMax()).toBe(1);
+    expect(pq.toArray()).toEqual([2, 3]);
+  });
+
+  it("should keep both ends in order under random operations", () => {
+    const pq = new MinMaxTypedPriorityQueue(Float64Array, 16);
+    const expected: number[] = [];
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+    for (let i = 0; i < 2000; i++) {
+      const r = random();
+      if (r < 0.5 || expected.length === 0) {
+        const priority = Math.floor(random() * 1000);
+        pq.enqueue(priority, priority);
+        expected.push(priority);
+        expected.sort((a, b) => a - b);
+      } else if (r < 0.75) {
+        expect(pq.dequeueMin()).toBe(expected.shift());
+      } else {
+        expect(pq.dequeueMax()).toBe(expected.pop());
+      }
+      expect(pq.peekMin()).toBe(expected[0]);
+      expect(pq.peekMax()).toBe(expected[expected.length - 1]);
+    }
+  });
+
+  it("should remove elements", () => {
+    const pq = MinMaxTypedPriorityQueue.from([1, 2, 3, 4, 5, 6], [6, 5, 4, 3, 2, 1], Int32Array, 10);
+    expect(pq.remove(1)).toBe(true);
+    expect(pq.remove(6)).toBe(true);
+    expect(pq.peekMin()).toBe(5);
+    expect(pq.peekMax()).toBe(2);
+    expect(pq.toArray()).toEqual([5, 4, 3, 2]);
+  });
+
+  it("should emit a remove event when the back is removed", () => {
+    const pq = new MinMaxTypedPriorityQueue(Int32Array, 8);
+    const events: unknown[] = [];
+    pq.on("remove", (event) => events.push(["remove", event]))
+      .on("dequeue", (event) => events.push(["dequeue", event]));
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 9);
+    pq.enqueue(3, 7);
+
+    expect(pq.dequeueMax()).toBe(2);
+    expect(pq.dequeueMin()).toBe(1);
+    expect(events).toEqual([
+      ["remove", { value: 2, priority: 9, index: 1 }],
+      ["dequeue", { value: 1, priority: 5, index: 0 }],
+    ]);
+  });
+
+  it("should clone the queue", () => {
+    const pq = new MinMaxTypedPriorityQueue(Int32Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    const clone = pq.clone();
+    expect(clone).toBeInstanceOf(MinMaxTypedPriorityQueue);
+    expect(clone.dequeueMax()).toBe(1);
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual([2, 3, 1]);
+  });
+
+  it("should not attach to a shared buffer", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Int32Array, 2));
+    new TypedPriorityQueue(Int32Array, 2, undefined, { buffer, arity: 2 }).enqueue(1, 1);
+    expect(() => MinMaxTypedPriorityQueue.attach(buffer)).toThrow(
+      "[pq-ts] This kind of queue cannot be stored in a shared buffer."
+    );
+  });
+});
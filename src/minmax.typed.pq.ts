@@ -0,0 +1,151 @@
+import type { IComparer, IPriorityNode, TypedBackend } from "./types.ts";
+import { minMaxSift, minMaxHeapify, minMaxBack } from "./primitive.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+
+/**
+ * A double-ended priority queue backed by a min-max heap in typed arrays.
+ * Both the element at the front of the queue (min) and the element at the back (max) can be
+ * read in O(1) and removed in O(log n).
+ *
+ * @remarks
+ * "Min" and "max" follow the comparer: `dequeue` and `dequeueMin` return the first element in
+ * priority order, and `dequeueMax` returns the last. A min-max heap is always binary.
+ */
+export class MinMaxTypedPriorityQueue<
+  Node extends IPriorityNode<number> = IPriorityNode<number>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+> extends TypedPriorityQueue<Node, Comparer> {
+  protected readonly _up = (node: Node, index: number) => {
+    this.place(node, index);
+    minMaxSift(this.compareAt, this.swap, this._size)(index);
+  }
+
+  protected readonly _down = (node: Node, index: number) => {
+    this.place(node, index);
+    minMaxSift(this.compareAt, this.swap, this._size)(index);
+  }
+
+  protected readonly _heapify = (size: number) => {
+    minMaxHeapify(this.compareAt, this.swap, size)();
+  }
+
+  /**
+   * Creates a new instance of a min-max priority queue backed by a typed array.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
+   * @param size - The initial size of the queue.
+   * @param comparer - An optional comparison function.
+   */
+  constructor(backend: TypedBackend, size: number, comparer?: Comparer) {
+    super(backend, size, comparer, { arity: 2 });
+  }
+
+  /**
+   * Returns the element at the front of the queue without removing it.
+   * @returns - The first element in priority order, or undefined if the queue is empty.
+   */
+  peekMin(): number | undefined {
+    return this.peek();
+  }
+
+  /**
+   * Removes and returns the node at the front of the queue.
+   * @returns - The first node in priority order, or undefined if the queue is empty.
+   */
+  popMin(): Node | undefined {
+    return this.pop();
+  }
+
+  /**
+   * Removes and returns the element at the front of the queue.
+   * @returns - The first element in priority order, or undefined if the queue is empty.
+   */
+  dequeueMin(): number | undefined {
+    return this.dequeue();
+  }
+
+  /**
+   * Returns the element at the back of the queue without removing it.
+   * @returns - The last element in priority order, or undefined if the queue is empty.
+   */
+  peekMax(): number | undefined {
+    return this.isEmpty() ? undefined : this._elements[minMaxBack(this.compareAt, this._size)] as number;
+  }
+
+  /**
+   * Removes and returns the node at the back of the queue.
+   * @returns - The last node in priority order, or undefined if the queue is empty.
+   */
+  popMax(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    const index = minMaxBack(this.compareAt, this._size);
+    const node = this.nodeAt(index);
+    this._events?.emit("remove", { value: node.value, priority: node.priority, index });
+    const newSize = --this._size;
+
+    if (index < newSize) {
+      this._down(this.nodeAt(newSize), index);
+    }
+
+    this.clearAt(newSize);
+    return node;
+  }
+
+  /**
+   * Removes and returns the element at the back of the queue.
+   * @returns - The last element in priority order, or undefined if the queue is empty.
+   */
+  dequeueMax(): number | undefined {
+    return this.popMax()?.value;
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * The nodes are read from a copy of the queue, so starting the iteration takes O(n) time
+   * and reading each node takes O(log n) time.
+   * @returns - A generator of nodes in priority order.
+   */
+  override *orderedNodes(): Generator<Node, void, undefined> {
+    const copy = this.clone();
+    while (!copy.isEmpty()) {
+      yield copy.pop() as Node;
+    }
+  }
+
+  override clone(): this {
+    const size = Math.max(this._elements.length, this._defaultSize);
+    const clone = new MinMaxTypedPriorityQueue<Node, Comparer>(this.backends, size, this.compare);
+    clone._elements.set(this._elements);
+    clone._priorities.set(this._priorities);
+    clone._size = this._size;
+    return clone as this;
+  }
+
+  /**
+   * Writes a node to a heap index.
+   * @param node - The node to write.
+   * @param index - The index to write the node to.
+   */
+  protected place(node: Node, index: number): void {
+    this._elements[index] = node.value;
+    this._priorities[index] = node.priority;
+  }
+
+  /**
+   * Compares the nodes at two heap indices.
+   */
+  protected compareAt = (a: number, b: number): number => {
+    return this.compare(this.nodeAt(a), this.nodeAt(b));
+  }
+
+  /**
+   * Swaps the nodes at two heap indices.
+   */
+  protected swap = (a: number, b: number): void => {
+    const value = this._elements[a];
+    const priority = this._priorities[a];
+    this._elements[a] = this._elements[b];
+    this._priorities[a] = this._priorities[b];
+    this._elements[b] = value;
+    this._priorities[b] = priority;
+  }
+}
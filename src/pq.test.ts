@@ -1,5 +1,7 @@
 import { expect, describe, it } from "vitest";
 import { PriorityQueue } from "./pq.ts";
+import type { IPriorityNode } from "./types.ts";
+import { compareBigInts, compareDates, compareNumbers, createStringComparer, createTupleComparer } from "./comparer.ts";
 
 describe("PriorityQueue", () => {
 
@@ -315,4 +317,388 @@ describe("PriorityQueue", () => {
       }
     }
   });
+  it("should return a handle when enqueueing", () => {
+    const pq = new PriorityQueue<string>();
+    const handle = pq.enqueueWithHandle("a", 5);
+    expect(handle?.value).toBe("a");
+    expect(pq.priorityOf(handle!)).toBe(5);
+    expect(pq.enqueueWithHandle("b", "1" as unknown as number)).toBeUndefined();
+  });
+
+  it("should keep handle indices in sync with the heap", () => {
+    const pq = new PriorityQueue<number>();
+    const handles = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5].map((priority, i) => pq.enqueueWithHandle(i, priority)!);
+    pq.dequeue();
+    pq.remove(3);
+
+    for (let i = 0; i < pq.count; i++) {
+      expect(pq.heap[i].nindex).toBe(i);
+    }
+    expect(pq.priorityOf(handles[9])).toBeUndefined();
+    expect(pq.priorityOf(handles[3])).toBeUndefined();
+    expect(pq.priorityOf(handles[0])).toBe(50);
+  });
+
+  it("should decrease and increase priorities through handles", () => {
+    const pq = new PriorityQueue<string>();
+    const a = pq.enqueueWithHandle("a", 5)!;
+    const b = pq.enqueueWithHandle("b", 3)!;
+    pq.enqueueWithHandle("c", 4);
+
+    expect(pq.updatePriority(a, 1)).toBe(true);
+    expect(pq.peek()).toBe("a");
+    expect(pq.priorityOf(a)).toBe(1);
+
+    expect(pq.updatePriority(a, 10)).toBe(true);
+    expect(pq.updatePriority(b, 6)).toBe(true);
+    expect(pq.toArray()).toEqual(["c", "b", "a"]);
+  });
+
+  it("should remove elements through handles", () => {
+    const pq = new PriorityQueue<string>();
+    pq.enqueueWithHandle("a", 5);
+    const b = pq.enqueueWithHandle("b", 3)!;
+    pq.enqueueWithHandle("c", 4);
+
+    expect(pq.removeHandle(b)).toBe(true);
+    expect(pq.count).toBe(2);
+    expect(pq.toArray()).toEqual(["c", "a"]);
+    expect(pq.removeHandle(b)).toBe(false);
+    expect(pq.updatePriority(b, 0)).toBe(false);
+  });
+
+  it("should not accept handles from another queue", () => {
+    const pq = new PriorityQueue<number>();
+    const handle = pq.enqueueWithHandle(1, 1)!;
+    const clone = pq.clone();
+
+    expect(clone.removeHandle(handle)).toBe(false);
+    expect(clone.count).toBe(1);
+    expect(pq.priorityOf(handle)).toBe(1);
+  });
+
+  it("should maintain heap order under random handle updates", () => {
+    const pq = new PriorityQueue<number>();
+    const handles = Array.from({ length: 200 }, (_, i) => pq.enqueueWithHandle(i, Math.random() * 1000)!);
+    for (let i = 0; i < 500; i++) {
+      const handle = handles[Math.floor(Math.random() * handles.length)];
+      if (i % 5 === 0) {
+        pq.removeHandle(handle);
+      } else {
+        pq.updatePriority(handle, Math.random() * 1000);
+      }
+    }
+
+    let prev = pq.pop()!;
+    while (!pq.isEmpty()) {
+      const curr = pq.pop()!;
+      expect(curr.priority).toBeGreaterThanOrEqual(prev.priority);
+      prev = curr;
+    }
+  });
+  it("should return the new element from enqueueDequeue when it has the highest priority", () => {
+    const pq = new PriorityQueue<number>();
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    expect(pq.enqueueDequeue(3, 1)).toBe(3);
+    expect(pq.count).toBe(2);
+    expect(pq.toArray()).toEqual([2, 1]);
+  });
+
+  it("should return the root from enqueueDequeue and keep the new element", () => {
+    const pq = new PriorityQueue<number>();
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    expect(pq.enqueueDequeue(3, 4)).toBe(2);
+    expect(pq.count).toBe(2);
+    expect(pq.toArray()).toEqual([3, 1]);
+    expect(new PriorityQueue<number>().enqueueDequeue(1, 1)).toBe(1);
+  });
+
+  it("should replace the root with dequeueEnqueue", () => {
+    const pq = new PriorityQueue<number>();
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.dequeueEnqueue(4, 6)).toBe(2);
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual([3, 1, 4]);
+  });
+
+  it("should enqueue into an empty queue with dequeueEnqueue", () => {
+    const pq = new PriorityQueue<number>();
+    expect(pq.dequeueEnqueue(1, 1)).toBeUndefined();
+    expect(pq.count).toBe(1);
+    expect(pq.peek()).toBe(1);
+  });
+  it("should create a priority queue from value and priority pairs", () => {
+    const pq = PriorityQueue.fromEntries([["a", 5], ["b", 3], ["c", 4]]);
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual(["b", "c", "a"]);
+
+    const pq2 = new PriorityQueue<string>(new Map([["a", 5], ["b", 3]]));
+    expect(pq2.toArray()).toEqual(["b", "a"]);
+  });
+
+  it("should treat an array of pairs passed to from as elements", () => {
+    const pq = PriorityQueue.from([["a", 5], ["b", 3]] as [string, number][]);
+    expect(pq.count).toBe(2);
+    expect(pq.priorityAt(0)).toBe(0);
+
+    const entries = PriorityQueue.fromEntries([["a", 5], ["b", 3]]);
+    expect(entries.toArray()).toEqual(["b", "a"]);
+  });
+
+  it("should create a priority queue from an array of value and priority pairs", () => {
+    const pq = new PriorityQueue<string>([["a", 5], ["b", 3], ["c", 4]], undefined, { entries: true, arity: 2 });
+    expect(pq.count).toBe(3);
+    expect(pq.arity).toBe(2);
+    expect(pq.toArray()).toEqual(["b", "c", "a"]);
+
+    const tuples = new PriorityQueue<[string, number]>([["a", 5], ["b", 3]]);
+    expect(tuples.toArray()).toEqual([["a", 5], ["b", 3]]);
+  });
+
+  it("should enqueue a range of elements into an empty queue", () => {
+    const pq = new PriorityQueue<number>();
+    const entries: [number, number][] = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5].map((priority, i) => [i, priority]);
+    expect(pq.enqueueRange(entries)).toBe(10);
+    expect(pq.count).toBe(10);
+
+    for (let i = 0; i < pq.count; i++) {
+      expect(pq.heap[i].nindex).toBe(i);
+    }
+    expect(pq.toArray()).toEqual([9, 1, 3, 5, 7, 0, 8, 6, 4, 2]);
+  });
+
+  it("should enqueue a range of elements into a non-empty queue", () => {
+    const pq = new PriorityQueue<number>();
+    for (let i = 0; i < 10; i++) {
+      pq.enqueue(i, 10 - i);
+    }
+    expect(pq.enqueueRange([[10, 0], [11, 100], [12, "1" as unknown as number]])).toBe(2);
+    expect(pq.count).toBe(12);
+    expect(pq.dequeue()).toBe(10);
+    expect(pq.toArray().at(-1)).toBe(11);
+  });
+  it("should iterate lazily without modifying the queue", () => {
+    const pq = new PriorityQueue<number>();
+    for (let i = 0; i < 100; i++) {
+      pq.enqueue(i, 100 - i);
+    }
+    const heap = [...pq.heap];
+
+    const head: number[] = [];
+    for (const value of pq) {
+      head.push(value);
+      if (head.length === 3) break;
+    }
+
+    expect(head).toEqual([99, 98, 97]);
+    expect(pq.count).toBe(100);
+    expect(pq.heap).toEqual(heap);
+    expect([...pq.orderedNodes()].map((node) => node.priority)).toEqual(Array.from({ length: 100 }, (_, i) => i + 1));
+  });
+  it("should use a configurable arity", () => {
+    for (const arity of [2, 8, 16]) {
+      const pq = new PriorityQueue<number>({ arity });
+      expect(pq.arity).toBe(arity);
+      for (let i = 0; i < 100; i++) {
+        pq.enqueue(i, Math.floor(Math.random() * 1000));
+      }
+      expect(pq.clone().arity).toBe(arity);
+
+      let prev = pq.pop()!;
+      while (!pq.isEmpty()) {
+        const curr = pq.pop()!;
+        expect(curr.priority).toBeGreaterThanOrEqual(prev.priority);
+        prev = curr;
+      }
+    }
+  });
+
+  it("should accept an arity with a comparer or elements", () => {
+    const pq = new PriorityQueue<number>((a, b) => b.priority - a.priority, { arity: 2 });
+    expect(pq.arity).toBe(2);
+    expect(new PriorityQueue<number>([1, 2, 3], undefined, { arity: 8 }).arity).toBe(8);
+    expect(new PriorityQueue<number>().arity).toBe(4);
+    expect(() => new PriorityQueue<number>({ arity: 3 })).toThrow("[pq-ts] Arity must be a power of two greater than one.");
+    expect(() => new PriorityQueue<number>({ arity: 2 ** 31 })).toThrow("[pq-ts] Arity must not be greater than");
+  });
+
+  it("should meld another queue", () => {
+    const pq = new PriorityQueue<string>();
+    pq.enqueue("a", 5);
+    pq.enqueue("b", 1);
+    const other = new PriorityQueue<string>();
+    const c = other.enqueueWithHandle("c", 3)!;
+    other.enqueue("d", 0);
+    other.enqueue("e", 4);
+
+    expect(pq.meld(other)).toBe(pq);
+    expect(pq.count).toBe(5);
+    expect(other.isEmpty()).toBe(true);
+    expect(pq.updatePriority(c, -1)).toBe(true);
+    expect(pq.toArray()).toEqual(["c", "d", "b", "e", "a"]);
+  });
+
+  it("should meld a smaller queue by moving each element up", () => {
+    const pq = new PriorityQueue<number>();
+    for (let i = 0; i < 20; i++) {
+      pq.enqueue(i, i);
+    }
+    const other = new PriorityQueue<number>();
+    other.enqueue(-1, -1);
+    other.enqueue(100, 100);
+    pq.meld(other);
+    expect(pq.count).toBe(22);
+    expect(pq.dequeue()).toBe(-1);
+    expect(pq.toArray().at(-1)).toBe(100);
+    expect(pq.meld(pq).count).toBe(21);
+  });
+
+  it("should order bigint priorities with a priority comparer", () => {
+    const pq = new PriorityQueue<string, IPriorityNode<string, bigint>>({ priorityComparer: compareBigInts });
+    pq.enqueue("a", 2n ** 64n);
+    pq.enqueue("b", -1n);
+    const c = pq.enqueueWithHandle("c", 10n)!;
+    expect(pq.enqueue("d", 1 as unknown as bigint)).toBe(true);
+    expect(pq.enqueue("e", undefined as unknown as bigint)).toBe(false);
+
+    expect(pq.updatePriority(c, -2n)).toBe(true);
+    expect(pq.priorityOf(c)).toBe(-2n);
+    expect(pq.toArray()).toEqual(["c", "b", "d", "a"]);
+  });
+
+  it("should order string, date, and tuple priorities", () => {
+    const strings = new PriorityQueue<number, IPriorityNode<number, string>>({ priorityComparer: createStringComparer("en", { numeric: true }) });
+    strings.enqueueRange([[1, "item 10"], [2, "item 2"], [3, "item 1"]]);
+    expect(strings.toArray()).toEqual([3, 2, 1]);
+
+    const dates = new PriorityQueue<string, IPriorityNode<string, Date>>({ priorityComparer: compareDates, arity: 2 });
+    dates.enqueue("later", new Date(2024, 1, 1));
+    dates.enqueue("earlier", new Date(2023, 1, 1));
+    expect(dates.arity).toBe(2);
+    expect(dates.dequeue()).toBe("earlier");
+
+    const tuples = new PriorityQueue<string, IPriorityNode<string, [number, string]>>({
+      priorityComparer: createTupleComparer(compareNumbers, createStringComparer()),
+    });
+    tuples.enqueue("c", [1, "b"]);
+    tuples.enqueue("a", [0, "z"]);
+    tuples.enqueue("b", [1, "a"]);
+    expect(tuples.clone().toArray()).toEqual(["a", "b", "c"]);
+    expect(tuples.priorityAt(0)).toEqual([0, "z"]);
+    expect(tuples.priorityAt(3)).toBeUndefined();
+    expect(tuples.priorityAt(3, true)).toBeUndefined();
+  });
+
+  it("should return undefined for out-of-range indices with a numeric priority comparer", () => {
+    const pq = new PriorityQueue<string>({ priorityComparer: (a, b) => b - a });
+    pq.enqueue("a", 1);
+    pq.enqueue("b", 2);
+
+    expect(pq.priorityAt(0)).toBe(2);
+    expect(pq.priorityAt(2)).toBeUndefined();
+    expect(pq.priorityAt(2, true)).toBeUndefined();
+    expect(new PriorityQueue<string>({ priorityComparer: compareNumbers }).priorityAt(0)).toBeUndefined();
+  });
+
+  it("should take the priority type from the node type parameter", () => {
+    type Node = IPriorityNode<string> & { tag?: string };
+    const pq = new PriorityQueue<string, Node, (a: Node, b: Node) => number>((a, b) => b.priority - a.priority);
+    pq.enqueue("a", 1);
+    pq.enqueue("b", 2);
+
+    expect(pq.priorityAt(5)).toBe(Number.MAX_VALUE);
+    expect(pq.dequeue()).toBe("b");
+  });
+
+  it("should still reject non-number priorities without a priority comparer", () => {
+    const pq = new PriorityQueue<string>();
+    expect(pq.enqueue("a", "1" as unknown as number)).toBe(false);
+    expect(pq.count).toBe(0);
+  });
+
+  it("should restore a queue from JSON", () => {
+    const pq = new PriorityQueue<string>({ arity: 2 });
+    pq.enqueue("a", 3);
+    pq.enqueue("b", 1);
+    pq.enqueue("c", 2);
+
+    const restored = PriorityQueue.fromJSON<string>(JSON.stringify(pq));
+    expect(restored.arity).toBe(2);
+    expect(restored.heap.map((node) => node.value)).toEqual(pq.heap.map((node) => node.value));
+    expect(restored.toArray()).toEqual(["b", "c", "a"]);
+    expect(PriorityQueue.fromJSON<string>(pq.toJSON(), { arity: 8 }).arity).toBe(8);
+  });
+
+  it("should use codecs for values and priorities that are not JSON values", () => {
+    const pq = new PriorityQueue<Map<string, number>, IPriorityNode<Map<string, number>, Date>>({ priorityComparer: compareDates });
+    pq.enqueue(new Map([["a", 1]]), new Date(2000, 1, 1));
+    pq.enqueue(new Map([["b", 2]]), new Date(1990, 1, 1));
+    const codecs = {
+      codec: {
+        encode: (value: Map<string, number>) => [...value],
+        decode: (encoded: unknown) => new Map(encoded as [string, number][])
+      },
+      priorityCodec: {
+        encode: (date: Date) => date.toISOString(),
+        decode: (encoded: unknown) => new Date(encoded as string)
+      }
+    };
+
+    const json = JSON.parse(JSON.stringify(pq.toJSON(codecs)));
+    const restored = PriorityQueue.fromJSON<Map<string, number>, IPriorityNode<Map<string, number>, Date>>(json, { ...codecs, priorityComparer: compareDates });
+    expect(restored.pop()).toMatchObject({ value: new Map([["b", 2]]), priority: new Date(1990, 1, 1) });
+    expect(restored.dequeue()).toEqual(new Map([["a", 1]]));
+  });
+
+  it("should reject JSON that does not describe a queue", () => {
+    expect(() => PriorityQueue.fromJSON("{}")).toThrow("[pq-ts] The JSON does not describe a queue.");
+    expect(() => PriorityQueue.fromJSON({ arity: 4, capacity: 1, values: [1], priorities: [] })).toThrow("[pq-ts] The JSON does not describe a queue.");
+  });
+
+  it("should emit lifecycle events to listeners", () => {
+    const pq = new PriorityQueue<string>();
+    const events: unknown[] = [];
+    pq.on("enqueue", (event) => events.push(["enqueue", event]))
+      .on("dequeue", (event) => events.push(["dequeue", event]))
+      .on("remove", (event) => events.push(["remove", event]))
+      .on("clear", (event) => events.push(["clear", event]))
+      .on("grow", (event) => events.push(["grow", event]));
+
+    pq.enqueue("a", 2);
+    pq.enqueue("b", 1);
+    pq.dequeue();
+    pq.enqueue("c", 3);
+    pq.remove("c");
+    pq.clear();
+
+    expect(events).toEqual([
+      ["grow", { capacity: 4 }],
+      ["enqueue", { value: "a", priority: 2, index: 0 }],
+      ["enqueue", { value: "b", priority: 1, index: 1 }],
+      ["dequeue", { value: "b", priority: 1, index: 0 }],
+      ["enqueue", { value: "c", priority: 3, index: 1 }],
+      ["remove", { value: "c", priority: 3, index: 1 }],
+      ["clear", { count: 1 }],
+    ]);
+  });
+
+  it("should stop emitting events to removed listeners", () => {
+    const pq = new PriorityQueue<string>();
+    const dequeued: string[] = [];
+    const listener = ({ value }: { value: string }) => dequeued.push(value);
+    pq.on("dequeue", listener);
+    pq.enqueueRange([["a", 1], ["b", 2]]);
+
+    expect(pq.dequeueEnqueue("c", 3)).toBe("a");
+    pq.off("dequeue", listener);
+    pq.dequeue();
+    expect(dequeued).toEqual(["a"]);
+  });
 });
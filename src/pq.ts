@@ -1,11 +1,14 @@
-import type { IPriorityQueue, IComparer, IPriorityNode, IEqualityComparator } from "./types.ts";
-import { up, down, heapify } from "./primitive.ts";
+import type { IPriorityQueue, IComparer, IPriorityNode, IEqualityComparator, IPriorityHandle, IPriorityQueueOptions, IQueueCodecs, IQueueJSON, IQueueJSONOptions, IQueueEventMap, IQueueListener, QueueEventType } from "./types.ts";
+import { QueueEmitter } from "./events.ts";
+import { up, down, heapify, ordered, parseQueueJSON, log2Arity, ARITY, LOG2_ARITY } from "./primitive.ts";
 
 export class PriorityQueue<
   T,
-  Node extends IPriorityNode<T> = IPriorityNode<T>,
-  Comparer extends IComparer<Node> = IComparer<Node>
-> implements IPriorityQueue<T, Node> {
+  // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+  Node extends IPriorityNode<T, any> = IPriorityNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+  P = Node["priority"]
+> implements IPriorityQueue<T, Node, IComparer<Node>, P> {
   private static readonly GROW_FACTOR = 2;
   private static readonly MINIMUM_GROW = 4;
   private static readonly MAX_SIZE = 2 ** 32 - 1;
@@ -24,9 +27,24 @@ export class PriorityQueue<
    * @protected
    */
   protected _size = 0;
+  /**
+   * The log base 2 of the heap's arity used internally.
+   * @protected
+   */
+  protected _log2Arity = LOG2_ARITY;
+  /**
+   * The comparison function for priorities used internally, or undefined if priorities are numbers.
+   * @protected
+   */
+  protected _priorityComparer?: IComparer<P>;
+  /**
+   * The listeners of the queue used internally, or undefined if there are none.
+   * @protected
+   */
+  protected _events?: QueueEmitter<T, P>;
 
   protected _up = (node: Node, index: number) => {
-    return up(this._elements)(
+    return up(this._elements, this._log2Arity)(
       node,
       index,
       this.compare as Comparer
@@ -34,7 +52,7 @@ export class PriorityQueue<
   }
 
   protected _down = (node: Node, index: number) => {
-    return down(this._elements, this._size)(
+    return down(this._elements, this._size, this._log2Arity)(
       node,
       index,
       this.compare as Comparer
@@ -42,7 +60,7 @@ export class PriorityQueue<
   }
 
   protected _heapify = (size: number) => {
-    return heapify(this._elements, size)(this.compare as Comparer);
+    return heapify(this._elements, size, this._log2Arity)(this.compare as Comparer);
   }
 
   protected _grow(
@@ -63,61 +81,128 @@ export class PriorityQueue<
     }
 
     this._elements.length = newCapacity;
+    this._events?.emit("grow", { capacity: newCapacity });
   }
 
   /**
    * Creates a new instance of a priority queue.
    */
   constructor();
+  /**
+   * Creates a new instance of a priority queue.
+   * @param options - The options for the queue.
+   */
+  constructor(options: IPriorityQueueOptions<P>);
   /**
    * Creates a new instance of a priority queue.
    * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
    */
-  constructor(compare: Comparer);
+  constructor(compare: Comparer, options?: IPriorityQueueOptions<P>);
   /**
    * Creates a new instance of a priority queue.
    * @param queue - The queue to copy elements from.
    * @param comparer - An optional comparison function.
    */
   constructor(
-    queue: PriorityQueue<T, Node, Comparer>,
+    queue: PriorityQueue<T, Node, Comparer, P>,
     comparer?: Comparer
   );
+  /**
+   * Creates a new instance of a priority queue from an array of value and priority pairs.
+   * The heap is built in O(n).
+   * @param entries - The value and priority pairs to add to the queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue, with `entries` set to true.
+   */
+  constructor(
+    entries: [T, P][],
+    comparer: Comparer | undefined,
+    options: IPriorityQueueOptions<P> & { entries: true }
+  );
   /**
    * Creates a new instance of a priority queue.
    * @param elements - The elements to add to the queue.
    * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
    */
   constructor(
     elements: T[],
-    comparer?: IComparer<T>
+    comparer?: IComparer<T>,
+    options?: IPriorityQueueOptions<P>
   );
+  /**
+   * Creates a new instance of a priority queue.
+   * @param entries - The value and priority pairs to add to the queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   * @remarks Arrays are treated as elements unless the `entries` option is set.
+   */
   constructor(
-    elements?: T[] | PriorityQueue<T, Node, Comparer>,
-    comparer?: Comparer
+    entries: Iterable<[T, P]>,
+    comparer?: Comparer,
+    options?: IPriorityQueueOptions<P>
+  );
+  constructor(
+    elements?: T[] | PriorityQueue<T, Node, Comparer, P> | Iterable<[T, P]> | Comparer | IPriorityQueueOptions<P>,
+    comparer?: Comparer | IPriorityQueueOptions<P>,
+    options?: IPriorityQueueOptions<P>
   ) {
-    const min = (a: Node, b: Node) => a.priority - b.priority;
+    const settings = PriorityQueue.resolveOptions<P>(elements, comparer, options);
+    const priorityComparer = settings?.priorityComparer;
+    const min = priorityComparer
+      ? (a: Node, b: Node) => priorityComparer(a.priority, b.priority)
+      : (a: Node, b: Node) => (a.priority as number) - (b.priority as number);
+    this._log2Arity = log2Arity(settings?.arity ?? ARITY);
+    this._priorityComparer = priorityComparer;
     if (elements instanceof PriorityQueue) {
-      const self = elements as PriorityQueue<T, Node, Comparer>;
-      this._elements = [...self._elements];
+      const self = elements as PriorityQueue<T, Node, Comparer, P>;
+      // Nodes are copied so that the heaps do not share (and overwrite) each other's node indices.
+      this._elements = self._elements.map((node) => node && { ...node });
       this._size = self._size;
+      this._log2Arity = self._log2Arity;
+      this._priorityComparer = self._priorityComparer;
       this.compare = self.compare ?? min as Comparer;
+    } else if (Array.isArray(elements) && settings?.entries) {
+      this.compare = comparer as Comparer ?? min as Comparer;
+      this.enqueueRange(elements as [T, P][]);
     } else if (Array.isArray(elements)) {
-      this.compare = comparer ?? min as Comparer;
+      this.compare = comparer as Comparer ?? min as Comparer;
       for (const element of elements) {
-        this.enqueue(element, 0);
+        this.enqueue(element, 0 as P);
       }
       this._size = elements.length;
+    } else if (elements && Symbol.iterator in elements) {
+      this.compare = comparer as Comparer ?? min as Comparer;
+      this.enqueueRange(elements);
     } else if (typeof elements === "function") {
       this.compare = elements ?? min as Comparer;
     } else {
-      this.compare = comparer ?? min as Comparer;
+      this.compare = typeof comparer === "function" ? comparer : min as Comparer;
     }
     console.assert(this.compare, "No comparison function provided.");
 
     this._heapify(this._size);
   }
 
+  /**
+   * Resolves the options from the constructor arguments.
+   * @param elements - The first constructor argument.
+   * @param comparer - The second constructor argument.
+   * @param options - The third constructor argument.
+   * @returns - The options, or undefined if none were given.
+   * @protected
+   */
+  protected static resolveOptions<P>(elements: unknown, comparer: unknown, options?: IPriorityQueueOptions<P>): IPriorityQueueOptions<P> | undefined {
+    if (typeof elements === "function" || elements === undefined) {
+      return typeof comparer === "object" ? comparer as IPriorityQueueOptions<P> : options;
+    }
+    if (elements && typeof elements === "object" && !(Symbol.iterator in elements)) {
+      return elements as IPriorityQueueOptions<P>;
+    }
+    return options;
+  }
+
   /**
    * Removes the root node from the heap.
    * @returns - The removed node.
@@ -125,6 +210,8 @@ export class PriorityQueue<
    */
   protected removeRootNode(): void {
     if (this.isEmpty()) return;
+    const root = this._elements[0];
+    this._events?.emit("dequeue", { value: root.value, priority: root.priority, index: 0 });
     const lastNodeIndex = --this._size;
 
     if (lastNodeIndex > 0) {
@@ -138,25 +225,267 @@ export class PriorityQueue<
     this._elements[lastNodeIndex] = undefined as unknown as Node;
   }
 
+  /**
+   * Removes the node at the specified heap index and restores the heap.
+   * @param index - The index of the node to remove.
+   * @returns - The removed node.
+   * @protected
+   */
+  protected removeAt(index: number): Node {
+    const removedElement = this._elements[index];
+    this._events?.emit("remove", { value: removedElement.value, priority: removedElement.priority, index });
+    const newSize = --this._size;
+
+    if (index < newSize) {
+      const lastNode = this._elements[newSize];
+      if (this.compare(lastNode, removedElement) < 0) {
+        this._up(lastNode, index);
+      } else {
+        this._down(lastNode, index);
+      }
+    }
+
+    this._elements[newSize] = undefined as unknown as Node;
+    return removedElement;
+  }
+
+  /**
+   * Restores the heap after nodes were appended to the end of it.
+   * When more nodes were appended than were already in the heap, the heap is rebuilt in O(n);
+   * otherwise each appended node is moved up.
+   * @param currentSize - The number of nodes in the heap before the nodes were appended.
+   * @protected
+   */
+  protected restoreAppended(currentSize: number): void {
+    const size = this._size;
+    if (size - currentSize > currentSize) {
+      this._heapify(size);
+    } else {
+      for (let i = currentSize; i < size; i++) {
+        this._up(this._elements[i], i);
+      }
+    }
+  }
+
+  /**
+   * Creates a new node for the queue.
+   * @param value - The value of the node.
+   * @param priority - The priority of the node.
+   * @param nindex - The index of the node in the heap.
+   * @returns - The new node.
+   * @protected
+   */
+  protected createNode(value: T, priority: P, nindex: number): Node {
+    return { value, priority, nindex } as Node;
+  }
+
+  /**
+   * Loads the elements of a queue from its JSON representation, keeping their heap order.
+   * @param json - The JSON representation of the queue.
+   * @param codecs - The codecs for values and priorities that are not JSON values.
+   * @protected
+   */
+  protected restore(json: IQueueJSON, codecs?: IQueueCodecs<T, P>): void {
+    const { codec, priorityCodec } = codecs ?? {};
+    const size = json.values.length;
+    this._elements = new Array(Math.max(json.capacity, size));
+    for (let i = 0; i < size; i++) {
+      const value = codec ? codec.decode(json.values[i]) : json.values[i] as T;
+      const priority = priorityCodec ? priorityCodec.decode(json.priorities[i]) : json.priorities[i] as P;
+      this._elements[i] = this.createNode(value, priority, i);
+    }
+    this._size = size;
+  }
+
+  /**
+   * Determines whether a value can be used as a priority.
+   * Priorities must be numbers unless a priority comparer was given.
+   * @param priority - The value to check.
+   * @returns - True if the value is a valid priority, false otherwise.
+   * @protected
+   */
+  protected isPriority(priority: unknown): priority is P {
+    return this._priorityComparer ? priority !== undefined && priority !== null : typeof priority === "number";
+  }
+
+  /**
+   * Determines whether a handle refers to a node that is still in the queue.
+   * @param handle - The handle to check.
+   * @returns - True if the handle is in the queue, false otherwise.
+   * @protected
+   */
+  protected hasHandle(handle: IPriorityHandle<T, Node>): boolean {
+    const index = handle.nindex;
+    return index >= 0 && index < this._size && this._elements[index] === handle;
+  }
+
   /**
    * Adds an element to the end of the queue.
    * @param value - The value to add.
    * @param priority - The priority of the element.
    * @returns - True if the element was added, false otherwise.
    */
-  enqueue(value: T, priority: number): boolean {
-    if (typeof priority !== "number") return false;
+  enqueue(value: T, priority: P): boolean {
+    return this.enqueueWithHandle(value, priority) !== undefined;
+  }
+
+  /**
+   * Adds value and priority pairs to the queue.
+   * When the number of new elements exceeds the number of elements already in the queue,
+   * the elements are appended and the heap is rebuilt in O(n) instead of moving each element up.
+   * @param entries - The value and priority pairs to add.
+   * @returns - The number of elements that were added.
+   */
+  enqueueRange(entries: Iterable<[T, P]>): number {
+    const currentSize = this._size;
+    let size = currentSize;
+    for (const [value, priority] of entries) {
+      if (!this.isPriority(priority)) continue;
+      if (this._elements.length === size) {
+        this._grow(size + 1);
+      }
+      this._elements[size] = this.createNode(value, priority, size);
+      this._events?.emit("enqueue", { value, priority, index: size });
+      size++;
+    }
+
+    this._size = size;
+    this.restoreAppended(currentSize);
+    return size - currentSize;
+  }
+
+  /**
+   * Moves all elements of another queue into this queue and leaves the other queue empty.
+   * The nodes are appended to the heap, which is then restored like in `enqueueRange`,
+   * so melding takes O(n + m) time at worst. Handles from the other queue refer to elements of this queue.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  meld(other: PriorityQueue<T, Node, Comparer, P>): this {
+    if (other === this || other.isEmpty()) return this;
+    const currentSize = this._size;
+    const size = currentSize + other._size;
+    if (this._elements.length < size) {
+      this._grow(size);
+    }
+    for (let i = 0; i < other._size; i++) {
+      const node = other._elements[i];
+      node.nindex = currentSize + i;
+      this._elements[currentSize + i] = node;
+      this._events?.emit("enqueue", { value: node.value, priority: node.priority, index: node.nindex });
+    }
+
+    this._size = size;
+    this.restoreAppended(currentSize);
+    other.clear();
+    return this;
+  }
+
+  /**
+   * Adds an element to the end of the queue and returns a handle to it.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - A handle to the element, or undefined if the element was not added.
+   */
+  enqueueWithHandle(value: T, priority: P): IPriorityHandle<T, Node> | undefined {
+    if (!this.isPriority(priority)) return undefined;
     const currentSize = this._size;
     if (this._elements.length === currentSize) {
       this._grow(currentSize + 1);
     }
-    const element = { value, priority, nindex: currentSize } as Node;
+    const element = this.createNode(value, priority, currentSize);
+    this._events?.emit("enqueue", { value, priority, index: currentSize });
     this._size = currentSize + 1;
     this._up(element, currentSize);
 
+    return element;
+  }
+
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   */
+  enqueueDequeue(value: T, priority: P): T | undefined {
+    if (!this.isPriority(priority)) return undefined;
+    const node = this.createNode(value, priority, 0);
+    if (this.isEmpty() || this.compare(this._elements[0], node) >= 0) {
+      this._events?.emit("enqueue", { value, priority, index: 0 });
+      this._events?.emit("dequeue", { value, priority, index: 0 });
+      return value;
+    }
+
+    const root = this._elements[0];
+    this._events?.emit("enqueue", { value, priority, index: 0 });
+    this._events?.emit("dequeue", { value: root.value, priority: root.priority, index: 0 });
+    this._down(node, 0);
+    return root.value;
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * The new element replaces the front of the queue and is moved down once.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   */
+  dequeueEnqueue(value: T, priority: P): T | undefined {
+    if (!this.isPriority(priority)) return undefined;
+    if (this.isEmpty()) {
+      this.enqueue(value, priority);
+      return undefined;
+    }
+
+    const root = this._elements[0];
+    this._events?.emit("dequeue", { value: root.value, priority: root.priority, index: 0 });
+    this._events?.emit("enqueue", { value, priority, index: 0 });
+    this._down(this.createNode(value, priority, 0), 0);
+    return root.value;
+  }
+
+  /**
+   * Changes the priority of the element referenced by a handle in O(log n).
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @param priority - The new priority of the element.
+   * @returns - True if the priority was updated, false if the handle is no longer in the queue.
+   */
+  updatePriority(handle: IPriorityHandle<T, Node>, priority: P): boolean {
+    if (!this.isPriority(priority) || !this.hasHandle(handle)) return false;
+    const node = handle as Node;
+    const previous = { ...node };
+    node.priority = priority;
+
+    if (this.compare(node, previous) < 0) {
+      this._up(node, node.nindex);
+    } else {
+      this._down(node, node.nindex);
+    }
+
     return true;
   }
 
+  /**
+   * Removes the element referenced by a handle in O(log n).
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns - True if the element was removed, false if the handle is no longer in the queue.
+   */
+  removeHandle(handle: IPriorityHandle<T, Node>): boolean {
+    if (!this.hasHandle(handle)) return false;
+    this.removeAt(handle.nindex);
+    return true;
+  }
+
+  /**
+   * Returns the priority of the element referenced by a handle.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns - The priority of the element, or undefined if the handle is no longer in the queue.
+   */
+  priorityOf(handle: IPriorityHandle<T, Node>): P | undefined {
+    return this.hasHandle(handle) ? handle.priority : undefined;
+  }
+
   /**
    * Removes and returns the element at the front of the queue.
    * @returns - The element at the front of the queue, or undefined if the queue is empty.
@@ -186,10 +515,43 @@ export class PriorityQueue<
    * Removes all elements from the queue.
    */
   clear(): void {
+    this._events?.emit("clear", { count: this._size });
     this._elements = [];
     this._size = 0;
   }
 
+  /**
+   * Adds a listener for an event of the queue. Queues without listeners do not create events.
+   * Listeners are not copied by `clone` and must not change the queue while it emits an event.
+   * @param type - The name of the event.
+   * @param listener - The function to call with the affected value, priority and heap index, or with the
+   * number of removed elements for `clear` and the new capacity for `grow`.
+   * @returns - This queue.
+   *
+   * @example
+   * ```typescript
+   * queue.on("dequeue", ({ value, priority }) => console.log(`Processing ${value} (${priority})`));
+   * ```
+   */
+  on<K extends QueueEventType>(type: K, listener: IQueueListener<IQueueEventMap<T, P>[K]>): this {
+    this._events ??= new QueueEmitter<T, P>();
+    this._events.on(type, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener for an event of the queue.
+   * @param type - The name of the event.
+   * @param listener - The function that was added with `on`.
+   * @returns - This queue.
+   */
+  off<K extends QueueEventType>(type: K, listener: IQueueListener<IQueueEventMap<T, P>[K]>): this {
+    if (this._events?.off(type, listener) && this._events.count === 0) {
+      this._events = undefined;
+    }
+    return this;
+  }
+
   /**
    * The number of elements in the queue.
    * @returns - The number of elements in the queue.
@@ -199,6 +561,15 @@ export class PriorityQueue<
     return this._size;
   }
 
+  /**
+   * The number of children each node in the heap has.
+   * @returns - The arity of the heap.
+   * @readonly
+   */
+  get arity(): number {
+    return 1 << this._log2Arity;
+  }
+
   /**
    * The elements in the queue returned in an unordered manner.
    * @returns - The elements in the queue.
@@ -225,14 +596,22 @@ export class PriorityQueue<
    * @returns - An array of elements in the queue.
    */
   toArray(): T[] {
-    const clone = this.clone();
     const result: T[] = [];
-    while (!clone.isEmpty()) {
-      result.push(clone.dequeue() as T);
+    for (const value of this) {
+      result.push(value);
     }
     return result;
   }
 
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * Reading the first k nodes takes O(k log k) time.
+   * @returns - A generator of nodes in priority order.
+   */
+  orderedNodes(): Generator<Node, void, undefined> {
+    return ordered((index) => this._elements[index], this._size, this._log2Arity)(this.compare);
+  }
+
   /**
    * Returns true if the queue is empty, false otherwise.
    * @returns - True if the queue is empty, false otherwise.
@@ -251,34 +630,21 @@ export class PriorityQueue<
     const index = this._elements.findIndex((node) => node && comparer(node.value, value));
     if (index === -1) return false;
 
-    const removedElement = this._elements[index];
-    const newSize = --this._size;
-
-    if (index < newSize) {
-      const lastNode = this._elements[newSize];
-      if (this.compare(lastNode, removedElement) < 0) {
-        this._up(lastNode, index);
-      } else {
-        this._down(lastNode, index);
-      }
-    }
-
-    this._elements.pop();
+    this.removeAt(index);
     return true;
   }
   /**
    * Returns the index of the first occurrence of a specific element in the queue.
    * @param value - The element to search for.
-   * @param dequeue - If true, searches for the element by dequeuing elements from a cloned queue, preserving the original queue's order.
+   * @param dequeue - If true, searches for the element in priority order, preserving the original queue's order.
    * @param comparer - An optional equality comparison function.
    * @returns - The index of the element if it exists, or -1 if the element is not found.
    */
   indexOf(value: T, dequeue?: boolean, comparer: IEqualityComparator<T> = (a, b) => a === b): number {
     if (!dequeue) return this._elements.findIndex((node: Node | undefined) => node && comparer(node.value, value));
-    const clone = this.clone();
     let index = 0;
-    while (!clone.isEmpty()) {
-      if (comparer(clone.dequeue() as T, value)) return index;
+    for (const element of this) {
+      if (comparer(element, value)) return index;
       index++;
     }
 
@@ -288,26 +654,34 @@ export class PriorityQueue<
   /**
    * Returns the priority of the element at the specified index.
    * @param index - The index of the element.
-   * @param dequeue - If true, retrieves the priority by dequeuing elements from a cloned queue, preserving the original queue's order.
-   * @returns - The priority of the element if it exists, or `Number.MAX_VALUE` if the index is out of range.
+   * @param dequeue - If true, retrieves the priority of the element at the index in priority order, preserving the original queue's order.
+   * @returns - The priority of the element if it exists. If the index is out of range, `Number.MAX_VALUE`
+   * when the queue has no `priorityComparer`, or undefined when it has one.
    */
-  priorityAt(index: number, dequeue = false): number {
-    if (index >= this._size) return Number.MAX_VALUE;
+  priorityAt(index: number, dequeue = false): P | undefined {
+    if (index >= this._size) return this.missingPriority();
     if (!dequeue || index === 0) return this._elements[index].priority;
-    const clone = this.clone();
     let i = index;
-    // Once we dequeue, we don't really know the index of the element
-    // so we will have to dequeue until we find the element
-    while (!clone.isEmpty()) {
-      const node = clone.pop();
-      if (i-- === 0) return node?.priority ?? Number.MAX_VALUE;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
     }
 
-    return Number.MAX_VALUE;
+    return this.missingPriority();
+  }
+
+  /**
+   * Returns the priority reported for an index that is out of range.
+   * Queues without a `priorityComparer` only hold number priorities, so `Number.MAX_VALUE` is a valid priority for them.
+   * @returns - `Number.MAX_VALUE` when the queue has no `priorityComparer`, or undefined when it has one.
+   * @protected
+   */
+  protected missingPriority(): P | undefined {
+    return this._priorityComparer ? undefined : Number.MAX_VALUE as P;
   }
 
   /**
    * Creates a shallow copy of the priority queue.
+   * Handles from the original queue do not refer to elements of the copy.
    * @returns - A new priority queue instance with the same elements.
    */
   clone(): this {
@@ -321,12 +695,33 @@ export class PriorityQueue<
   toString(): string {
     return this.toArray().join(", ");
   }
+
+  /**
+   * Converts the queue to its JSON representation, which `fromJSON` restores.
+   * `JSON.stringify` calls this method without codecs, so values and priorities must then be JSON values.
+   * @param codecs - (Optional) The codecs for values and priorities that are not JSON values.
+   * @returns - The JSON representation of the queue.
+   */
+  toJSON(codecs?: IQueueCodecs<T, P>): IQueueJSON {
+    // JSON.stringify passes the property key of the queue instead of codecs.
+    const { codec, priorityCodec } = typeof codecs === "object" ? codecs : {} as IQueueCodecs<T, P>;
+    const values: unknown[] = [];
+    const priorities: unknown[] = [];
+    for (let i = 0; i < this._size; i++) {
+      const node = this._elements[i];
+      values.push(codec ? codec.encode(node.value) : node.value);
+      priorities.push(priorityCodec ? priorityCodec.encode(node.priority) : node.priority);
+    }
+    return { arity: this.arity, capacity: this._elements.length, values, priorities };
+  }
   /**
    * Iterates over the queue in priority order.
    * @returns - An iterator for the queue.
    */
-  [Symbol.iterator](): Iterator<T> {
-    return this.toArray()[Symbol.iterator]();
+  *[Symbol.iterator](): Iterator<T> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
   }
 
   /**
@@ -336,24 +731,29 @@ export class PriorityQueue<
    */
   static from<
     T,
-    Node extends IPriorityNode<T>,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Node extends IPriorityNode<T, any>,
     Comparer extends IComparer<Node>,
-    Self extends typeof PriorityQueue<T, Node, Comparer>
+    P,
+    Self extends typeof PriorityQueue<T, Node, Comparer, P>
   >(
     this: Self,
-    queue: PriorityQueue<T, Node, Comparer>,
+    queue: PriorityQueue<T, Node, Comparer, P>,
     comparer?: Comparer
   ): InstanceType<Self>;
   /**
    * Creates a new instance of a priority queue from an array of elements.
+   * Arrays of value and priority pairs are treated as elements too; use `fromEntries` for them.
    * @param elements - The elements to add to the queue.
    * @param comparer - An optional comparison function.
    */
   static from<
     T,
-    Node extends IPriorityNode<T>,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Node extends IPriorityNode<T, any>,
     Comparer extends IComparer<Node>,
-    Self extends typeof PriorityQueue<T, Node, Comparer>
+    P,
+    Self extends typeof PriorityQueue<T, Node, Comparer, P>
   >(
     this: Self,
     elements: T[],
@@ -367,15 +767,71 @@ export class PriorityQueue<
    */
   static from<
     T,
-    Node extends IPriorityNode<T>,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Node extends IPriorityNode<T, any>,
     Comparer extends IComparer<Node>,
-    Self extends typeof PriorityQueue<T, Node, Comparer>
+    P,
+    Self extends typeof PriorityQueue<T, Node, Comparer, P>
   >(
-    elements?: T[] | PriorityQueue<T, Node, Comparer>,
+    elements?: T[] | PriorityQueue<T, Node, Comparer, P>,
     comparer?: Comparer
   ): InstanceType<Self> {
     // biome-ignore lint/complexity/noThisInStatic: <explanation>
     // biome-ignore lint/suspicious/noExplicitAny: <explanation>
     return new this(elements as any, comparer) as InstanceType<Self>;
   }
+
+  /**
+   * Restores a priority queue from its JSON representation.
+   * The elements keep their heap order, and the heap is rebuilt in O(n) in case the comparer changed.
+   * @param json - The JSON representation of the queue, or a string that contains it.
+   * @param options - (Optional) The comparer, codecs and options of the queue. The arity defaults to the stored arity.
+   * @returns - A new priority queue instance.
+   */
+  static fromJSON<
+    T,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Node extends IPriorityNode<T, any> = IPriorityNode<T>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    P = Node["priority"],
+    Self extends typeof PriorityQueue<T, Node, Comparer, P> = typeof PriorityQueue<T, Node, Comparer, P>
+  >(
+    this: Self,
+    json: IQueueJSON | string,
+    options?: IQueueJSONOptions<T, P, Comparer>
+  ): InstanceType<Self> {
+    const data = parseQueueJSON(json);
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const queue = new this(
+      options?.comparer as Comparer,
+      { ...options, arity: options?.arity ?? data.arity }
+    ) as InstanceType<Self>;
+    queue.restore(data, options);
+    queue._heapify(queue._size);
+    return queue;
+  }
+
+  /**
+   * Creates a new instance of a priority queue from value and priority pairs in O(n).
+   * @param entries - The value and priority pairs to add to the queue.
+   * @param comparer - An optional comparison function.
+   * @returns - A new priority queue instance.
+   */
+  static fromEntries<
+    T,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Node extends IPriorityNode<T, any>,
+    Comparer extends IComparer<Node>,
+    P,
+    Self extends typeof PriorityQueue<T, Node, Comparer, P>
+  >(
+    this: Self,
+    entries: Iterable<[T, P]>,
+    comparer?: Comparer
+  ): InstanceType<Self> {
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const queue = new this(comparer as Comparer) as InstanceType<Self>;
+    queue.enqueueRange(entries);
+    return queue;
+  }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { parent, child, up, upWithPriorities, down, downWithPriorities, heapify, heapifyWithPriorities, growTyped } from './primitive';
+import { parent, child, log2Arity, up, upWithPriorities, down, downWithPriorities, heapify, heapifyWithPriorities, ordered, isMinLevel, minMaxSift, minMaxHeapify, minMaxBack, radixBucket, RADIX_BUCKETS, growTyped, MAX_ARITY } from './primitive';
 import { describe, it, expect } from 'vitest';
 
 describe('Primitive Functions', () => {
@@ -14,6 +14,35 @@ describe('Primitive Functions', () => {
     expect(child(1)).toBe(5);
   });
 
+  it('should return correct parent and child indices for other arities', () => {
+    expect(parent(1, 1)).toBe(0);
+    expect(parent(4, 1)).toBe(1);
+    expect(parent(9, 3)).toBe(1);
+    expect(child(1, 0, 1)).toBe(3);
+    expect(child(1, 2, 3)).toBe(11);
+  });
+
+  it('should calculate the log base 2 of an arity', () => {
+    expect(log2Arity(2)).toBe(1);
+    expect(log2Arity(16)).toBe(4);
+    expect(() => log2Arity(3)).toThrow();
+    expect(() => log2Arity(1)).toThrow();
+    expect(log2Arity(MAX_ARITY)).toBe(16);
+    expect(() => log2Arity(2 * MAX_ARITY)).toThrow("[pq-ts] Arity must not be greater than 65536");
+    expect(() => log2Arity(2 ** 31)).toThrow();
+    expect(() => log2Arity(2 ** 32)).toThrow();
+    expect(() => log2Arity(2 ** 33)).toThrow();
+  });
+
+  it('should heapify a binary heap', () => {
+    const priorities = [9, 8, 7, 6, 5, 4, 3, 2, 1];
+    const heap = priorities.map((priority, i) => ({ value: i, priority, nindex: i }));
+    heapify(heap, heap.length, 1)((a, b) => a.priority - b.priority);
+    for (let i = 1; i < heap.length; i++) {
+      expect(heap[i].priority).toBeGreaterThanOrEqual(heap[parent(i, 1)].priority);
+    }
+  });
+
   it('should move element up in a 4-ary heap', () => {
     const heap = [{ value: 4, priority: 4, nindex: 0 }, { value: 3, priority: 3, nindex: 1 }, { value: 2, priority: 2, nindex: 2 }, { value: 1, priority: 1, nindex: 3 }];
     up(heap)(heap[3], 3, (a, b) => a.priority - b.priority);
@@ -40,6 +69,15 @@ describe('Primitive Functions', () => {
     expect(heap[0]).toBe(1);
   });
 
+  it('should update positions when moving element up in a 4-ary heap with priorities', () => {
+    const heap = [4, 3, 2, 1];
+    const priorities = [4, 3, 2, 1];
+    const positions = [-1, 3, 2, 1, 0];
+    upWithPriorities(heap, priorities, undefined, positions)({ value: 1, priority: 1, nindex: 3 }, 3, (a, b) => a.priority - b.priority);
+    expect(positions[1]).toBe(0);
+    expect(positions[4]).toBe(3);
+  });
+
   it('should move element down in a 4-ary heap', () => {
     const heap = [{ value: 1, priority: 1, nindex: 0 }, { value: 4, priority: 4, nindex: 1 }, { value: 3, priority: 3, nindex: 2 }, { value: 2, priority: 2, nindex: 3 }];
     down(heap, heap.length)(heap[0], 0, (a, b) => a.priority - b.priority);
@@ -67,6 +105,16 @@ describe('Primitive Functions', () => {
     expect(heap[0]).toBe(1);
   });
 
+  it('should update positions when moving element down in a 4-ary heap with priorities', () => {
+    const heap = [4, 1, 3, 2];
+    const priorities = [4, 1, 3, 2];
+    const positions = [-1, 1, 3, 2, 0];
+    downWithPriorities(heap, priorities, heap.length, undefined, positions)({ value: 4, priority: 4, nindex: 0 }, 0, (a, b) => a.priority - b.priority);
+    expect(heap[0]).toBe(1);
+    expect(positions[1]).toBe(0);
+    expect(positions[4]).toBe(1);
+  });
+
   it('should heapify an array', () => {
     const heap = [{ value: 4, priority: 4, nindex: 0 }, { value: 3, priority: 3, nindex: 1 }, { value: 2, priority: 2, nindex: 2 }, { value: 1, priority: 1, nindex: 3 }];
     heapify(heap, heap.length)((a, b) => a.priority - b.priority);
@@ -88,6 +136,56 @@ describe('Primitive Functions', () => {
     expect(heap[0]).toBe(1);
   });
 
+  it('should iterate over a heap in priority order', () => {
+    const priorities = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5, 95, 15, 85, 25];
+    const heap = priorities.map((priority, i) => ({ value: i, priority, nindex: i }));
+    heapify(heap, heap.length)((a, b) => a.priority - b.priority);
+    const snapshot = heap.map((node) => node.value);
+
+    const result = [...ordered((i) => heap[i], heap.length)((a, b) => a.priority - b.priority)].map((node) => node.priority);
+    expect(result).toEqual([...priorities].sort((a, b) => a - b));
+    expect(heap.map((node) => node.value)).toEqual(snapshot);
+  });
+
+  it('should iterate over an empty heap', () => {
+    expect([...ordered((i) => i, 0)((a, b) => a - b)]).toEqual([]);
+  });
+
+  it('should identify the levels of a min-max heap', () => {
+    expect([0, 1, 2, 3, 6, 7, 14, 15].map(isMinLevel)).toEqual([true, false, false, true, true, false, false, true]);
+  });
+
+  it('should build and maintain a min-max heap', () => {
+    const heap = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5, 95, 15, 85, 25];
+    const compareAt = (a: number, b: number) => heap[a] - heap[b];
+    const swap = (a: number, b: number) => { [heap[a], heap[b]] = [heap[b], heap[a]]; };
+    minMaxHeapify(compareAt, swap, heap.length)();
+    expect(heap[0]).toBe(5);
+    expect(heap[minMaxBack(compareAt, heap.length)]).toBe(95);
+
+    heap.push(1);
+    minMaxSift(compareAt, swap, heap.length)(heap.length - 1);
+    heap.push(99);
+    minMaxSift(compareAt, swap, heap.length)(heap.length - 1);
+    expect(heap[0]).toBe(1);
+    expect(heap[minMaxBack(compareAt, heap.length)]).toBe(99);
+  });
+
+  it('should find the back of small min-max heaps', () => {
+    expect(minMaxBack((a, b) => a - b, 0)).toBe(-1);
+    expect(minMaxBack((a, b) => a - b, 1)).toBe(0);
+    expect(minMaxBack((a, b) => a - b, 2)).toBe(1);
+  });
+
+  it('should find the radix bucket of a priority', () => {
+    expect(radixBucket(5, 5)).toBe(0);
+    expect(radixBucket(4, 5 & ~1)).toBe(0);
+    expect(radixBucket(6, 5)).toBe(2);
+    expect(radixBucket(2 ** 32, 0)).toBe(33);
+    expect(radixBucket(2 ** 32 + 1, 2 ** 32)).toBe(1);
+    expect(radixBucket(Number.MAX_SAFE_INTEGER, 0)).toBe(RADIX_BUCKETS - 1);
+  });
+
   describe('growTyped', () => {
     it('should grow a Uint8Array', () => {
       const arr = new Uint8Array([1, 2, 3]);
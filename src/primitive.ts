@@ -5,11 +5,13 @@
 //  * https://github.com/dotnet/runtime/blob/main/src/libraries/System.Collections/src/System/Collections/Generic/PriorityQueue.cs
 
 /**
- * Priority Queue primitives for 4-ary heap operations.
+ * Priority Queue primitives for d-ary heap operations (4-ary by default).
  * Implements three variants:
  * 1. Basic: Uses node objects with embedded priorities
  * 2. Typed: Uses separate priority array for efficiency
  * 3. Stable: Maintains insertion order (FIFO) for equal priorities
+ * Min-max heap primitives access nodes by index and work with any of the above.
+ * Radix heap primitives map monotone integer priorities to buckets.
  * 
  * @module PriorityQueue
  */
@@ -17,11 +19,13 @@ import type {
   IComparer,
   Indexable,
   IPriorityNode,
-  TypedArray, TypedArrayConstructor
+  TypedStorage,
+  TypedValue,
+  IQueueJSON
 } from "./types.ts";
 
 /**
- * The arity of the heap. This is the number of children each node has.
+ * The default arity of the heap. This is the number of children each node has.
  */
 export const ARITY = 4;
 /**
@@ -29,21 +33,50 @@ export const ARITY = 4;
  * For example, with an arity of 4, log2(4) = 2, so we can use bit shifting to divide or multiply by 4.
  */
 export const LOG2_ARITY = 2;
+/**
+ * The largest supported arity. Indices are shifted by the log base 2 of the arity as 32-bit integers,
+ * so wider heaps would overflow.
+ */
+export const MAX_ARITY = 2 ** 16;
+
+/**
+ * Calculates the log base 2 of a heap arity.
+ *
+ * @param arity - The number of children each node has. Must be a power of two from 2 to `MAX_ARITY`.
+ * @returns The log base 2 of the arity
+ * @throws If the arity is not a power of two from 2 to `MAX_ARITY`
+ *
+ * @example
+ * ```typescript
+ * log2Arity(8); // 3
+ * ```
+ */
+export const log2Arity = (arity: number): number => {
+  if (!Number.isInteger(arity) || arity < 2 || (arity & (arity - 1)) !== 0) {
+    throw new Error("[pq-ts] Arity must be a power of two greater than one.");
+  }
+  if (arity > MAX_ARITY) {
+    throw new Error(`[pq-ts] Arity must not be greater than ${MAX_ARITY}, but got ${arity}.`);
+  }
+  return Math.log2(arity);
+}
 
 /**
  * Calculates the parent index in a complete tree for a given node index.
  * Uses bit shifting to efficiently compute floor((index - 1) / ARITY).
  * 
  * @param index - The index of the current node (zero-based)
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @returns The index of the parent node
  */
-export const parent = (index: number): number => (index - 1) >> LOG2_ARITY;
+export const parent = (index: number, log2 = LOG2_ARITY): number => (index - 1) >> log2;
 
 /**
  * Calculates the index of a child node in a D-ary heap.
  * 
  * @param index - The index of the parent node
  * @param i - The child offset (0 to ARITY-1). Defaults to 0
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @returns The index of the child node
  * 
  * @remarks
@@ -52,13 +85,14 @@ export const parent = (index: number): number => (index - 1) >> LOG2_ARITY;
  * giving us the first child index, then we add the offset and 1 for
  * the specific child position.
  */
-export const child = (index: number, i = 0): number => (index << LOG2_ARITY) + i + 1;
+export const child = (index: number, i = 0, log2 = LOG2_ARITY): number => (index << log2) + i + 1;
 
 /**
- * Moves an element up in a 4-ary heap to maintain heap properties.
+ * Moves an element up in a d-ary heap to maintain heap properties.
  * 
  * @template T - The type of elements in the heap
  * @param nodes - The array representing the heap
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @param node - The node to move up
  * @param index - The starting index of the element to move up
  * @param comparer - A function that compares two elements, returning:
@@ -73,13 +107,15 @@ export const child = (index: number, i = 0): number => (index << LOG2_ARITY) + i
  * ```
  * 
  * @remarks
- * This implementation specifically works with a 4-ary heap structure,
- * where each node has up to four children. The function repeatedly
+ * This implementation works with a d-ary heap structure (4-ary by default),
+ * where each node has up to `2 ** log2` children. The function repeatedly
  * compares an element with its parent and swaps them if necessary
- * until the heap property is restored.
+ * until the heap property is restored. The `nindex` of every moved node
+ * is updated to its new position.
  */
-export const up = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
+export const up = <T, P extends IPriorityNode<T, unknown> = IPriorityNode<T>>(
   nodes: Indexable<P>,
+  log2 = LOG2_ARITY
 ) => {
   return (
     node: P,
@@ -88,24 +124,29 @@ export const up = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
   ): void => {
     let nodeIndex = index;
     while (nodeIndex > 0) {
-      const parentIndex = parent(nodeIndex);
+      const parentIndex = parent(nodeIndex, log2);
       const parentNode = nodes[parentIndex] as P;
 
       if (comparer(node, parentNode) >= 0) break;
 
+      parentNode.nindex = nodeIndex;
       nodes[nodeIndex] = parentNode;
       nodeIndex = parentIndex;
     }
 
+    node.nindex = nodeIndex;
     nodes[nodeIndex] = node;
   }
 }
 
 /**
- * Moves an element up in a 4-ary heap with separate priority array to maintain heap properties.
+ * Moves an element up in a d-ary heap with separate priority array to maintain heap properties.
  * 
  * @param nodes - The array representing the heap
  * @param priorities - The array representing the priorities
+ * @param indices - An optional array of stability indices
+ * @param positions - An optional map from value to heap index, updated for every moved value
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @param node - The node to move up
  * @param index - The starting index of the element to move up
  * @param comparer - A function that compares two elements, returning:
@@ -114,18 +155,20 @@ export const up = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
  *                    - zero if elements are equal
  */
 export const upWithPriorities = (
-  nodes: Indexable<number>,
-  priorities: Indexable<number>,
-  indices?: Indexable<bigint>
+  nodes: Indexable<TypedValue>,
+  priorities: Indexable<TypedValue>,
+  indices?: Indexable<bigint>,
+  positions?: Indexable<number>,
+  log2 = LOG2_ARITY
 ) => {
-  return <P extends IPriorityNode<number> = IPriorityNode<number>>(
+  return <P extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>>(
     node: P,
     index: number,
     comparer: IComparer<P>
   ): void => {
     let nodeIndex = index;
     while (nodeIndex > 0) {
-      const parentIndex = parent(nodeIndex);
+      const parentIndex = parent(nodeIndex, log2);
       const parentNode = {
         value: nodes[parentIndex],
         priority: priorities[parentIndex],
@@ -140,11 +183,20 @@ export const upWithPriorities = (
 
       nodes[nodeIndex] = parentNode.value;
       priorities[nodeIndex] = parentNode.priority;
+      if (indices) {
+        indices[nodeIndex] = indices[parentIndex];
+      }
+      if (positions) {
+        positions[parentNode.value as number] = nodeIndex;
+      }
       nodeIndex = parentNode.nindex;
     }
 
     nodes[nodeIndex] = node.value;
     priorities[nodeIndex] = node.priority;
+    if (positions) {
+      positions[node.value as number] = nodeIndex;
+    }
     if (indices && 'sindex' in node) {
       indices[nodeIndex] = node.sindex as bigint;
     }
@@ -152,12 +204,13 @@ export const upWithPriorities = (
 }
 
 /**
- * Moves a node down in a 4-ary heap to maintain the heap property.
+ * Moves a node down in a d-ary heap to maintain the heap property.
  * The heap property ensures that each parent node has a priority less than or equal to its children.
  * 
  * @template T - The type of elements in the heap
  * @param nodes - The array representing the heap
  * @param size - The size of the heap
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @param node - The node to move down
  * @param index - The starting index of the node to move down
  * @param comparer - A function that compares two elements and returns a number:
@@ -172,9 +225,10 @@ export const upWithPriorities = (
  * // minHeap is now [1, 4, 3, 7, 8, 9, 10]
  * ```
  */
-export const down = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
+export const down = <T, P extends IPriorityNode<T, unknown> = IPriorityNode<T>>(
   nodes: Indexable<P>,
-  size: number
+  size: number,
+  log2 = LOG2_ARITY
 ) => {
   return (
     node: P,
@@ -182,20 +236,18 @@ export const down = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
     comparer: IComparer<P>
   ): void => {
     let nodeIndex = index;
-    const nodeValue = node.value;
-    const nodePriority = node.priority;
 
     while (true) {
-      const childIndex = child(nodeIndex);
+      const childIndex = child(nodeIndex, 0, log2);
       if (childIndex >= size) break;
 
       // Find the minimum priority child
       let minChildIndex = childIndex;
-      let minChild = { ...nodes[childIndex] };
+      let minChild = nodes[childIndex];
 
-      const childIndexUpperBound = Math.min(childIndex + ARITY, size);
+      const childIndexUpperBound = Math.min(childIndex + (1 << log2), size);
       for (let i = childIndex + 1; i < childIndexUpperBound; i++) {
-        const currentChild = { ...nodes[i] };
+        const currentChild = nodes[i];
         if (comparer(currentChild, minChild) < 0) {
           minChildIndex = i;
           minChild = currentChild;
@@ -203,25 +255,31 @@ export const down = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
       }
 
       // If the current node is in the correct position, stop.
-      if (comparer({ ...node, value: nodeValue, priority: nodePriority, nindex: nodeIndex }, minChild) <= 0) {
+      if (comparer(node, minChild) <= 0) {
         break;
       }
 
-      // Swap values
-      nodes[nodeIndex] = { ...minChild, nindex: minChildIndex };
+      // Move the child up. Nodes are moved rather than copied so that
+      // references held by callers (handles) keep pointing at live nodes.
+      minChild.nindex = nodeIndex;
+      nodes[nodeIndex] = minChild;
       nodeIndex = minChildIndex;
     }
 
-    nodes[nodeIndex] = { ...node, value: nodeValue, priority: nodePriority, nindex: nodeIndex };
+    node.nindex = nodeIndex;
+    nodes[nodeIndex] = node;
   }
 }
 
 /**
- * Moves a node down in a 4-ary heap with separate priority array to maintain the heap property.
+ * Moves a node down in a d-ary heap with separate priority array to maintain the heap property.
  * 
  * @param nodes - The array representing the heap
  * @param priorities - The array representing the priorities
  * @param size - The size of the heap
+ * @param indices - An optional array of stability indices
+ * @param positions - An optional map from value to heap index, updated for every moved value
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @param node - The node to move down
  * @param index - The starting index of the node to move down
  * @param comparer - A function that compares two elements and returns a number:
@@ -230,10 +288,12 @@ export const down = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
  *                    positive if first > second
  */
 export const downWithPriorities = (
-  nodes: Indexable<number>,
-  priorities: Indexable<number>,
+  nodes: Indexable<TypedValue>,
+  priorities: Indexable<TypedValue>,
   size: number,
-  indices?: Indexable<bigint>
+  indices?: Indexable<bigint>,
+  positions?: Indexable<number>,
+  log2 = LOG2_ARITY
 ) => {
   const swap = (elements: Indexable<unknown> | undefined, i: number, j: number) => {
     if (!elements) return;
@@ -241,7 +301,7 @@ export const downWithPriorities = (
     elements[i] = elements[j];
     elements[j] = temp;
   }
-  return <P extends IPriorityNode<number> = IPriorityNode<number>>(
+  return <P extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>>(
     node: P,
     index: number,
     comparer: IComparer<P>
@@ -249,10 +309,10 @@ export const downWithPriorities = (
     let nodeIndex = index;
     const nodeValue = node.value;
     const nodePriority = node.priority;
-    const nodeSIndex = indices ? indices[index] : undefined;
+    const nodeSIndex = indices ? ('sindex' in node ? node.sindex as bigint : indices[index]) : undefined;
 
     while (true) {
-      const childIndex = child(nodeIndex);
+      const childIndex = child(nodeIndex, 0, log2);
       if (childIndex >= size) break;
 
       // Find the minimum priority child
@@ -261,7 +321,7 @@ export const downWithPriorities = (
       let minChildPriority = priorities[childIndex];
       let minChildSIndex = indices ? indices[childIndex] : undefined;
 
-      const childIndexUpperBound = Math.min(childIndex + ARITY, size);
+      const childIndexUpperBound = Math.min(childIndex + (1 << log2), size);
       for (let i = childIndex + 1; i < childIndexUpperBound; i++) {
         const currentChildValue = nodes[i];
         const currentChildPriority = priorities[i];
@@ -298,11 +358,17 @@ export const downWithPriorities = (
       if (indices && minChildSIndex !== undefined) {
         indices[nodeIndex] = minChildSIndex;
       }
+      if (positions) {
+        positions[minChildValue as number] = nodeIndex;
+      }
       nodeIndex = minChildIndex;
     }
 
     nodes[nodeIndex] = nodeValue;
     priorities[nodeIndex] = nodePriority;
+    if (positions) {
+      positions[nodeValue as number] = nodeIndex;
+    }
     if (indices && nodeSIndex !== undefined) {
       indices[nodeIndex] = nodeSIndex;
     }
@@ -316,6 +382,7 @@ export const downWithPriorities = (
  * @template T - The type of elements in the heap
  * @param nodes - The array to be converted into a heap
  * @param size - The number of elements in the heap
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @param comparer - A function that compares two elements and returns:
  *   - A negative number if a should be higher in the heap than b
  *   - Zero if a and b are equal
@@ -327,17 +394,18 @@ export const downWithPriorities = (
  * heapify(numbers, numbers.length)((a, b) => a - b); // Creates a min-heap
  * // numbers is now arranged as a heap
  */
-export const heapify = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
+export const heapify = <T, P extends IPriorityNode<T, unknown> = IPriorityNode<T>>(
   nodes: Indexable<P>,
-  size: number
+  size: number,
+  log2 = LOG2_ARITY
 ) => {
   return (
     comparer: IComparer<P>
   ): void => {
-    const lastParentWithChildren = parent(size - 1);
+    const lastParentWithChildren = parent(size - 1, log2);
     for (let i = lastParentWithChildren; i >= 0; --i) {
       const node = nodes[i];
-      down(nodes, size)(node, i, comparer);
+      down(nodes, size, log2)(node, i, comparer);
     }
   }
 }
@@ -349,6 +417,9 @@ export const heapify = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
  * @param nodes - The array to be converted into a heap
  * @param priorities - The array representing the priorities
  * @param size - The number of elements in the heap
+ * @param indices - An optional array of stability indices
+ * @param positions - An optional map from value to heap index, updated for every moved value
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
  * @param comparer - A function that compares two elements and returns:
  *   - A negative number if a should be higher in the heap than b
  *   - Zero if a and b are equal
@@ -356,21 +427,348 @@ export const heapify = <T, P extends IPriorityNode<T> = IPriorityNode<T>>(
  * @returns {void}
  */
 export const heapifyWithPriorities = (
-  nodes: Indexable<number>,
-  priorities: Indexable<number>,
+  nodes: Indexable<TypedValue>,
+  priorities: Indexable<TypedValue>,
   size: number,
-  indices?: Indexable<bigint>
+  indices?: Indexable<bigint>,
+  positions?: Indexable<number>,
+  log2 = LOG2_ARITY
 ) => {
-  return <P extends IPriorityNode<number> = IPriorityNode<number>>(
+  return <P extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>>(
     comparer: IComparer<P>,
   ) => {
-    const lastParentWithChildren = parent(size - 1);
+    const lastParentWithChildren = parent(size - 1, log2);
     for (let i = lastParentWithChildren; i >= 0; --i) {
       const node: P = { value: nodes[i], priority: priorities[i], nindex: i } as const as P;
-      downWithPriorities(nodes, priorities, size, indices)(node, i, comparer);
+      downWithPriorities(nodes, priorities, size, indices, positions, log2)(node, i, comparer);
     }
   }
 }
+/**
+ * Iterates over the nodes of a heap in priority order without modifying the heap.
+ * A small binary heap of indices (the frontier) holds the children of the nodes visited so far,
+ * so reading the first k nodes takes O(k log k) time and O(k) memory.
+ *
+ * @template P - The type of nodes in the heap
+ * @param read - A function that returns the node at a heap index
+ * @param size - The number of elements in the heap
+ * @param log2 - The log base 2 of the heap's arity. Defaults to LOG2_ARITY
+ * @param comparer - A function that compares two nodes and returns:
+ *   - A negative number if a should be higher in the heap than b
+ *   - Zero if a and b are equal
+ *   - A positive number if a should be lower in the heap than b
+ * @returns A generator of nodes in priority order
+ *
+ * @remarks The heap must not be modified while the generator is in use.
+ *
+ * @example
+ * ```typescript
+ * const heap = [{ value: 1, priority: 1, nindex: 0 }, { value: 3, priority: 3, nindex: 1 }, { value: 2, priority: 2, nindex: 2 }];
+ * const values = [...ordered((i) => heap[i], heap.length)((a, b) => a.priority - b.priority)].map((node) => node.value);
+ * // values is [1, 2, 3]
+ * ```
+ */
+export const ordered = <P>(
+  read: (index: number) => P,
+  size: number,
+  log2 = LOG2_ARITY
+) => {
+  return function* (
+    comparer: IComparer<P>
+  ): Generator<P, void, undefined> {
+    const indices: number[] = [];
+    const frontier: P[] = [];
+
+    const push = (index: number) => {
+      const node = read(index);
+      let i = indices.length;
+      while (i > 0) {
+        const parentIndex = (i - 1) >> 1;
+        if (comparer(node, frontier[parentIndex]) >= 0) break;
+        indices[i] = indices[parentIndex];
+        frontier[i] = frontier[parentIndex];
+        i = parentIndex;
+      }
+      indices[i] = index;
+      frontier[i] = node;
+    }
+
+    const shift = () => {
+      const lastIndex = indices.pop() as number;
+      const lastNode = frontier.pop() as P;
+      const length = indices.length;
+      if (length === 0) return;
+
+      let i = 0;
+      while (true) {
+        let minChild = (i << 1) + 1;
+        if (minChild >= length) break;
+        if (minChild + 1 < length && comparer(frontier[minChild + 1], frontier[minChild]) < 0) {
+          minChild++;
+        }
+        if (comparer(lastNode, frontier[minChild]) <= 0) break;
+        indices[i] = indices[minChild];
+        frontier[i] = frontier[minChild];
+        i = minChild;
+      }
+      indices[i] = lastIndex;
+      frontier[i] = lastNode;
+    }
+
+    if (size > 0) push(0);
+    while (indices.length > 0) {
+      const index = indices[0];
+      const node = frontier[0];
+      shift();
+      yield node;
+
+      const childIndex = child(index, 0, log2);
+      const childIndexUpperBound = Math.min(childIndex + (1 << log2), size);
+      for (let i = childIndex; i < childIndexUpperBound; i++) {
+        push(i);
+      }
+    }
+  }
+}
+
+/**
+ * Determines whether a heap index is on a min level of a min-max heap.
+ * Levels are counted from zero at the root, and even levels are min levels.
+ *
+ * @param index - The index of the node (zero-based)
+ * @returns True if the index is on a min level, false if it is on a max level
+ */
+export const isMinLevel = (index: number): boolean => (Math.clz32(index + 1) & 1) === 1;
+
+/**
+ * Moves a node of a min-max heap down until its children and grandchildren are in order.
+ * Nodes are accessed by index so that the same routine works for node arrays and typed arrays.
+ *
+ * @param compareAt - A function that compares the nodes at two heap indices and returns:
+ *   - A negative number if the first node should be closer to the front of the queue
+ *   - Zero if the nodes are equal
+ *   - A positive number if the first node should be closer to the back of the queue
+ * @param swap - A function that swaps the nodes at two heap indices
+ * @param size - The number of elements in the heap
+ * @param index - The index of the node to move down
+ * @returns {void}
+ */
+export const minMaxDown = (
+  compareAt: (a: number, b: number) => number,
+  swap: (a: number, b: number) => void,
+  size: number
+) => {
+  return (index: number): void => {
+    // On max levels the order is reversed
+    const sign = isMinLevel(index) ? 1 : -1;
+    let i = index;
+    while (true) {
+      const firstChild = (i << 1) + 1;
+      if (firstChild >= size) return;
+
+      // Find the first-ranked node among the children and grandchildren
+      let m = firstChild;
+      if (firstChild + 1 < size && sign * compareAt(firstChild + 1, m) < 0) m = firstChild + 1;
+      const firstGrandchild = (firstChild << 1) + 1;
+      const grandchildUpperBound = Math.min(firstGrandchild + 4, size);
+      for (let g = firstGrandchild; g < grandchildUpperBound; g++) {
+        if (sign * compareAt(g, m) < 0) m = g;
+      }
+
+      if (sign * compareAt(m, i) >= 0) return;
+      swap(m, i);
+      if (m < firstGrandchild) return;
+
+      // The node moved two levels down and may now be out of order with its new parent
+      const parentIndex = (m - 1) >> 1;
+      if (sign * compareAt(m, parentIndex) > 0) swap(m, parentIndex);
+      i = m;
+    }
+  }
+}
+
+/**
+ * Restores the order of a min-max heap after the node at an index was added or replaced.
+ * The node is moved up along the levels of its kind, or down if it is not out of order with its ancestors.
+ *
+ * @param compareAt - A function that compares the nodes at two heap indices and returns:
+ *   - A negative number if the first node should be closer to the front of the queue
+ *   - Zero if the nodes are equal
+ *   - A positive number if the first node should be closer to the back of the queue
+ * @param swap - A function that swaps the nodes at two heap indices
+ * @param size - The number of elements in the heap
+ * @param index - The index of the node that was added or replaced
+ * @returns {void}
+ */
+export const minMaxSift = (
+  compareAt: (a: number, b: number) => number,
+  swap: (a: number, b: number) => void,
+  size: number
+) => {
+  const bubble = (index: number, sign: number): boolean => {
+    let i = index;
+    while (i > 2) {
+      const grandparent = (((i - 1) >> 1) - 1) >> 1;
+      if (sign * compareAt(i, grandparent) >= 0) break;
+      swap(i, grandparent);
+      i = grandparent;
+    }
+    return i !== index;
+  }
+
+  return (index: number): void => {
+    const moveDown = minMaxDown(compareAt, swap, size);
+    if (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const sign = isMinLevel(index) ? 1 : -1;
+      if (sign * compareAt(index, parentIndex) > 0) {
+        // The node belongs on the levels of the other kind, and the parent takes its place
+        swap(index, parentIndex);
+        bubble(parentIndex, -sign);
+        moveDown(index);
+        return;
+      }
+      if (bubble(index, sign)) return;
+    }
+    moveDown(index);
+  }
+}
+
+/**
+ * Converts an array into a min-max heap in O(n).
+ *
+ * @param compareAt - A function that compares the nodes at two heap indices
+ * @param swap - A function that swaps the nodes at two heap indices
+ * @param size - The number of elements in the heap
+ * @returns {void}
+ */
+export const minMaxHeapify = (
+  compareAt: (a: number, b: number) => number,
+  swap: (a: number, b: number) => void,
+  size: number
+) => {
+  return (): void => {
+    const moveDown = minMaxDown(compareAt, swap, size);
+    for (let i = (size >> 1) - 1; i >= 0; --i) {
+      moveDown(i);
+    }
+  }
+}
+
+/**
+ * Returns the index of the node at the back of a min-max heap.
+ *
+ * @param compareAt - A function that compares the nodes at two heap indices
+ * @param size - The number of elements in the heap
+ * @returns The index of the last-ranked node, or -1 if the heap is empty
+ */
+export const minMaxBack = (
+  compareAt: (a: number, b: number) => number,
+  size: number
+): number => {
+  if (size <= 2) return size - 1;
+  return compareAt(1, 2) >= 0 ? 1 : 2;
+}
+
+/**
+ * The typed array constructors that can back a queue in a shared buffer.
+ * A backend is stored in the header of the buffer as its position in this list plus one.
+ */
+export const SHARED_BACKENDS = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+] as const;
+
+/**
+ * The fields of the `Int32Array` header at the start of a shared queue buffer.
+ * The header is followed by the elements and then by the priorities, each aligned to 8 bytes.
+ */
+export const SHARED_HEADER = {
+  /** The number of elements in the queue */
+  SIZE: 0,
+  /** The number of elements the buffer can hold, or 0 if the buffer does not hold a queue yet */
+  CAPACITY: 1,
+  /** The backend of the elements */
+  VALUE_BACKEND: 2,
+  /** The backend of the priorities */
+  PRIORITY_BACKEND: 3,
+  /** The log base 2 of the heap's arity */
+  LOG2_ARITY: 4,
+  /** The lock word of a concurrent queue: 0 when unlocked and 1 when locked */
+  LOCK: 5,
+  /** The number of fields in the header */
+  LENGTH: 8,
+} as const;
+
+/**
+ * Computes the layout of a queue in a shared buffer.
+ * @param valueBytes - The number of bytes per element.
+ * @param priorityBytes - The number of bytes per priority.
+ * @param capacity - The number of elements the buffer can hold.
+ * @returns - The byte offsets of the elements and priorities, and the byte length of the buffer.
+ */
+export const sharedLayout = (valueBytes: number, priorityBytes: number, capacity: number) => {
+  const align = (offset: number) => Math.ceil(offset / 8) * 8;
+  const values = align(SHARED_HEADER.LENGTH * Int32Array.BYTES_PER_ELEMENT);
+  const priorities = align(values + capacity * valueBytes);
+  return { values, priorities, byteLength: align(priorities + capacity * priorityBytes) };
+}
+
+/**
+ * Parses and validates the JSON representation of a queue.
+ * @param json - The JSON object, or a string that contains it.
+ * @returns - The JSON object.
+ * @throws - If the values, priorities and insertion indices do not line up.
+ */
+export const parseQueueJSON = (json: IQueueJSON | string): IQueueJSON => {
+  const parsed: IQueueJSON = typeof json === "string" ? JSON.parse(json) : json;
+  const length = Array.isArray(parsed?.values) ? parsed.values.length : -1;
+  if (
+    length < 0 ||
+    !Array.isArray(parsed.priorities) || parsed.priorities.length !== length ||
+    (parsed.indices !== undefined && (!Array.isArray(parsed.indices) || parsed.indices.length !== length))
+  ) {
+    throw new Error("[pq-ts] The JSON does not describe a queue.");
+  }
+  return parsed;
+}
+
+/**
+ * The number of buckets of a radix heap over non-negative safe integer priorities.
+ * Bucket 0 holds the priorities equal to the last extracted priority, and bucket i > 0 holds
+ * the priorities whose highest bit that differs from the last extracted priority is bit i - 1.
+ */
+export const RADIX_BUCKETS = 54;
+
+/**
+ * Calculates the radix heap bucket of a priority relative to the last extracted priority.
+ * Works for all non-negative safe integers by comparing the high and low 32 bits separately.
+ *
+ * @param priority - The priority of the element. Must not be less than `last`
+ * @param last - The last extracted priority
+ * @returns The index of the bucket, from 0 to RADIX_BUCKETS - 1
+ *
+ * @example
+ * ```typescript
+ * radixBucket(5, 5); // 0
+ * radixBucket(6, 5); // 2
+ * ```
+ */
+export const radixBucket = (priority: number, last: number): number => {
+  const high = (Math.floor(priority / 2 ** 32) ^ Math.floor(last / 2 ** 32)) >>> 0;
+  if (high !== 0) return 64 - Math.clz32(high);
+  return 32 - Math.clz32(((priority >>> 0) ^ (last >>> 0)) >>> 0);
+}
+
 /**
  * Grows an array to a new size and copies the elements from the original array.
  * @param elements - The original array to copy
@@ -378,10 +776,10 @@ export const heapifyWithPriorities = (
  * @param backend - The constructor for the new array
  * @returns A new array with the copied elements
  */
-export const growTyped = <T extends TypedArray | BigInt64Array>(
+export const growTyped = <T extends TypedStorage>(
   elements: T,
   minCapacity: number,
-  backend: T extends BigInt64Array ? BigInt64ArrayConstructor : TypedArrayConstructor,
+  backend: new (length: number) => T,
   growFactor = 2,
   minimumGrow = 4,
   maxSize = 2 ** 32 - 1
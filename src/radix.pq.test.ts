@@ -0,0 +1,109 @@
+import { expect, describe, it } from "vitest";
+import { RadixPriorityQueue } from "./radix.pq.ts";
+
+describe("RadixPriorityQueue", () => {
+  it("should create an empty radix priority queue", () => {
+    const pq = new RadixPriorityQueue<string>();
+    expect(pq.count).toBe(0);
+    expect(pq.isEmpty()).toBe(true);
+    expect(pq.peek()).toBeUndefined();
+    expect(pq.dequeue()).toBeUndefined();
+    expect(pq.lowerBound).toBe(0);
+  });
+
+  it("should dequeue elements in priority order", () => {
+    const pq = new RadixPriorityQueue<number>();
+    const priorities = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5, 95, 15, 85, 25, 2 ** 40, 10];
+    for (const priority of priorities) {
+      pq.enqueue(priority, priority);
+    }
+
+    expect(pq.peek()).toBe(5);
+    expect(pq.toArray()).toEqual([...priorities].sort((a, b) => a - b));
+    const result: number[] = [];
+    while (!pq.isEmpty()) {
+      result.push(pq.dequeue() as number);
+    }
+    expect(result).toEqual([...priorities].sort((a, b) => a - b));
+  });
+
+  it("should run a monotone workload", () => {
+    const pq = new RadixPriorityQueue<number>();
+    let seed = 3;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    pq.enqueue(0, 0);
+    let last = 0;
+    let dequeued = 0;
+
+    while (!pq.isEmpty() && dequeued < 2000) {
+      const node = pq.pop()!;
+      expect(node.priority).toBeGreaterThanOrEqual(last);
+      expect(pq.lowerBound).toBe(node.priority);
+      last = node.priority;
+      dequeued++;
+      const edges = Math.floor(random() * 3);
+      for (let i = 0; i < edges; i++) {
+        pq.enqueue(dequeued, node.priority + Math.floor(random() * 1000));
+      }
+    }
+  });
+
+  it("should throw when priorities are not monotone", () => {
+    const pq = new RadixPriorityQueue<string>();
+    pq.enqueue("a", 10);
+    pq.enqueue("b", 20);
+    pq.dequeue();
+
+    expect(() => pq.enqueue("c", 5)).toThrow("[pq-ts] Priority 5 is less than the last dequeued priority 10.");
+    expect(() => pq.enqueue("d", 1.5)).toThrow("non-negative safe integer");
+    expect(() => pq.enqueue("e", -1)).toThrow("non-negative safe integer");
+    expect(pq.enqueue("f", 10)).toBe(true);
+    expect(pq.toArray()).toEqual(["f", "b"]);
+  });
+
+  it("should not advance the lower bound when peeking", () => {
+    const pq = new RadixPriorityQueue<string>();
+    pq.enqueue("a", 10);
+    pq.enqueue("b", 20);
+
+    expect(pq.peek()).toBe("a");
+    expect(pq.enqueue("c", 5)).toBe(true);
+    expect(pq.dequeue()).toBe("c");
+  });
+
+  it("should remove, find and clone elements", () => {
+    const pq = new RadixPriorityQueue<number>();
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.indexOf(3, true)).toBe(1);
+    expect(pq.priorityAt(2, true)).toBe(5);
+    const clone = pq.clone();
+    expect(pq.remove(3)).toBe(true);
+    expect(pq.remove(3)).toBe(false);
+    expect(pq.toArray()).toEqual([2, 1]);
+    expect(clone.toArray()).toEqual([2, 3, 1]);
+  });
+
+  it("should replace the front of the queue", () => {
+    const pq = new RadixPriorityQueue<number>();
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 2);
+
+    expect(pq.enqueueDequeue(3, 1)).toBe(3);
+    expect(pq.enqueueDequeue(3, 3)).toBe(1);
+    expect(pq.dequeueEnqueue(4, 2)).toBe(2);
+    expect(pq.toArray()).toEqual([4, 3]);
+  });
+
+  it("should clear the queue and reset the lower bound", () => {
+    const pq = new RadixPriorityQueue<number>();
+    pq.enqueue(1, 100);
+    pq.dequeue();
+    pq.clear();
+
+    expect(pq.lowerBound).toBe(0);
+    expect(pq.enqueue(2, 1)).toBe(true);
+  });
+});
@@ -0,0 +1,305 @@
+import type { IComparer, IEqualityComparator, IPriorityNode, IPriorityQueueLike } from "./types.ts";
+import { radixBucket, RADIX_BUCKETS } from "./primitive.ts";
+
+/**
+ * A priority queue backed by a radix heap for monotone integer priorities.
+ * Priorities must be non-negative safe integers and must not be less than the last dequeued priority,
+ * which holds for Dijkstra-style workloads. Enqueueing takes O(1) time and dequeueing takes
+ * O(log C) amortized time, where C is the largest difference between priorities.
+ *
+ * @remarks
+ * Elements are ordered by priority only, so a custom comparer is not supported.
+ * Elements are kept in buckets rather than a tree: `nindex` is the bucket of a node,
+ * and `arity` is `Infinity`.
+ */
+export class RadixPriorityQueue<
+  T,
+  Node extends IPriorityNode<T> = IPriorityNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>
+> implements IPriorityQueueLike<T, Node, Comparer> {
+  /**
+   * The buckets of the radix heap used internally.
+   * @protected
+   */
+  protected _buckets: Node[][] = Array.from({ length: RADIX_BUCKETS }, () => []);
+  /**
+   * The last dequeued priority used internally.
+   * @protected
+   */
+  protected _last = 0;
+  /**
+   * The size of elements in the queue used internally.
+   * @protected
+   */
+  protected _size = 0;
+  /**
+   * The compare function, which orders elements by priority.
+   */
+  compare: Comparer = ((a: Node, b: Node) => a.priority - b.priority) as Comparer;
+
+  /**
+   * The number of elements in the queue.
+   * @returns - The number of elements in the queue.
+   */
+  get count(): number {
+    return this._size;
+  }
+
+  /**
+   * The number of children each node in the heap has, which does not apply to a radix heap.
+   * @readonly
+   */
+  get arity(): number {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * The smallest priority that can be enqueued, which is the last dequeued priority.
+   * @readonly
+   */
+  get lowerBound(): number {
+    return this._last;
+  }
+
+  /**
+   * The elements in the queue returned in an unordered manner.
+   * @returns - The elements in the queue.
+   */
+  get values(): T[] {
+    return this.heap.map((node) => node.value);
+  }
+
+  /**
+   * The nodes in the queue, bucket by bucket.
+   * @returns - The nodes in the queue.
+   */
+  get heap(): Node[] {
+    return this._buckets.flat() as Node[];
+  }
+
+  /**
+   * Adds an element to the queue in O(1).
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - True if the element was added, false if the priority is not a number.
+   * @throws - If the priority is not a non-negative safe integer or is less than the last dequeued priority.
+   */
+  enqueue(value: T, priority: number): boolean {
+    if (typeof priority !== "number") return false;
+    this.validate(priority);
+    const bucket = radixBucket(priority, this._last);
+    this._buckets[bucket].push({ value, priority, nindex: bucket } as Node);
+    this._size++;
+    return true;
+  }
+
+  dequeue(): T | undefined {
+    return this.pop()?.value;
+  }
+
+  pop(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    this.redistribute();
+    this._size--;
+    return this._buckets[0].pop() as Node;
+  }
+
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   * @throws - If the priority is not a non-negative safe integer or is less than the last dequeued priority.
+   */
+  enqueueDequeue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    this.validate(priority);
+    const front = this.front();
+    if (!front || front.priority >= priority) return value;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   * @throws - If the priority is not a non-negative safe integer or is less than the dequeued priority.
+   */
+  dequeueEnqueue(value: T, priority: number): T | undefined {
+    if (typeof priority !== "number") return undefined;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Returns the element at the front of the queue without removing it.
+   * When the first bucket is empty, the next non-empty bucket is searched in O(k) time.
+   * @returns - The element at the front of the queue, or undefined if the queue is empty.
+   */
+  peek(): T | undefined {
+    return this.front()?.value;
+  }
+
+  clear(): void {
+    this._buckets = Array.from({ length: RADIX_BUCKETS }, () => []);
+    this._last = 0;
+    this._size = 0;
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * Every priority in a bucket is less than every priority in the next bucket,
+   * so each bucket is sorted only when the iteration reaches it.
+   * @returns - A generator of nodes in priority order.
+   */
+  *orderedNodes(): Generator<Node, void, undefined> {
+    for (const bucket of this._buckets) {
+      if (bucket.length === 0) continue;
+      yield* [...bucket].sort(this.compare);
+    }
+  }
+
+  /**
+   * Creates a copy of the priority queue.
+   * @returns - A new priority queue instance with the same elements.
+   */
+  clone(): this {
+    const clone = new RadixPriorityQueue<T, Node, Comparer>();
+    clone._buckets = this._buckets.map((bucket) => bucket.map((node) => ({ ...node })));
+    clone._last = this._last;
+    clone._size = this._size;
+    return clone as this;
+  }
+
+  /**
+   * Removes the first occurrence of a specific element from the queue.
+   * @param value - The element to remove.
+   * @param comparer - An optional equality comparison function.
+   * @returns - True if the element was removed, false otherwise.
+   */
+  remove(value: T, comparer: IEqualityComparator<T> = (a, b) => a === b): boolean {
+    for (const bucket of this._buckets) {
+      const index = bucket.findIndex((node) => comparer(node.value, value));
+      if (index === -1) continue;
+      bucket[index] = bucket[bucket.length - 1];
+      bucket.pop();
+      this._size--;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns the index of the first occurrence of a specific element in the queue.
+   * @param value - The element to search for.
+   * @param dequeue - If true, searches for the element in priority order; otherwise bucket by bucket.
+   * @param comparer - An optional equality comparison function.
+   * @returns - The index of the element if it exists, or -1 if the element is not found.
+   */
+  indexOf(value: T, dequeue = false, comparer: IEqualityComparator<T> = (a, b) => a === b): number {
+    let index = 0;
+    for (const node of dequeue ? this.orderedNodes() : this.heap) {
+      if (comparer(node.value, value)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the priority of the element at the specified index.
+   * @param index - The index of the element.
+   * @param dequeue - If true, counts the elements in priority order; otherwise bucket by bucket.
+   * @returns - The priority of the element if it exists, or `Number.MAX_VALUE` if the index is out of range.
+   */
+  priorityAt(index: number, dequeue = false): number {
+    if (index < 0 || index >= this._size) return Number.MAX_VALUE;
+    if (!dequeue) return this.heap[index].priority;
+    let i = index;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
+    }
+    return Number.MAX_VALUE;
+  }
+
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  toString(): string {
+    return this.toArray().join(", ");
+  }
+
+  /**
+   * Iterates over the queue in priority order.
+   * @returns - An iterator for the queue.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Throws if a priority cannot be added to the queue.
+   * @param priority - The priority to check.
+   * @protected
+   */
+  protected validate(priority: number): void {
+    if (!Number.isSafeInteger(priority) || priority < 0) {
+      throw new Error(`[pq-ts] Radix priority queues require non-negative safe integer priorities, but got ${priority}.`);
+    }
+    if (priority < this._last) {
+      throw new Error(`[pq-ts] Priority ${priority} is less than the last dequeued priority ${this._last}. Radix priority queues require monotone priorities.`);
+    }
+  }
+
+  /**
+   * Returns the node at the front of the queue without changing the buckets.
+   * @returns - The node at the front of the queue, or undefined if the queue is empty.
+   * @protected
+   */
+  protected front(): Node | undefined {
+    for (const bucket of this._buckets) {
+      if (bucket.length === 0) continue;
+      let min = bucket[0];
+      for (const node of bucket) {
+        if (node.priority < min.priority) min = node;
+      }
+      return min;
+    }
+    return undefined;
+  }
+
+  /**
+   * Moves the elements of the first non-empty bucket into lower buckets when the first bucket is empty.
+   * The smallest priority of that bucket becomes the last dequeued priority, so it ends up in the first bucket.
+   * @protected
+   */
+  protected redistribute(): void {
+    if (this._buckets[0].length > 0) return;
+    let i = 1;
+    while (this._buckets[i].length === 0) i++;
+
+    const bucket = this._buckets[i];
+    this._buckets[i] = [];
+    let last = bucket[0].priority;
+    for (const node of bucket) {
+      if (node.priority < last) last = node.priority;
+    }
+
+    this._last = last;
+    for (const node of bucket) {
+      node.nindex = radixBucket(node.priority, last);
+      this._buckets[node.nindex].push(node);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { expect, describe, it } from "vitest";
+import { RadixTypedPriorityQueue } from "./radix.typed.pq.ts";
+
+describe("RadixTypedPriorityQueue", () => {
+  it("should create an empty radix typed priority queue", () => {
+    const pq = new RadixTypedPriorityQueue(Uint32Array, 4);
+    expect(pq.count).toBe(0);
+    expect(pq.peek()).toBeUndefined();
+    expect(pq.pop()).toBeUndefined();
+  });
+
+  it("should allocate buckets when they receive their first element", () => {
+    let allocated = 0;
+    const CountingArray = new Proxy(Uint32Array, {
+      construct(target, [length]) {
+        allocated += length;
+        return new target(length);
+      }
+    });
+    const pq = new RadixTypedPriorityQueue(CountingArray, 1024);
+    expect(allocated).toBe(0);
+
+    pq.enqueue(1, 0);
+    pq.enqueue(2, 0);
+    expect(allocated).toBe(1024);
+    pq.enqueue(3, 1000);
+    expect(allocated).toBe(2048);
+    pq.clear();
+    expect(allocated).toBe(2048);
+  });
+
+  it("should dequeue elements in priority order and grow buckets", () => {
+    const pq = new RadixTypedPriorityQueue(Uint32Array, 1);
+    const priorities = [50, 10, 90, 20, 80, 30, 70, 40, 60, 5, 95, 15, 85, 25, 2 ** 40, 10];
+    priorities.forEach((priority, i) => pq.enqueue(i, priority));
+
+    expect(pq.peek()).toBe(9);
+    expect(pq.orderedNodes().next().value).toEqual({ value: 9, priority: 5, nindex: 3 });
+    const result: number[] = [];
+    while (!pq.isEmpty()) {
+      result.push(pq.pop()!.priority);
+    }
+    expect(result).toEqual([...priorities].sort((a, b) => a - b));
+  });
+
+  it("should run a monotone workload", () => {
+    const pq = new RadixTypedPriorityQueue(Int32Array, 16);
+    let seed = 5;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    pq.enqueue(0, 0);
+    let last = 0;
+    let dequeued = 0;
+
+    while (!pq.isEmpty() && dequeued < 2000) {
+      const node = pq.pop()!;
+      expect(node.priority).toBeGreaterThanOrEqual(last);
+      last = node.priority;
+      dequeued++;
+      const edges = Math.floor(random() * 3);
+      for (let i = 0; i < edges; i++) {
+        pq.enqueue(dequeued, node.priority + Math.floor(random() * 1000));
+      }
+    }
+  });
+
+  it("should throw when priorities are not monotone", () => {
+    const pq = new RadixTypedPriorityQueue(Int32Array, 4);
+    pq.enqueue(1, 10);
+    pq.dequeue();
+    expect(() => pq.enqueue(2, 9)).toThrow("less than the last dequeued priority");
+    expect(() => pq.enqueue(2, Number.NaN)).toThrow("non-negative safe integer");
+  });
+
+  it("should remove and clone elements", () => {
+    const pq = new RadixTypedPriorityQueue(Int32Array, 4);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    const clone = pq.clone();
+    expect(pq.remove(3)).toBe(true);
+    expect(pq.toArray()).toEqual([2, 1]);
+    expect(clone.toArray()).toEqual([2, 3, 1]);
+    clone.clear();
+    expect(clone.count).toBe(0);
+    expect(pq.count).toBe(2);
+  });
+});
@@ -0,0 +1,315 @@
+import type { IComparer, IEqualityComparator, IPriorityNode, IPriorityQueueLike, TypedArray, TypedArrayConstructor } from "./types.ts";
+import { growTyped, radixBucket, RADIX_BUCKETS } from "./primitive.ts";
+
+/**
+ * A priority queue backed by a radix heap in typed arrays for monotone integer priorities.
+ * Priorities must be non-negative safe integers and must not be less than the last dequeued priority,
+ * which holds for Dijkstra-style workloads. Enqueueing takes O(1) time and dequeueing takes
+ * O(log C) amortized time, where C is the largest difference between priorities.
+ *
+ * @remarks
+ * Each bucket stores its elements in the backend typed array and its priorities in a `Float64Array`,
+ * so priorities up to `Number.MAX_SAFE_INTEGER` are exact. Elements are ordered by priority only,
+ * so a custom comparer is not supported.
+ */
+export class RadixTypedPriorityQueue<
+  Node extends IPriorityNode<number> = IPriorityNode<number>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+> implements IPriorityQueueLike<number, Node, Comparer> {
+  protected _elements: TypedArray[];
+  protected _priorities: Float64Array[];
+  protected _counts = new Array<number>(RADIX_BUCKETS).fill(0);
+  protected _backend: TypedArrayConstructor;
+  protected readonly _defaultSize: number;
+  protected _last = 0;
+  protected _size = 0;
+  compare: Comparer = ((a: Node, b: Node) => a.priority - b.priority) as Comparer;
+
+  /**
+   * Creates a new instance of a radix priority queue backed by typed arrays.
+   * Buckets are allocated when they receive their first element, so an empty queue holds no storage.
+   * @param backend - The typed array constructor for the elements.
+   * @param size - The initial size of a bucket, allocated when the bucket receives its first element.
+   */
+  constructor(backend: TypedArrayConstructor, size: number) {
+    this._backend = backend;
+    this._defaultSize = size;
+    this._elements = Array.from({ length: RADIX_BUCKETS }, () => new backend(0));
+    this._priorities = Array.from({ length: RADIX_BUCKETS }, () => new Float64Array(0));
+  }
+
+  get count(): number {
+    return this._size;
+  }
+
+  /**
+   * The number of children each node in the heap has, which does not apply to a radix heap.
+   * @readonly
+   */
+  get arity(): number {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * The smallest priority that can be enqueued, which is the last dequeued priority.
+   * @readonly
+   */
+  get lowerBound(): number {
+    return this._last;
+  }
+
+  get values(): number[] {
+    return this.heap.map((node) => node.value);
+  }
+
+  /**
+   * The nodes in the queue, bucket by bucket. `nindex` is the bucket of a node.
+   */
+  get heap(): Node[] {
+    const result: Node[] = [];
+    for (let bucket = 0; bucket < RADIX_BUCKETS; bucket++) {
+      for (let i = 0; i < this._counts[bucket]; i++) {
+        result.push({ value: this._elements[bucket][i], priority: this._priorities[bucket][i], nindex: bucket } as Node);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Adds an element to the queue in O(1).
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - True if the element was added, false if the priority is not a number.
+   * @throws - If the priority is not a non-negative safe integer or is less than the last dequeued priority.
+   */
+  enqueue(value: number, priority: number): boolean {
+    if (typeof priority !== "number") return false;
+    this.validate(priority);
+    this.push(radixBucket(priority, this._last), value, priority);
+    this._size++;
+    return true;
+  }
+
+  dequeue(): number | undefined {
+    return this.pop()?.value;
+  }
+
+  pop(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    this.redistribute();
+    const i = --this._counts[0];
+    this._size--;
+    return { value: this._elements[0][i], priority: this._priorities[0][i], nindex: 0 } as Node;
+  }
+
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   * @throws - If the priority is not a non-negative safe integer or is less than the last dequeued priority.
+   */
+  enqueueDequeue(value: number, priority: number): number | undefined {
+    if (typeof priority !== "number") return undefined;
+    this.validate(priority);
+    const front = this.front();
+    if (!front || front.priority >= priority) return value;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   * @throws - If the priority is not a non-negative safe integer or is less than the dequeued priority.
+   */
+  dequeueEnqueue(value: number, priority: number): number | undefined {
+    if (typeof priority !== "number") return undefined;
+    const root = this.dequeue();
+    this.enqueue(value, priority);
+    return root;
+  }
+
+  /**
+   * Returns the element at the front of the queue without removing it.
+   * When the first bucket is empty, the next non-empty bucket is searched in O(k) time.
+   * @returns - The element at the front of the queue, or undefined if the queue is empty.
+   */
+  peek(): number | undefined {
+    return this.front()?.value;
+  }
+
+  clear(): void {
+    this._elements = Array.from({ length: RADIX_BUCKETS }, () => new this._backend(0));
+    this._priorities = Array.from({ length: RADIX_BUCKETS }, () => new Float64Array(0));
+    this._counts.fill(0);
+    this._last = 0;
+    this._size = 0;
+  }
+
+  toArray(): number[] {
+    return [...this];
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * Every priority in a bucket is less than every priority in the next bucket,
+   * so each bucket is sorted only when the iteration reaches it.
+   * @returns - A generator of nodes in priority order.
+   */
+  *orderedNodes(): Generator<Node, void, undefined> {
+    for (let bucket = 0; bucket < RADIX_BUCKETS; bucket++) {
+      const count = this._counts[bucket];
+      if (count === 0) continue;
+      const nodes: Node[] = [];
+      for (let i = 0; i < count; i++) {
+        nodes.push({ value: this._elements[bucket][i], priority: this._priorities[bucket][i], nindex: bucket } as Node);
+      }
+      yield* nodes.sort(this.compare);
+    }
+  }
+
+  clone(): this {
+    const clone = new RadixTypedPriorityQueue<Node, Comparer>(this._backend, this._defaultSize);
+    clone._elements = this._elements.map((elements, bucket) => elements.slice(0, this._counts[bucket]));
+    clone._priorities = this._priorities.map((priorities, bucket) => priorities.slice(0, this._counts[bucket]));
+    clone._counts = [...this._counts];
+    clone._last = this._last;
+    clone._size = this._size;
+    return clone as this;
+  }
+
+  remove(value: number, comparer: IEqualityComparator<number> = (a, b) => a === b): boolean {
+    for (let bucket = 0; bucket < RADIX_BUCKETS; bucket++) {
+      const elements = this._elements[bucket];
+      const priorities = this._priorities[bucket];
+      const count = this._counts[bucket];
+      for (let i = 0; i < count; i++) {
+        if (!comparer(elements[i], value)) continue;
+        // Move the last element of the bucket into the hole
+        elements[i] = elements[count - 1];
+        priorities[i] = priorities[count - 1];
+        this._counts[bucket] = count - 1;
+        this._size--;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  indexOf(value: number, dequeue = false, comparer: IEqualityComparator<number> = (a, b) => a === b): number {
+    let index = 0;
+    for (const node of dequeue ? this.orderedNodes() : this.heap) {
+      if (comparer(node.value, value)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  priorityAt(index: number, dequeue = false): number {
+    if (index < 0 || index >= this._size) return Number.MAX_VALUE;
+    if (!dequeue) return this.heap[index].priority;
+    let i = index;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
+    }
+    return Number.MAX_VALUE;
+  }
+
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  toString(): string {
+    return this.toArray().join(", ");
+  }
+
+  /**
+   * Iterates over the queue in priority order.
+   * @returns - An iterator for the queue.
+   */
+  *[Symbol.iterator](): Iterator<number> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Throws if a priority cannot be added to the queue.
+   * @param priority - The priority to check.
+   */
+  protected validate(priority: number): void {
+    if (!Number.isSafeInteger(priority) || priority < 0) {
+      throw new Error(`[pq-ts] Radix priority queues require non-negative safe integer priorities, but got ${priority}.`);
+    }
+    if (priority < this._last) {
+      throw new Error(`[pq-ts] Priority ${priority} is less than the last dequeued priority ${this._last}. Radix priority queues require monotone priorities.`);
+    }
+  }
+
+  /**
+   * Appends an element to a bucket, allocating the bucket with the initial size if it is empty
+   * and growing it if it is full.
+   * @param bucket - The index of the bucket.
+   * @param value - The value of the element.
+   * @param priority - The priority of the element.
+   */
+  protected push(bucket: number, value: number, priority: number): void {
+    const count = this._counts[bucket];
+    if (count === this._elements[bucket].length) {
+      const capacity = Math.max(count + 1, this._defaultSize);
+      this._elements[bucket] = growTyped(this._elements[bucket], capacity, this._backend);
+      this._priorities[bucket] = growTyped(this._priorities[bucket], capacity, Float64Array);
+    }
+    this._elements[bucket][count] = value;
+    this._priorities[bucket][count] = priority;
+    this._counts[bucket] = count + 1;
+  }
+
+  /**
+   * Returns the node at the front of the queue without changing the buckets.
+   * @returns - The node at the front of the queue, or undefined if the queue is empty.
+   */
+  protected front(): Node | undefined {
+    for (let bucket = 0; bucket < RADIX_BUCKETS; bucket++) {
+      const count = this._counts[bucket];
+      if (count === 0) continue;
+      const priorities = this._priorities[bucket];
+      let min = 0;
+      for (let i = 1; i < count; i++) {
+        if (priorities[i] < priorities[min]) min = i;
+      }
+      return { value: this._elements[bucket][min], priority: priorities[min], nindex: bucket } as Node;
+    }
+    return undefined;
+  }
+
+  /**
+   * Moves the elements of the first non-empty bucket into lower buckets when the first bucket is empty.
+   * The smallest priority of that bucket becomes the last dequeued priority, so it ends up in the first bucket.
+   */
+  protected redistribute(): void {
+    if (this._counts[0] > 0) return;
+    let bucket = 1;
+    while (this._counts[bucket] === 0) bucket++;
+
+    const elements = this._elements[bucket];
+    const priorities = this._priorities[bucket];
+    const count = this._counts[bucket];
+    let last = priorities[0];
+    for (let i = 1; i < count; i++) {
+      if (priorities[i] < last) last = priorities[i];
+    }
+
+    // Every element moves to a lower bucket, so the bucket can be emptied before it is read.
+    this._counts[bucket] = 0;
+    this._last = last;
+    for (let i = 0; i < count; i++) {
+      this.push(radixBucket(priorities[i], last), elements[i], priorities[i]);
+    }
+  }
+}
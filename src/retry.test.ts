@@ -0,0 +1,179 @@
+import { expect, describe, it } from "vitest";
+import { RetryScheduler, backoffDelay } from "./retry.ts";
+import type { ITimerClock } from "./types.ts";
+import { compareBigInts } from "./comparer.ts";
+
+/**
+ * A clock whose time only moves when `advance` is called.
+ */
+class VirtualClock implements ITimerClock {
+  time = 0;
+  timers: { at: number; callback: () => void }[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): unknown {
+    const timer = { at: this.time + delay, callback };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer !== handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const end = this.time + ms;
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const due = this.timers.filter((timer) => timer.at <= end).sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers.splice(this.timers.indexOf(due), 1);
+      this.time = due.at;
+      due.callback();
+    }
+    this.time = end;
+  }
+}
+
+describe("backoffDelay", () => {
+  it("should grow the delay exponentially up to the maximum", () => {
+    const policy = { delay: 100, factor: 3, maxDelay: 1000 };
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(policy, attempt))).toEqual([100, 300, 900, 1000]);
+    expect(backoffDelay({}, 2)).toBe(200);
+  });
+
+  it("should randomize the delay with jitter", () => {
+    expect(backoffDelay({ delay: 100, jitter: "full" }, 1, () => 0.25)).toBe(25);
+    expect(backoffDelay({ delay: 100, jitter: "equal" }, 1, () => 0.5)).toBe(75);
+  });
+});
+
+describe("RetryScheduler", () => {
+  it("should retry a failed task after the backoff delay", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RetryScheduler({ clock, retry: { delay: 100 } });
+    const attempts: number[] = [];
+    const result = scheduler.schedule(() => {
+      attempts.push(clock.now());
+      if (attempts.length < 3) throw new Error(`failure ${attempts.length}`);
+      return "done";
+    }, 0);
+
+    await clock.advance(50);
+    expect(attempts).toEqual([0]);
+    expect(scheduler.retrying).toBe(1);
+    await clock.advance(250);
+    expect(await result).toBe("done");
+    expect(attempts).toEqual([0, 100, 300]);
+    expect(scheduler.deadLetters).toEqual([]);
+  });
+
+  it("should collect tasks that fail on every attempt as dead letters", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RetryScheduler({ clock, retry: { maxAttempts: 2, delay: 10, demote: 5 } });
+    const task = () => Promise.reject(new Error("down"));
+    const result = scheduler.schedule(task, 1);
+    const assertion = expect(result).rejects.toThrow("down");
+
+    await clock.advance(10);
+    await assertion;
+    await scheduler.onIdle();
+    expect(scheduler.deadLetters).toEqual([
+      { task, priority: 6, attempts: 2, errors: [new Error("down"), new Error("down")] },
+    ]);
+    expect(scheduler.takeDeadLetters()).toHaveLength(1);
+    expect(scheduler.deadLetters).toHaveLength(0);
+  });
+
+  it("should run retried tasks after pending tasks with the same priority", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RetryScheduler({ clock, paused: true, retry: { delay: 10, demote: (priority) => priority + 1 } });
+    const order: string[] = [];
+    let failed = false;
+
+    scheduler.schedule(() => {
+      order.push("flaky");
+      if (!failed) {
+        failed = true;
+        throw new Error("retry me");
+      }
+    }, 0);
+    scheduler.schedule(() => order.push("first"), 1);
+    scheduler.resume();
+    await clock.advance(0);
+    scheduler.pause();
+    scheduler.schedule(() => order.push("second"), 1);
+    await clock.advance(10);
+    scheduler.schedule(() => order.push("third"), 1);
+    scheduler.resume();
+    await scheduler.onIdle();
+
+    expect(order).toEqual(["flaky", "first", "second", "flaky", "third"]);
+  });
+
+  it("should not retry errors rejected by the policy or cancelled tasks", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RetryScheduler({ clock, retry: { retryIf: (error) => error !== "fatal" } });
+    const fatal = scheduler.schedule(() => Promise.reject("fatal"), 0);
+    await expect(fatal).rejects.toBe("fatal");
+    expect(scheduler.deadLetters[0].attempts).toBe(1);
+
+    const controller = new AbortController();
+    const cancelled = scheduler.schedule(() => Promise.reject("busy"), 0, { signal: controller.signal });
+    await clock.advance(0);
+    expect(scheduler.retrying).toBe(1);
+    controller.abort("stop");
+    await expect(cancelled).rejects.toBe("stop");
+    expect(scheduler.retrying).toBe(0);
+    await scheduler.onIdle();
+    expect(clock.timers).toHaveLength(0);
+  });
+
+  it("should reject a numeric demote unless priorities are numbers", async () => {
+    const clock = new VirtualClock();
+    expect(() => new RetryScheduler<bigint>({ clock, priorityComparer: compareBigInts, retry: { demote: 1 } })).toThrow();
+
+    const scheduler = new RetryScheduler<bigint>({ clock, priorityComparer: compareBigInts });
+    let runs = 0;
+    await expect(scheduler.schedule(() => runs++, 1n, { retry: { demote: 1 } })).rejects.toThrow();
+    await expect(scheduler.schedule(() => runs++, 1n, { retry: { demote: (priority) => priority + 1n } })).resolves.toBe(0);
+    expect(runs).toBe(1);
+  });
+
+  it("should give up tasks whose priority cannot be demoted", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RetryScheduler({ clock, retry: { delay: 10 } });
+    const failing = () => Promise.reject(new Error("down"));
+
+    const thrown = scheduler.schedule(failing, 0, { retry: { demote: () => { throw new Error("no demote"); } } });
+    await expect(thrown).rejects.toThrow("no demote");
+    const invalid = scheduler.schedule(failing, 1, { retry: { demote: () => Number.NaN } });
+    await expect(invalid).rejects.toThrow();
+
+    await scheduler.onIdle();
+    expect(scheduler.retrying).toBe(0);
+    expect(clock.timers).toHaveLength(0);
+    expect(scheduler.deadLetters.map(({ priority, attempts, errors }) => [priority, attempts, errors.length])).toEqual([
+      [0, 1, 2],
+      [1, 1, 2],
+    ]);
+  });
+
+  it("should wait for retries in onIdle", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RetryScheduler({ clock, retry: { delay: 100, maxAttempts: 2 } });
+    let idle = false;
+    scheduler.schedule(() => Promise.reject(new Error("again")), 0).catch(() => {});
+    scheduler.onIdle().then(() => {
+      idle = true;
+    });
+
+    await clock.advance(50);
+    expect(idle).toBe(false);
+    await clock.advance(50);
+    expect(idle).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+import type { IDeadLetter, IRetryPolicy, IRetryScheduleOptions, IRetrySchedulerOptions, IScheduledTask, ITimerClock } from "./types.ts";
+import { PriorityScheduler } from "./scheduler.ts";
+import { systemClock } from "./clock.ts";
+
+/**
+ * Computes the delay before the next attempt of a failed task.
+ * @param policy - The retry policy.
+ * @param attempt - The number of the failed attempt, starting at 1.
+ * @param random - (Optional) A function that returns a random number in `[0, 1)` for jitter.
+ * @returns - The number of milliseconds to wait.
+ */
+export const backoffDelay = <P>(policy: IRetryPolicy<P>, attempt: number, random: () => number = Math.random): number => {
+  const { delay = 100, factor = 2, maxDelay = Number.POSITIVE_INFINITY, jitter = "none" } = policy;
+  const base = Math.min(maxDelay, delay * factor ** (attempt - 1));
+  if (jitter === "full") return random() * base;
+  if (jitter === "equal") return base / 2 + random() * (base / 2);
+  return base;
+}
+
+/**
+ * Computes the priority of the next attempt of a failed task.
+ * @param policy - The retry policy.
+ * @param priority - The priority of the failed attempt.
+ * @param attempt - The number of the failed attempt, starting at 1.
+ * @returns - The priority of the next attempt.
+ */
+const demote = <P>(policy: IRetryPolicy<P>, priority: P, attempt: number): P => {
+  const { demote } = policy;
+  if (typeof demote === "function") return demote(priority, attempt);
+  if (typeof demote === "number") return ((priority as number) + demote) as P;
+  return priority;
+}
+
+/**
+ * A priority scheduler that retries failed tasks with backoff and collects the tasks that failed
+ * on every attempt as dead letters.
+ * A retried task waits for its delay and is then scheduled again like a new task, so it runs after
+ * the pending tasks with the same priority.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new RetryScheduler({
+ *   concurrency: 4,
+ *   retry: { maxAttempts: 5, delay: 200, jitter: "full", demote: 1 },
+ * });
+ *
+ * scheduler.schedule(() => send(message), 0).catch(() => {});
+ * await scheduler.onIdle();
+ * console.log(scheduler.deadLetters);
+ * ```
+ */
+export class RetryScheduler<P = number> extends PriorityScheduler<P> {
+  /**
+   * The retry policy of tasks that are scheduled without one.
+   */
+  readonly retry: IRetryPolicy<P>;
+  /**
+   * The clock that waits for the delays between attempts.
+   * @protected
+   */
+  protected _clock: ITimerClock;
+  /**
+   * The function that returns random numbers for jitter.
+   * @protected
+   */
+  protected _random: () => number;
+  /**
+   * The number of failed tasks that wait for their next attempt.
+   * @protected
+   */
+  protected _retrying = 0;
+  /**
+   * The tasks that failed on every attempt.
+   * @protected
+   */
+  protected _deadLetters: IDeadLetter<P>[] = [];
+  /**
+   * Whether priorities are numbers, which is the case unless a priority comparer was given.
+   * @protected
+   */
+  protected _numeric: boolean;
+
+  /**
+   * Creates a new instance of a retry scheduler.
+   * @param options - The options for the scheduler.
+   * @throws - If the retry policy demotes by a number but priorities are not numbers.
+   */
+  constructor(options?: IRetrySchedulerOptions<P>) {
+    super(options);
+    this._numeric = !options?.priorityComparer;
+    if (!this.canDemote(options?.retry)) {
+      throw new Error("[pq-ts] A numeric demote requires number priorities; pass a function to demote other priorities.");
+    }
+    this.retry = options?.retry ?? {};
+    this._clock = options?.clock ?? systemClock;
+    this._random = options?.random ?? Math.random;
+  }
+
+  /**
+   * The number of failed tasks that wait for their next attempt.
+   * @readonly
+   */
+  get retrying(): number {
+    return this._retrying;
+  }
+
+  /**
+   * The tasks that failed on every attempt, in the order they were given up.
+   * @readonly
+   */
+  get deadLetters(): readonly IDeadLetter<P>[] {
+    return this._deadLetters;
+  }
+
+  /**
+   * Removes and returns the tasks that failed on every attempt.
+   * @returns - The dead letters, in the order they were given up.
+   */
+  takeDeadLetters(): IDeadLetter<P>[] {
+    const deadLetters = this._deadLetters;
+    this._deadLetters = [];
+    return deadLetters;
+  }
+
+  /**
+   * Schedules a task that is retried when it fails.
+   * @param task - The function to run, which receives the signal of the options.
+   * @param priority - The priority of the first attempt. Smaller priorities run first.
+   * @param options - (Optional) A signal that cancels the task, and the retry policy of the task.
+   * @returns - A promise of the result of the first successful attempt, which is rejected with the error
+   * of the last attempt when the task is given up, or with the reason of the signal if the task is cancelled.
+   * A task whose priority cannot be demoted is given up with the error of `demote`.
+   */
+  override schedule<R>(task: IScheduledTask<R>, priority: P, options?: IRetryScheduleOptions<P>): Promise<R> {
+    const policy = { ...this.retry, ...options?.retry };
+    if (!this.canDemote(policy)) {
+      return Promise.reject(new Error("[pq-ts] A numeric demote requires number priorities; pass a function to demote other priorities."));
+    }
+    const maxAttempts = policy.maxAttempts ?? 3;
+    const signal = options?.signal;
+    const errors: unknown[] = [];
+
+    return new Promise<R>((resolve, reject) => {
+      const run = (attempt: number, priority: P) => {
+        super.schedule(task, priority, options).then(resolve, (error) => {
+          errors.push(error);
+          if (signal?.aborted) {
+            reject(error);
+          } else if (attempt >= maxAttempts || (policy.retryIf && !policy.retryIf(error, attempt))) {
+            this._deadLetters.push({ task, priority, attempts: attempt, errors });
+            reject(error);
+          } else {
+            let next: P;
+            try {
+              next = demote(policy, priority, attempt);
+              if (!this.isPriority(next)) throw new Error(`[pq-ts] The demoted priority is not valid: ${String(next)}.`);
+            } catch (demoteError) {
+              errors.push(demoteError);
+              this._deadLetters.push({ task, priority, attempts: attempt, errors });
+              reject(demoteError);
+              return;
+            }
+            this.wait(backoffDelay(policy, attempt, this._random), signal, reject, () => run(attempt + 1, next));
+          }
+        });
+      };
+      run(1, priority);
+    });
+  }
+
+  protected override isIdle(): boolean {
+    return this._retrying === 0 && super.isIdle();
+  }
+
+  /**
+   * Determines whether a retry policy can demote the priorities of this scheduler.
+   * Numeric demotes are only added to number priorities.
+   * @param policy - The retry policy to check.
+   * @returns - True if the policy can demote the priorities, false otherwise.
+   * @protected
+   */
+  protected canDemote(policy?: IRetryPolicy<P>): boolean {
+    return typeof policy?.demote !== "number" || this._numeric;
+  }
+
+  /**
+   * Determines whether a demoted priority can be scheduled.
+   * Priorities must be numbers unless a priority comparer was given.
+   * @param priority - The value to check.
+   * @returns - True if the value is a valid priority, false otherwise.
+   * @protected
+   */
+  protected isPriority(priority: unknown): priority is P {
+    return this._numeric ? typeof priority === "number" && !Number.isNaN(priority) : priority !== undefined && priority !== null;
+  }
+
+  /**
+   * Waits for the delay before the next attempt of a failed task.
+   * @param delay - The number of milliseconds to wait.
+   * @param signal - The signal of the task, which stops the wait when it is aborted.
+   * @param reject - The function that rejects the promise of the task.
+   * @param next - The function that starts the next attempt.
+   * @protected
+   */
+  protected wait(delay: number, signal: AbortSignal | undefined, reject: (reason: unknown) => void, next: () => void): void {
+    this._retrying++;
+    const done = () => {
+      this._retrying--;
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      this._clock.clearTimeout(timer);
+      done();
+      reject(signal?.reason);
+      this.settle();
+    };
+    const timer = this._clock.setTimeout(() => {
+      done();
+      next();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+}
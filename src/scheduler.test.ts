@@ -0,0 +1,118 @@
+import { expect, describe, it } from "vitest";
+import { PriorityScheduler } from "./scheduler.ts";
+
+/**
+ * Creates a promise that is resolved from outside.
+ */
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("PriorityScheduler", () => {
+  it("should start the highest-priority pending task when a slot frees", async () => {
+    const scheduler = new PriorityScheduler({ concurrency: 1 });
+    const started: string[] = [];
+    const first = deferred();
+    const run = (name: string, wait?: Promise<void>) => async () => {
+      started.push(name);
+      await wait;
+      return name;
+    };
+
+    const a = scheduler.schedule(run("a", first.promise), 5);
+    scheduler.schedule(run("low"), 9);
+    scheduler.schedule(run("high"), 1);
+    scheduler.schedule(run("high again"), 1);
+    expect(scheduler.pending).toBe(1);
+    expect(scheduler.size).toBe(3);
+
+    first.resolve();
+    expect(await a).toBe("a");
+    await scheduler.onIdle();
+    expect(started).toEqual(["a", "high", "high again", "low"]);
+    expect(scheduler.size).toBe(0);
+    expect(scheduler.pending).toBe(0);
+  });
+
+  it("should run at most the given number of tasks at once", async () => {
+    const scheduler = new PriorityScheduler({ concurrency: 2 });
+    let running = 0;
+    let most = 0;
+    const task = async () => {
+      running++;
+      most = Math.max(most, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+    };
+
+    for (let i = 0; i < 6; i++) scheduler.schedule(task, i);
+    await scheduler.onIdle();
+    expect(most).toBe(2);
+  });
+
+  it("should reject with the error of a failed task and keep running others", async () => {
+    const scheduler = new PriorityScheduler();
+    const failed = scheduler.schedule(() => {
+      throw new Error("boom");
+    }, 0);
+    const rejected = scheduler.schedule(() => Promise.reject(new Error("bang")), 1);
+    const ok = scheduler.schedule(() => 42, 2);
+
+    await expect(failed).rejects.toThrow("boom");
+    await expect(rejected).rejects.toThrow("bang");
+    expect(await ok).toBe(42);
+  });
+
+  it("should not start tasks while paused", async () => {
+    const scheduler = new PriorityScheduler({ concurrency: 3, paused: true });
+    const started: number[] = [];
+    scheduler.schedule(() => started.push(2), 2);
+    scheduler.schedule(() => started.push(1), 1);
+
+    expect(scheduler.isPaused).toBe(true);
+    expect(scheduler.size).toBe(2);
+    scheduler.resume();
+    expect(started).toEqual([1, 2]);
+    scheduler.pause();
+    scheduler.schedule(() => started.push(3), 0);
+    await Promise.resolve();
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("should cancel pending tasks and pass the signal to running tasks", async () => {
+    const scheduler = new PriorityScheduler();
+    const blocker = deferred();
+    const running = new AbortController();
+    const waiting = new AbortController();
+    let receivedSignal: AbortSignal | undefined;
+
+    scheduler.schedule((signal) => {
+      receivedSignal = signal;
+      return blocker.promise;
+    }, 0, { signal: running.signal });
+    const cancelled = scheduler.schedule(() => "never", 1, { signal: waiting.signal });
+    const idle = scheduler.onIdle();
+
+    waiting.abort(new Error("not needed"));
+    await expect(cancelled).rejects.toThrow("not needed");
+    expect(scheduler.size).toBe(0);
+    expect(receivedSignal).toBe(running.signal);
+
+    blocker.resolve();
+    await idle;
+    await expect(scheduler.schedule(() => 1, 0, { signal: waiting.signal })).rejects.toThrow("not needed");
+  });
+
+  it("should reject invalid options and priorities", async () => {
+    expect(() => new PriorityScheduler({ concurrency: 0 })).toThrow("[pq-ts] The concurrency must be a positive integer, but got 0.");
+    expect(new PriorityScheduler({ concurrency: Number.POSITIVE_INFINITY }).concurrency).toBe(Number.POSITIVE_INFINITY);
+    await expect(new PriorityScheduler<number>().schedule(() => 1, "high" as unknown as number))
+      .rejects.toThrow("[pq-ts] The priority is not valid: high.");
+  });
+});
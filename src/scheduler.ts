@@ -0,0 +1,215 @@
+import type { IPriorityHandle, IPrioritySchedulerOptions, IScheduledTask, IScheduleOptions, IStableNode } from "./types.ts";
+import { StablePriorityQueue } from "./stable.pq.ts";
+
+/**
+ * A task waiting in a priority scheduler, with the callbacks that settle its promise.
+ */
+interface IPendingTask {
+  run: IScheduledTask<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Runs promise-returning tasks in priority order with a limit on how many run at once.
+ * Tasks with equal priorities start in the order they were scheduled, because the pending tasks
+ * are kept in a `StablePriorityQueue`.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new PriorityScheduler({ concurrency: 4 });
+ *
+ * const user = scheduler.schedule(() => fetchUser(id), 0);
+ * const report = scheduler.schedule((signal) => buildReport(signal), 10, { signal });
+ *
+ * await scheduler.onIdle();
+ * ```
+ */
+export class PriorityScheduler<P = number> {
+  /**
+   * The maximum number of tasks that run at once.
+   */
+  readonly concurrency: number;
+  /**
+   * The tasks that have not started yet.
+   * @protected
+   */
+  protected _queue: StablePriorityQueue<IPendingTask, IStableNode<IPendingTask, P>>;
+  /**
+   * The number of running tasks.
+   * @protected
+   */
+  protected _pending = 0;
+  /**
+   * Whether starting tasks is paused.
+   * @protected
+   */
+  protected _paused: boolean;
+  /**
+   * The callbacks of the promises returned by `onIdle`.
+   * @protected
+   */
+  protected _idle: (() => void)[] = [];
+
+  /**
+   * Creates a new instance of a priority scheduler.
+   * @param options - The options for the scheduler.
+   * @throws - If the concurrency is not a positive integer or `Infinity`.
+   */
+  constructor(options?: IPrioritySchedulerOptions<P>) {
+    const concurrency = options?.concurrency ?? 1;
+    if (!(Number.isInteger(concurrency) || concurrency === Number.POSITIVE_INFINITY) || concurrency < 1) {
+      throw new Error(`[pq-ts] The concurrency must be a positive integer, but got ${concurrency}.`);
+    }
+    this.concurrency = concurrency;
+    this._paused = options?.paused ?? false;
+    this._queue = new StablePriorityQueue<IPendingTask, IStableNode<IPendingTask, P>>({
+      arity: options?.arity,
+      priorityComparer: options?.priorityComparer
+    });
+  }
+
+  /**
+   * The number of tasks that have not started yet.
+   * @readonly
+   */
+  get size(): number {
+    return this._queue.count;
+  }
+
+  /**
+   * The number of running tasks.
+   * @readonly
+   */
+  get pending(): number {
+    return this._pending;
+  }
+
+  /**
+   * Whether starting tasks is paused.
+   * @readonly
+   */
+  get isPaused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Schedules a task. The task starts once it is the highest-priority pending task and fewer than
+   * `concurrency` tasks are running.
+   * @param task - The function to run, which receives the signal of the options.
+   * @param priority - The priority of the task. Smaller priorities run first.
+   * @param options - (Optional) A signal that cancels the task.
+   * @returns - A promise of the result of the task, which is rejected with the error of the task,
+   * or with the reason of the signal if the task is cancelled before it starts.
+   */
+  schedule<R>(task: IScheduledTask<R>, priority: P, options?: IScheduleOptions): Promise<R> {
+    const signal = options?.signal;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<R>((resolve, reject) => {
+      const pending: IPendingTask = { run: task, resolve: resolve as (value: unknown) => void, reject, signal };
+      const handle = this._queue.enqueueWithHandle(pending, priority);
+      if (!handle) {
+        reject(new Error(`[pq-ts] The priority is not valid: ${String(priority)}.`));
+        return;
+      }
+      if (signal) {
+        pending.onAbort = () => this.cancel(handle);
+        signal.addEventListener("abort", pending.onAbort, { once: true });
+      }
+      this.next();
+    });
+  }
+
+  /**
+   * Stops starting tasks. Running tasks are not affected.
+   */
+  pause(): void {
+    this._paused = true;
+  }
+
+  /**
+   * Starts tasks again after `pause`.
+   */
+  resume(): void {
+    if (!this._paused) return;
+    this._paused = false;
+    this.next();
+  }
+
+  /**
+   * Waits until no tasks are pending or running.
+   * @returns - A promise that resolves when the scheduler is idle.
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise<void>((resolve) => this._idle.push(resolve));
+  }
+
+  /**
+   * Determines whether no tasks are pending or running.
+   * @returns - True if the scheduler is idle, false otherwise.
+   * @protected
+   */
+  protected isIdle(): boolean {
+    return this._pending === 0 && this._queue.isEmpty();
+  }
+
+  /**
+   * Removes a pending task whose signal was aborted and rejects its promise.
+   * @param handle - The handle of the task in the queue.
+   * @protected
+   */
+  protected cancel(handle: IPriorityHandle<IPendingTask, IStableNode<IPendingTask, P>>): void {
+    const task = handle.value;
+    if (!this._queue.removeHandle(handle)) return;
+    task.reject(task.signal?.reason);
+    this.settle();
+  }
+
+  /**
+   * Starts the highest-priority pending tasks while fewer than `concurrency` tasks are running.
+   * @protected
+   */
+  protected next(): void {
+    while (!this._paused && this._pending < this.concurrency && !this._queue.isEmpty()) {
+      this.start(this._queue.dequeue() as IPendingTask);
+    }
+  }
+
+  /**
+   * Runs a task and settles its promise with the result.
+   * @param task - The task to run.
+   * @protected
+   */
+  protected start(task: IPendingTask): void {
+    if (task.onAbort) task.signal?.removeEventListener("abort", task.onAbort);
+    this._pending++;
+    let result: PromiseLike<unknown>;
+    try {
+      result = Promise.resolve(task.run(task.signal));
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+    result.then(task.resolve, task.reject).then(() => {
+      this._pending--;
+      this.next();
+      this.settle();
+    });
+  }
+
+  /**
+   * Resolves the promises returned by `onIdle` if the scheduler is idle.
+   * @protected
+   */
+  protected settle(): void {
+    if (!this.isIdle()) return;
+    const idle = this._idle;
+    this._idle = [];
+    for (const resolve of idle) {
+      resolve();
+    }
+  }
+}
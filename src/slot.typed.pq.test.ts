@@ -0,0 +1,98 @@
+import { expect, describe, it } from "vitest";
+import { SlotTypedPriorityQueue } from "./slot.typed.pq.ts";
+import type { IPriorityNode } from "./types.ts";
+
+interface Job {
+  name: string;
+}
+
+describe("SlotTypedPriorityQueue", () => {
+  it("should dequeue objects in priority order", () => {
+    const pq = new SlotTypedPriorityQueue<Job>(Float64Array, 2);
+    const a = { name: "a" };
+    const b = { name: "b" };
+    const c = { name: "c" };
+    pq.enqueue(a, 3);
+    pq.enqueue(b, 1.5);
+    pq.enqueue(c, 2);
+
+    expect(pq.count).toBe(3);
+    expect(pq.peek()).toBe(b);
+    expect(pq.dequeue()).toBe(b);
+    expect(pq.pop()).toEqual({ value: c, priority: 2, nindex: 0 });
+    expect(pq.dequeue()).toBe(a);
+    expect(pq.dequeue()).toBeUndefined();
+    expect(pq.isEmpty()).toBe(true);
+  });
+
+  it("should keep values when freed slots are reused", () => {
+    const pq = new SlotTypedPriorityQueue<string>(Int32Array, 1);
+    pq.enqueue("a", 1);
+    pq.enqueue("b", 2);
+    pq.dequeue();
+    pq.enqueue("c", 3);
+    pq.enqueue("d", 0);
+
+    expect(pq.values).toHaveLength(3);
+    expect(pq.toArray()).toEqual(["d", "b", "c"]);
+  });
+
+  it("should remove an element and release its slot", () => {
+    const pq = SlotTypedPriorityQueue.from(["a", "b", "c", "d", "e"], [5, 1, 4, 2, 3], Float32Array, 2);
+
+    expect(pq.remove("d")).toBe(true);
+    expect(pq.remove("x")).toBe(false);
+    expect(pq.toArray()).toEqual(["b", "e", "c", "a"]);
+    expect(pq.indexOf("e", true)).toBe(1);
+    expect(pq.priorityAt(1, true)).toBe(3);
+  });
+
+  it("should accept a custom comparer that reads the values", () => {
+    const pq = new SlotTypedPriorityQueue<Job>(
+      Uint8Array,
+      1,
+      (a: IPriorityNode<Job>, b: IPriorityNode<Job>) => a.priority - b.priority || a.value.name.localeCompare(b.value.name)
+    );
+    pq.enqueue({ name: "b" }, 1);
+    pq.enqueue({ name: "c" }, 0);
+    pq.enqueue({ name: "a" }, 1);
+
+    expect(pq.toArray().map((job) => job.name)).toEqual(["c", "a", "b"]);
+  });
+
+  it("should replace the root with enqueueDequeue and dequeueEnqueue", () => {
+    const pq = SlotTypedPriorityQueue.from(["a", "b", "c"], [1, 2, 3], Int16Array, 3);
+
+    expect(pq.enqueueDequeue("z", 0)).toBe("z");
+    expect(pq.enqueueDequeue("d", 4)).toBe("a");
+    expect(pq.dequeueEnqueue("e", 0)).toBe("b");
+    expect(pq.toArray()).toEqual(["e", "c", "d"]);
+  });
+
+  it("should clone and meld queues", () => {
+    const pq = SlotTypedPriorityQueue.from(["a", "b"], [2, 4], Float64Array, 1, undefined, { arity: 2 });
+    const other = SlotTypedPriorityQueue.from(["c", "d", "e"], [1, 3, 5], Float64Array, 1);
+    const clone = pq.clone();
+
+    pq.meld(other);
+    expect(other.count).toBe(0);
+    expect(pq.toArray()).toEqual(["c", "a", "d", "b", "e"]);
+    expect(clone.arity).toBe(2);
+    expect(clone.toArray()).toEqual(["a", "b"]);
+  });
+
+  it("should keep heap order in a stress test", () => {
+    const pq = new SlotTypedPriorityQueue<{ id: number }>(Float64Array, 8);
+    for (let i = 0; i < 1000; i++) {
+      pq.enqueue({ id: i }, Math.random());
+      if (i % 3 === 0) pq.dequeue();
+    }
+
+    let prev = pq.pop()!;
+    while (!pq.isEmpty()) {
+      const curr = pq.pop()!;
+      expect(curr.priority).toBeGreaterThanOrEqual(prev.priority);
+      prev = curr;
+    }
+  });
+});
@@ -0,0 +1,419 @@
+import type { IComparer, IEqualityComparator, IPriorityNode, IPriorityQueueLike, IPriorityQueueOptions, TypedArray, TypedArrayConstructor } from "./types.ts";
+import { growTyped, upWithPriorities, downWithPriorities, heapifyWithPriorities, ordered, log2Arity, ARITY } from "./primitive.ts";
+
+/**
+ * A priority queue of arbitrary values that sifts typed arrays.
+ * The heap stores a slot id and a priority per element in typed arrays, and the values live in a
+ * slot table indexed by slot id. Slots of removed elements are reused through a free list, so
+ * enqueueing objects does not allocate a node per element.
+ *
+ * @remarks
+ * With the default comparer, elements are ordered by priority without reading the slot table.
+ * A custom comparer receives nodes with the values looked up from the slot table.
+ */
+export class SlotTypedPriorityQueue<
+  T,
+  Node extends IPriorityNode<T> = IPriorityNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+> implements IPriorityQueueLike<T, Node, Comparer> {
+  protected _slots: Uint32Array;
+  protected _priorities: TypedArray;
+  protected _values: (T | undefined)[] = [];
+  protected _free: number[] = [];
+  protected _size = 0;
+  protected _backend: TypedArrayConstructor;
+  protected readonly _defaultSize: number;
+  protected readonly _log2Arity: number;
+  protected readonly _compareSlots: IComparer<IPriorityNode<number>>;
+  compare: Comparer;
+
+  protected readonly _up = (node: IPriorityNode<number>, index: number) => {
+    return upWithPriorities(this._slots, this._priorities, undefined, undefined, this._log2Arity)(
+      node, index, this._compareSlots
+    );
+  }
+
+  protected readonly _down = (node: IPriorityNode<number>, index: number) => {
+    return downWithPriorities(this._slots, this._priorities, this._size, undefined, undefined, this._log2Arity)(
+      node, index, this._compareSlots
+    );
+  }
+
+  protected readonly _heapify = (size: number) => {
+    return heapifyWithPriorities(this._slots, this._priorities, size, undefined, undefined, this._log2Arity)(
+      this._compareSlots
+    );
+  }
+
+  /**
+   * Creates a new instance of a priority queue with a slot table for the values.
+   * @param backend - The typed array constructor for the priorities.
+   * @param size - The initial size of the queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   */
+  constructor(backend: TypedArrayConstructor, size: number, comparer?: Comparer, options?: IPriorityQueueOptions) {
+    this._backend = backend;
+    this._defaultSize = size;
+    this._log2Arity = log2Arity(options?.arity ?? ARITY);
+    this._slots = new Uint32Array(size);
+    this._priorities = new backend(size);
+    this.compare = comparer ?? ((a: Node, b: Node) => a.priority - b.priority) as Comparer;
+    this._compareSlots = comparer
+      ? (a, b) => this.compare(this.resolve(a), this.resolve(b))
+      : (a, b) => a.priority - b.priority;
+  }
+
+  /**
+   * The typed array constructor for the priorities.
+   * @readonly
+   */
+  get backend(): TypedArrayConstructor {
+    return this._backend;
+  }
+
+  get count(): number {
+    return this._size;
+  }
+
+  /**
+   * The number of children each node in the heap has.
+   * @readonly
+   */
+  get arity(): number {
+    return 1 << this._log2Arity;
+  }
+
+  get values(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this._size; i++) {
+      result.push(this._values[this._slots[i]] as T);
+    }
+    return result;
+  }
+
+  get heap(): Node[] {
+    const result: Node[] = [];
+    for (let i = 0; i < this._size; i++) {
+      result.push(this.nodeAt(i));
+    }
+    return result;
+  }
+
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  enqueue(value: T, priority: number): boolean {
+    const currentSize = this._size;
+    if (currentSize === this._slots.length) {
+      this.grow(currentSize + 1);
+    }
+    this._size = currentSize + 1;
+    this._up({ value: this.allocate(value), priority, nindex: currentSize }, currentSize);
+    return true;
+  }
+
+  dequeue(): T | undefined {
+    if (this.isEmpty()) return undefined;
+    const slot = this._slots[0];
+    const value = this._values[slot];
+    this.removeRootNode();
+    this.release(slot);
+    return value;
+  }
+
+  pop(): Node | undefined {
+    if (this.isEmpty()) return undefined;
+    const node = this.nodeAt(0);
+    this.removeRootNode();
+    this.release(this._slots[this._size]);
+    return node;
+  }
+
+  peek(): T | undefined {
+    return this.isEmpty() ? undefined : this._values[this._slots[0]];
+  }
+
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * The new element takes over the slot of the removed element.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   */
+  enqueueDequeue(value: T, priority: number): T | undefined {
+    if (this.isEmpty()) return value;
+    if (this.compare(this.nodeAt(0), this.createNode(value, priority, 0)) >= 0) return value;
+
+    return this.replaceRoot(value, priority);
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * The new element takes over the slot of the front of the queue and is moved down once.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   */
+  dequeueEnqueue(value: T, priority: number): T | undefined {
+    if (this.isEmpty()) {
+      this.enqueue(value, priority);
+      return undefined;
+    }
+
+    return this.replaceRoot(value, priority);
+  }
+
+  /**
+   * Moves all elements of another slot queue into this queue and leaves the other queue empty.
+   * The elements are appended to the heap, which is then rebuilt in O(n) when more elements were
+   * appended than were already in the queue; otherwise each appended element is moved up.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  meld(other: SlotTypedPriorityQueue<T, Node, Comparer>): this {
+    if (other === this || other.isEmpty()) return this;
+    const currentSize = this._size;
+    const size = currentSize + other._size;
+    if (this._slots.length < size) {
+      this.grow(size);
+    }
+    for (let i = 0; i < other._size; i++) {
+      this._slots[currentSize + i] = this.allocate(other._values[other._slots[i]] as T);
+      this._priorities[currentSize + i] = other._priorities[i];
+    }
+    this._size = size;
+
+    if (size - currentSize > currentSize) {
+      this._heapify(size);
+    } else {
+      for (let i = currentSize; i < size; i++) {
+        this._up({ value: this._slots[i], priority: this._priorities[i], nindex: i }, i);
+      }
+    }
+
+    other.clear();
+    return this;
+  }
+
+  clear(): void {
+    this._slots = new Uint32Array(this._defaultSize);
+    this._priorities = new this._backend(this._defaultSize);
+    this._values = [];
+    this._free = [];
+    this._size = 0;
+  }
+
+  toArray(): T[] {
+    const result: T[] = [];
+    for (const value of this) {
+      result.push(value);
+    }
+    return result;
+  }
+
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * Reading the first k nodes takes O(k log k) time.
+   * @returns - A generator of nodes in priority order.
+   */
+  orderedNodes(): Generator<Node, void, undefined> {
+    return ordered((index) => this.nodeAt(index), this._size, this._log2Arity)(this.compare);
+  }
+
+  clone(): this {
+    const size = Math.max(this._slots.length, this._defaultSize);
+    const clone = new SlotTypedPriorityQueue<T, Node, Comparer>(this._backend, size, this.compare, { arity: this.arity });
+    clone._slots.set(this._slots);
+    clone._priorities.set(this._priorities);
+    clone._values = this._values.slice();
+    clone._free = this._free.slice();
+    clone._size = this._size;
+    return clone as this;
+  }
+
+  remove(value: T, comparer: IEqualityComparator<T> = (a, b) => a === b): boolean {
+    const index = this.indexOf(value, false, (a, b) => comparer(b, a));
+    if (index < 0) return false;
+    const slot = this._slots[index];
+    const removedNode = { value: slot, priority: this._priorities[index], nindex: index };
+    const newSize = --this._size;
+
+    // If the element is not the last one, replace it with the last element.
+    if (index < newSize) {
+      const lastNode = { value: this._slots[newSize], priority: this._priorities[newSize], nindex: newSize };
+
+      // If lastNode has higher or equal priority than removed, it may need to bubble up;
+      // otherwise it has lower priority and must bubble down.
+      if (this._compareSlots(removedNode, lastNode) < 0) {
+        this._down(lastNode, index);
+      } else {
+        this._up(lastNode, index);
+      }
+    }
+
+    this._slots[newSize] = 0;
+    this._priorities[newSize] = 0;
+    this.release(slot);
+    return true;
+  }
+
+  indexOf(value: T, dequeue = false, comparer: IEqualityComparator<T> = (a, b) => a === b): number {
+    if (!dequeue) {
+      for (let i = 0; i < this._size; i++) {
+        if (comparer(this._values[this._slots[i]] as T, value)) return i;
+      }
+      return -1;
+    }
+    let index = 0;
+    for (const element of this) {
+      if (comparer(element, value)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  priorityAt(index: number, dequeue = false): number {
+    if (index >= this._size) return Number.MAX_VALUE;
+    if (!dequeue || index === 0) return this._priorities[index];
+    let i = index;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
+    }
+
+    return Number.MAX_VALUE;
+  }
+
+  toString(): string {
+    return this.toArray().join(", ");
+  }
+
+  /**
+   * Creates a new node for the queue.
+   * @param value - The value of the node.
+   * @param priority - The priority of the node.
+   * @param nindex - The index of the node in the heap.
+   * @returns - The new node.
+   */
+  protected createNode(value: T, priority: number, nindex: number): Node {
+    return { value, priority, nindex } as Node;
+  }
+
+  /**
+   * Reads the node at the specified heap index with its value looked up from the slot table.
+   * @param index - The index of the node.
+   * @returns - The node at the index.
+   */
+  protected nodeAt(index: number): Node {
+    return this.createNode(this._values[this._slots[index]] as T, this._priorities[index], index);
+  }
+
+  /**
+   * Looks up the value of a heap node that holds a slot id.
+   * @param node - The heap node.
+   * @returns - The node with its value.
+   */
+  protected resolve(node: IPriorityNode<number>): Node {
+    return this.createNode(this._values[node.value] as T, node.priority, node.nindex);
+  }
+
+  /**
+   * Stores a value in a free slot, or in a new slot when none is free.
+   * @param value - The value to store.
+   * @returns - The slot id of the value.
+   */
+  protected allocate(value: T): number {
+    const slot = this._free.pop();
+    if (slot === undefined) {
+      return this._values.push(value) - 1;
+    }
+    this._values[slot] = value;
+    return slot;
+  }
+
+  /**
+   * Frees a slot so that its value can be garbage collected and the slot reused.
+   * @param slot - The slot id to free.
+   */
+  protected release(slot: number): void {
+    this._values[slot] = undefined;
+    this._free.push(slot);
+  }
+
+  /**
+   * Replaces the element at the front of the queue, reusing its slot, and moves it down.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue.
+   */
+  protected replaceRoot(value: T, priority: number): T | undefined {
+    const slot = this._slots[0];
+    const root = this._values[slot];
+    this._values[slot] = value;
+    this._down({ value: slot, priority, nindex: 0 }, 0);
+    return root;
+  }
+
+  protected removeRootNode(): void {
+    if (this.isEmpty()) return;
+    const lastNodeIndex = --this._size;
+    const root = this._slots[0];
+
+    if (lastNodeIndex > 0) {
+      this._down({ value: this._slots[lastNodeIndex], priority: this._priorities[lastNodeIndex], nindex: 0 }, 0);
+    }
+
+    // Keep the slot of the removed root past the end of the heap for the caller to release.
+    this._slots[lastNodeIndex] = root;
+    this._priorities[lastNodeIndex] = 0;
+  }
+
+  protected grow(minCapacity: number): void {
+    this._slots = growTyped(this._slots, minCapacity, Uint32Array);
+    this._priorities = growTyped(this._priorities, minCapacity, this._backend);
+  }
+
+  /**
+   * Iterates over the queue in priority order.
+   * @returns - An iterator for the queue.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Creates a queue from elements and priorities.
+   * @param elements - An array of elements to be added to the queue.
+   * @param priorities - An array of priorities corresponding to the elements.
+   * @param backend - The typed array constructor for the priorities.
+   * @param size - The initial size of the queue.
+   * @param comparer - (Optional) A custom comparer for the queue elements.
+   * @param options - (Optional) The options for the queue.
+   * @returns - A new instance of the queue.
+   */
+  static from<
+    T,
+    Node extends IPriorityNode<T> = IPriorityNode<T>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+  >(
+    elements: T[],
+    priorities: number[],
+    backend: TypedArrayConstructor,
+    size: number,
+    comparer?: Comparer,
+    options?: IPriorityQueueOptions
+  ): SlotTypedPriorityQueue<T, Node, Comparer> {
+    const queue = new SlotTypedPriorityQueue<T, Node, Comparer>(backend, Math.max(size, elements.length), comparer, options);
+    for (let i = 0; i < elements.length; i++) {
+      queue._slots[i] = queue.allocate(elements[i]);
+      queue._priorities[i] = priorities[i];
+    }
+    queue._size = elements.length;
+    queue._heapify(queue._size);
+    return queue;
+  }
+}
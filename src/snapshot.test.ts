@@ -0,0 +1,65 @@
+import { expect, describe, it } from "vitest";
+import { crc32, readSnapshot, writeSnapshot, SNAPSHOT_VERSION } from "./snapshot.ts";
+
+describe("snapshot", () => {
+  it("should compute the CRC-32 of bytes", () => {
+    const bytes = new TextEncoder().encode("123456789");
+    expect(crc32(bytes)).toBe(0xcbf43926);
+    expect(crc32(bytes.subarray(4), crc32(bytes.subarray(0, 4)))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it("should write a little-endian header and aligned sections", () => {
+    const bytes = writeSnapshot({
+      valueBackend: Uint8Array,
+      priorityBackend: Float64Array,
+      log2Arity: 2,
+      capacity: 16,
+      elements: Uint8Array.from([7, 8, 9]),
+      priorities: Float64Array.from([1, 2, 3]),
+      indices: BigInt64Array.from([0n, 1n, 2n]),
+      sindex: 3n,
+    });
+    const view = new DataView(bytes.buffer);
+
+    expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe("PQTS");
+    expect(bytes[4]).toBe(SNAPSHOT_VERSION);
+    expect(view.getUint32(12, true)).toBe(3);
+    expect(Array.from(bytes.subarray(32, 35))).toEqual([7, 8, 9]);
+    expect(view.getFloat64(40, true)).toBe(1);
+    expect(view.getBigInt64(64, true)).toBe(0n);
+    expect(bytes.length).toBe(88);
+  });
+
+  it("should read what it writes", () => {
+    const snapshot = {
+      valueBackend: BigUint64Array,
+      priorityBackend: Int16Array,
+      log2Arity: 3,
+      capacity: 4,
+      elements: BigUint64Array.from([2n ** 64n - 1n, 5n]),
+      priorities: Int16Array.from([-3, 300]),
+      sindex: 0n,
+    };
+
+    const read = readSnapshot(writeSnapshot(snapshot).buffer);
+    expect(read).toEqual({ ...snapshot, indices: undefined });
+  });
+
+  it("should reject bytes that are not a supported snapshot", () => {
+    const bytes = writeSnapshot({
+      valueBackend: Int32Array,
+      priorityBackend: Int32Array,
+      log2Arity: 2,
+      capacity: 1,
+      elements: Int32Array.from([1]),
+      priorities: Int32Array.from([1]),
+      sindex: 0n,
+    });
+
+    expect(() => readSnapshot(new Uint8Array(8))).toThrow("[pq-ts] The buffer does not hold a typed queue snapshot.");
+    expect(() => readSnapshot(bytes.subarray(0, 36))).toThrow("[pq-ts] The snapshot is truncated or corrupt.");
+    bytes[4] = 9;
+    expect(() => readSnapshot(bytes)).toThrow("[pq-ts] Unsupported snapshot version: 9.");
+  });
+});
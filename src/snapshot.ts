@@ -0,0 +1,176 @@
+/**
+ * A versioned binary format for snapshots of typed queues.
+ *
+ * A snapshot starts with a 32-byte little-endian header:
+ * - bytes 0-3: the magic number, the ASCII characters `PQTS`
+ * - byte 4: the format version
+ * - byte 5: flags; bit 0 is set when the snapshot holds insertion indices
+ * - bytes 6-7: the backends of the elements and priorities, as positions in `SHARED_BACKENDS` plus one
+ * - byte 8: the log base 2 of the heap's arity
+ * - bytes 12-15: the number of elements
+ * - bytes 16-19: the capacity of the queue
+ * - bytes 20-23: the CRC-32 of every other byte of the snapshot
+ * - bytes 24-31: the next insertion index
+ *
+ * The header is followed by the elements, the priorities and the insertion indices in heap order.
+ * Each section starts at a multiple of 8 bytes and stores its values in little-endian byte order.
+ *
+ * @module Snapshot
+ */
+import type { BigTypedArrayConstructor, ITypedSnapshot, TypedArrayConstructor, TypedStorage } from "./types.ts";
+import { SHARED_BACKENDS } from "./primitive.ts";
+
+/**
+ * The version of the snapshot format written by `writeSnapshot`.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+const MAGIC = 0x53545150;
+const HEADER_BYTES = 32;
+const CHECKSUM_OFFSET = 20;
+const STABLE_FLAG = 1;
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of bytes, continuing from a previous checksum.
+ * @param bytes - The bytes to add to the checksum.
+ * @param crc - The checksum of the preceding bytes. Defaults to the checksum of no bytes.
+ * @returns - The checksum.
+ */
+export const crc32 = (bytes: Uint8Array, crc = 0): number => {
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+const align = (offset: number) => Math.ceil(offset / 8) * 8;
+
+/**
+ * Reverses the bytes of each value, converting between little-endian and big-endian order.
+ * @param bytes - The bytes of the values.
+ * @param width - The number of bytes per value.
+ */
+const swapBytes = (bytes: Uint8Array, width: number): void => {
+  if (width === 1) return;
+  for (let i = 0; i < bytes.length; i += width) {
+    bytes.subarray(i, i + width).reverse();
+  }
+}
+
+/**
+ * Returns the bytes of typed array values.
+ * @param values - The typed array values.
+ * @param width - The number of bytes per value.
+ * @returns - The bytes of the values.
+ */
+const bytesOf = (values: TypedStorage, width: number): Uint8Array => {
+  const view = values as unknown as ArrayBufferView;
+  return new Uint8Array(view.buffer, view.byteOffset, values.length * width);
+}
+
+/**
+ * Writes a snapshot of a typed queue.
+ * @param snapshot - The contents of the queue.
+ * @returns - The bytes of the snapshot.
+ */
+export const writeSnapshot = (snapshot: ITypedSnapshot): Uint8Array => {
+  const { valueBackend, priorityBackend, elements, priorities, indices } = snapshot;
+  const size = elements.length;
+  const valueBytes = valueBackend.BYTES_PER_ELEMENT;
+  const priorityBytes = priorityBackend.BYTES_PER_ELEMENT;
+  const prioritiesOffset = align(HEADER_BYTES + size * valueBytes);
+  const indicesOffset = align(prioritiesOffset + size * priorityBytes);
+  const bytes = new Uint8Array(indices ? indicesOffset + size * 8 : indicesOffset);
+
+  const sections: [TypedStorage, number, number][] = [
+    [elements, HEADER_BYTES, valueBytes],
+    [priorities, prioritiesOffset, priorityBytes],
+  ];
+  if (indices) sections.push([indices, indicesOffset, 8]);
+  for (const [values, offset, width] of sections) {
+    bytes.set(bytesOf(values, width), offset);
+    if (!LITTLE_ENDIAN) swapBytes(bytes.subarray(offset, offset + values.length * width), width);
+  }
+
+  const header = new DataView(bytes.buffer);
+  header.setUint32(0, MAGIC, true);
+  header.setUint8(4, SNAPSHOT_VERSION);
+  header.setUint8(5, indices ? STABLE_FLAG : 0);
+  header.setUint8(6, SHARED_BACKENDS.indexOf(valueBackend as typeof SHARED_BACKENDS[number]) + 1);
+  header.setUint8(7, SHARED_BACKENDS.indexOf(priorityBackend as typeof SHARED_BACKENDS[number]) + 1);
+  header.setUint8(8, snapshot.log2Arity);
+  header.setUint32(12, size, true);
+  header.setUint32(16, snapshot.capacity, true);
+  header.setBigInt64(24, snapshot.sindex, true);
+  header.setUint32(CHECKSUM_OFFSET, crc32(bytes.subarray(CHECKSUM_OFFSET + 4), crc32(bytes.subarray(0, CHECKSUM_OFFSET))), true);
+  return bytes;
+}
+
+/**
+ * Reads a snapshot of a typed queue.
+ * On little-endian platforms, the values are read without copying when the snapshot starts at a multiple of 8 bytes.
+ * @param source - The bytes of the snapshot.
+ * @returns - The contents of the queue.
+ * @throws - If the bytes are not a snapshot, the version is not supported, or the checksum does not match.
+ */
+export const readSnapshot = (source: ArrayBufferLike | ArrayBufferView): ITypedSnapshot => {
+  const bytes = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+  const header = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < HEADER_BYTES || header.getUint32(0, true) !== MAGIC) {
+    throw new Error("[pq-ts] The buffer does not hold a typed queue snapshot.");
+  }
+  const version = header.getUint8(4);
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`[pq-ts] Unsupported snapshot version: ${version}.`);
+  }
+
+  const valueBackend = SHARED_BACKENDS[header.getUint8(6) - 1];
+  const priorityBackend = SHARED_BACKENDS[header.getUint8(7) - 1];
+  const stable = (header.getUint8(5) & STABLE_FLAG) !== 0;
+  const size = header.getUint32(12, true);
+  const prioritiesOffset = align(HEADER_BYTES + size * (valueBackend?.BYTES_PER_ELEMENT ?? 0));
+  const indicesOffset = align(prioritiesOffset + size * (priorityBackend?.BYTES_PER_ELEMENT ?? 0));
+  if (!valueBackend || !priorityBackend || bytes.length < (stable ? indicesOffset + size * 8 : indicesOffset)) {
+    throw new Error("[pq-ts] The snapshot is truncated or corrupt.");
+  }
+  const checksum = crc32(bytes.subarray(CHECKSUM_OFFSET + 4), crc32(bytes.subarray(0, CHECKSUM_OFFSET)));
+  if (checksum !== header.getUint32(CHECKSUM_OFFSET, true)) {
+    throw new Error("[pq-ts] The snapshot checksum does not match.");
+  }
+
+  const read = (backend: TypedArrayConstructor | BigTypedArrayConstructor, offset: number): TypedStorage => {
+    const width = backend.BYTES_PER_ELEMENT;
+    const start = bytes.byteOffset + offset;
+    if (LITTLE_ENDIAN && start % 8 === 0) return new backend(bytes.buffer, start, size);
+    const copy = bytes.slice(offset, offset + size * width);
+    if (!LITTLE_ENDIAN) swapBytes(copy, width);
+    return new backend(copy.buffer, 0, size);
+  };
+
+  return {
+    valueBackend,
+    priorityBackend,
+    log2Arity: header.getUint8(8),
+    capacity: header.getUint32(16, true),
+    elements: read(valueBackend, HEADER_BYTES),
+    priorities: read(priorityBackend, prioritiesOffset),
+    indices: stable ? read(BigInt64Array, indicesOffset) as BigInt64Array : undefined,
+    sindex: header.getBigInt64(24, true),
+  };
+}
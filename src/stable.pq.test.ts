@@ -1,5 +1,7 @@
 import { expect, describe, it } from "vitest";
 import { StablePriorityQueue } from "./stable.pq.ts";
+import type { IStableNode } from "./types.ts";
+import { compareBigInts, compareNumbers } from "./comparer.ts";
 
 describe("StablePriorityQueue", () => {
   it("should create a stable priority queue from an existing queue", () => {
@@ -341,4 +343,150 @@ describe("StablePriorityQueue", () => {
       prev = curr;
     }
   });
+  it("should keep insertion order when updating priorities through handles", () => {
+    const pq = new StablePriorityQueue<string>();
+    const a = pq.enqueueWithHandle("a", 5)!;
+    pq.enqueueWithHandle("b", 3);
+    pq.enqueueWithHandle("c", 3);
+
+    expect(pq.updatePriority(a, 3)).toBe(true);
+    expect(pq.toArray()).toEqual(["a", "b", "c"]);
+  });
+
+  it("should remove elements through handles", () => {
+    const pq = new StablePriorityQueue<string>();
+    pq.enqueueWithHandle("a", 3);
+    const b = pq.enqueueWithHandle("b", 3)!;
+    pq.enqueueWithHandle("c", 3);
+
+    expect(pq.removeHandle(b)).toBe(true);
+    expect(pq.priorityOf(b)).toBeUndefined();
+    expect(pq.toArray()).toEqual(["a", "c"]);
+  });
+  it("should keep insertion order in enqueueDequeue", () => {
+    const pq = new StablePriorityQueue<string>();
+    pq.enqueue("a", 3);
+    pq.enqueue("b", 5);
+
+    expect(pq.enqueueDequeue("c", 3)).toBe("a");
+    expect(pq.toArray()).toEqual(["c", "b"]);
+  });
+
+  it("should keep insertion order in dequeueEnqueue", () => {
+    const pq = new StablePriorityQueue<string>();
+    pq.enqueue("a", 1);
+    pq.enqueue("b", 3);
+
+    expect(pq.dequeueEnqueue("c", 3)).toBe("a");
+    expect(pq.toArray()).toEqual(["b", "c"]);
+  });
+  it("should keep insertion order when enqueueing a range of elements", () => {
+    const pq = new StablePriorityQueue<string>();
+    pq.enqueue("a", 1);
+    pq.enqueueRange([["b", 2], ["c", 1], ["d", 2], ["e", 1]]);
+
+    expect(pq.toArray()).toEqual(["a", "c", "e", "b", "d"]);
+  });
+
+  it("should create a stable priority queue from value and priority pairs", () => {
+    const pq = StablePriorityQueue.fromEntries(new Map([["a", 2], ["b", 1], ["c", 2]]));
+    expect(pq.toArray()).toEqual(["b", "a", "c"]);
+  });
+
+  it("should create a stable priority queue from an array of value and priority pairs", () => {
+    const pq = new StablePriorityQueue<string>([["a", 2], ["b", 1], ["c", 2]], undefined, { entries: true });
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual(["b", "a", "c"]);
+  });
+  it("should keep insertion order with a configurable arity", () => {
+    const pq = new StablePriorityQueue<number>({ arity: 2 });
+    expect(pq.arity).toBe(2);
+    for (let i = 0; i < 20; i++) {
+      pq.enqueue(i, i % 2);
+    }
+
+    expect(pq.clone().arity).toBe(2);
+    expect(pq.toArray()).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]);
+  });
+
+  it("should keep FIFO order across melded queues", () => {
+    const pq = new StablePriorityQueue<string>();
+    pq.enqueue("a1", 1);
+    pq.enqueue("a2", 2);
+    const other = new StablePriorityQueue<string>();
+    other.enqueue("b1", 1);
+    other.enqueue("b2", 2);
+    other.enqueue("b3", 1);
+
+    pq.meld(other);
+    pq.enqueue("a3", 1);
+    expect(pq.toArray()).toEqual(["a1", "b1", "b3", "a3", "a2", "b2"]);
+  });
+
+  it("should keep insertion order with a priority comparer", () => {
+    const pq = new StablePriorityQueue<string, IStableNode<string, bigint>>({ priorityComparer: compareBigInts });
+    pq.enqueue("a", 2n);
+    pq.enqueue("b", 1n);
+    pq.enqueue("c", 2n);
+    pq.enqueue("d", 1n);
+
+    expect(pq.clone().toArray()).toEqual(["b", "d", "a", "c"]);
+    expect(pq.priorityAt(0)).toBe(1n);
+    expect(pq.priorityAt(4)).toBeUndefined();
+  });
+
+  it("should return undefined for out-of-range indices with a numeric priority comparer", () => {
+    const pq = new StablePriorityQueue<string>({ priorityComparer: compareNumbers });
+    pq.enqueue("a", 1);
+
+    expect(pq.priorityAt(0)).toBe(1);
+    expect(pq.priorityAt(1)).toBeUndefined();
+    expect(pq.priorityAt(-1)).toBeUndefined();
+  });
+
+  it("should keep insertion order when restored from JSON", () => {
+    const pq = new StablePriorityQueue<string>();
+    pq.enqueue("a", 1);
+    pq.enqueue("b", 0);
+    pq.enqueue("c", 1);
+    pq.dequeue();
+    pq.enqueue("d", 1);
+
+    const json = JSON.parse(JSON.stringify(pq));
+    expect(json.indices).toHaveLength(3);
+    expect(json.index).toBe("4");
+
+    const restored = StablePriorityQueue.fromJSON(json) as StablePriorityQueue<string>;
+    restored.enqueue("e", 1);
+    expect(restored).toBeInstanceOf(StablePriorityQueue);
+    expect(restored.toArray()).toEqual(["a", "c", "d", "e"]);
+  });
+
+  it("should restore a stable queue from the JSON of a priority queue", () => {
+    const json = { arity: 4, capacity: 4, values: ["a", "b", "c"], priorities: [0, 1, 1] };
+    const restored = StablePriorityQueue.fromJSON(json) as StablePriorityQueue<string>;
+    restored.enqueue("d", 1);
+    expect(restored.toArray()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should emit events when elements are popped or replaced", () => {
+    const pq = new StablePriorityQueue<string>();
+    const events: [string, string][] = [];
+    pq.on("enqueue", ({ value }) => events.push(["enqueue", value]));
+    pq.on("dequeue", ({ value }) => events.push(["dequeue", value]));
+
+    pq.enqueue("a", 1);
+    expect(pq.enqueueDequeue("b", 0)).toBe("b");
+    expect(pq.enqueueDequeue("c", 2)).toBe("a");
+    pq.pop();
+
+    expect(events).toEqual([
+      ["enqueue", "a"],
+      ["enqueue", "b"],
+      ["dequeue", "b"],
+      ["enqueue", "c"],
+      ["dequeue", "a"],
+      ["dequeue", "c"],
+    ]);
+  });
 });
@@ -1,11 +1,14 @@
-import type { IComparer, IEqualityComparator, IStableNode } from "./types.ts";
+import type { IComparer, IEqualityComparator, IPriorityQueueOptions, IQueueCodecs, IQueueJSON, IStableNode } from "./types.ts";
 import { PriorityQueue } from "./pq.ts";
+import { log2Arity, ARITY } from "./primitive.ts";
 
 export class StablePriorityQueue<
   T,
-  Node extends IStableNode<T> = IStableNode<T>,
-  Comparer extends IComparer<Node> = IComparer<Node>
-> extends PriorityQueue<T, Node, Comparer> {
+  // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+  Node extends IStableNode<T, any> = IStableNode<T>,
+  Comparer extends IComparer<Node> = IComparer<Node>,
+  P = Node["priority"]
+> extends PriorityQueue<T, Node, Comparer, P> {
   protected override _elements: Node[] = [];
   private _index = 0n;
   override compare: Comparer;
@@ -14,68 +17,143 @@ export class StablePriorityQueue<
    * Creates a new instance of a stable priority queue.
    */
   constructor();
+  /**
+   * Creates a new instance of a stable priority queue.
+   * @param options - The options for the queue.
+   */
+  constructor(options: IPriorityQueueOptions<P>);
   /**
    * Creates a new instance of a stable priority queue.
    * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
    */
-  constructor(comparer: Comparer);
+  constructor(comparer: Comparer, options?: IPriorityQueueOptions<P>);
   /**
    * Creates a new instance of a priority queue.
    * @param queue - The queue to copy elements from.
    * @param comparer - An optional comparison function.
    */
-  constructor(queue: StablePriorityQueue<T, Node, Comparer>, comparer?: Comparer);
+  constructor(queue: StablePriorityQueue<T, Node, Comparer, P>, comparer?: Comparer);
+  /**
+   * Creates a new instance of a stable priority queue from an array of value and priority pairs.
+   * The heap is built in O(n), and pairs with equal priorities keep their order in the array.
+   * @param entries - The value and priority pairs to add to the queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue, with `entries` set to true.
+   */
+  constructor(entries: [T, P][], comparer: Comparer | undefined, options: IPriorityQueueOptions<P> & { entries: true });
   /**
    * Creates a new instance of a stable priority queue.
    * @param elements - The elements to add to the queue.
    * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
    */
-  constructor(elements: T[], comparer?: IComparer<T>);
-  constructor(elements?: T[] | StablePriorityQueue<T, Node, Comparer> | Node[], comparer?: Comparer) {
-    const min = ((a, b) => {
-      if (a.priority === b.priority) return a.sindex < b.sindex ? -1 : 1;
-      return a.priority < b.priority ? -1 : a.priority > b.priority ? 1 : 0;
-    }) as Comparer;
+  constructor(elements: T[], comparer?: IComparer<T>, options?: IPriorityQueueOptions<P>);
+  /**
+   * Creates a new instance of a stable priority queue.
+   * @param entries - The value and priority pairs to add to the queue.
+   * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   * @remarks Arrays are treated as elements unless the `entries` option is set.
+   */
+  constructor(entries: Iterable<[T, P]>, comparer?: Comparer, options?: IPriorityQueueOptions<P>);
+  constructor(
+    elements?: T[] | StablePriorityQueue<T, Node, Comparer, P> | Node[] | Iterable<[T, P]> | Comparer | IPriorityQueueOptions<P>,
+    comparer?: Comparer | IPriorityQueueOptions<P>,
+    options?: IPriorityQueueOptions<P>
+  ) {
+    const settings = PriorityQueue.resolveOptions<P>(elements, comparer, options);
+    const priorityComparer = settings?.priorityComparer;
+    const min = (priorityComparer
+      ? (a: Node, b: Node) => priorityComparer(a.priority, b.priority) || (a.sindex < b.sindex ? -1 : 1)
+      : (a: Node, b: Node) => {
+        if (a.priority === b.priority) return a.sindex < b.sindex ? -1 : 1;
+        return a.priority < b.priority ? -1 : a.priority > b.priority ? 1 : 0;
+      }) as Comparer;
     super([]);
+    this._log2Arity = log2Arity(settings?.arity ?? ARITY);
+    this._priorityComparer = priorityComparer;
     if (elements instanceof StablePriorityQueue) {
-      this._elements = [...elements._elements];
+      this._elements = elements._elements.map((node) => node && { ...node });
       this._size = elements._size;
+      this._log2Arity = elements._log2Arity;
+      this._priorityComparer = elements._priorityComparer;
       this.compare = elements.compare;
       this._index = elements._index;
+    } else if (Array.isArray(elements) && settings?.entries) {
+      this.compare = comparer as Comparer ?? min as Comparer;
+      this.enqueueRange(elements as [T, P][]);
     } else if (Array.isArray(elements)) {
       this._elements = new Array(elements.length);
-      this.compare = comparer ?? min as Comparer;
+      this.compare = comparer as Comparer ?? min as Comparer;
       for (const element of elements) {
-        this.enqueue(element as T, 0);
+        this.enqueue(element as T, 0 as P);
       }
       this._size = elements.length;
+    } else if (elements && Symbol.iterator in elements) {
+      this.compare = comparer as Comparer ?? min as Comparer;
+      this.enqueueRange(elements);
     } else if (typeof elements === "function") {
       this.compare = elements ?? min as Comparer;
     } else {
-      this.compare = comparer ?? min as Comparer;
+      this.compare = typeof comparer === "function" ? comparer : min as Comparer;
     }
 
     this._heapify(this._size);
   }
 
-  override enqueue(value: T, priority: number): boolean {
-    if (typeof priority !== "number") return false;
-    const currentSize = this._size;
-    if (this._elements.length === currentSize) {
-      this._grow(currentSize + 1);
+  protected override createNode(value: T, priority: P, nindex: number): Node {
+    return { value, priority, nindex, sindex: this._index++ } as Node;
+  }
+
+  /**
+   * Loads the elements of a queue from its JSON representation, keeping their heap order and insertion order.
+   * Without stored insertion indices, the elements are inserted in heap order.
+   * @param json - The JSON representation of the queue.
+   * @param codecs - The codecs for values and priorities that are not JSON values.
+   * @protected
+   */
+  protected override restore(json: IQueueJSON, codecs?: IQueueCodecs<T, P>): void {
+    super.restore(json, codecs);
+    if (!json.indices) return;
+    for (let i = 0; i < this._size; i++) {
+      this._elements[i].sindex = BigInt(json.indices[i]);
     }
-    const element = {
-      value,
-      priority,
-      nindex: currentSize,
-      sindex: this._index
-    } as Node;
+    this._index = BigInt(json.index ?? this._size);
+  }
 
-    this._size = currentSize + 1;
-    this._index += 1n;
-    this._up(element, currentSize);
+  /**
+   * Converts the queue to its JSON representation, including the insertion order of its elements.
+   * @param codecs - (Optional) The codecs for values and priorities that are not JSON values.
+   * @returns - The JSON representation of the queue.
+   */
+  override toJSON(codecs?: IQueueCodecs<T, P>): IQueueJSON {
+    const indices: string[] = [];
+    for (let i = 0; i < this._size; i++) {
+      indices.push(this._elements[i].sindex.toString());
+    }
+    return { ...super.toJSON(codecs), indices, index: this._index.toString() };
+  }
 
-    return true;
+  /**
+   * Moves all elements of another stable queue into this queue and leaves the other queue empty.
+   * The elements of the other queue keep their relative insertion order and are ordered
+   * after the elements already in this queue when their priorities are equal.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  override meld(other: StablePriorityQueue<T, Node, Comparer, P>): this {
+    if (other === this || other.isEmpty()) return this;
+    let first = other._index;
+    for (let i = 0; i < other._size; i++) {
+      if (other._elements[i].sindex < first) first = other._elements[i].sindex;
+    }
+    const offset = this._index - first;
+    for (let i = 0; i < other._size; i++) {
+      other._elements[i].sindex += offset;
+    }
+    this._index += other._index - first;
+    return super.meld(other);
   }
 
   override pop(): Node | undefined {
@@ -95,23 +173,22 @@ export class StablePriorityQueue<
 
   override indexOf(value: T, dequeue = false, comparer: IEqualityComparator<T> = (a, b) => a === b): number {
     if (!dequeue) return this._elements.findIndex((node: Node | undefined) => node && comparer(node.value, value));
-    const clone = this.clone();
     let index = 0;
-    while (!clone.isEmpty()) {
-      if (comparer(clone.dequeue() as T, value)) return index;
+    for (const element of this) {
+      if (comparer(element, value)) return index;
       index++;
     }
     return -1;
   }
 
-  override priorityAt(index: number, dequeue = false): number {
-    if (index < 0 || index >= this._size) return Number.MAX_VALUE;
+  override priorityAt(index: number, dequeue = false): P | undefined {
+    if (index < 0 || index >= this._size) return this.missingPriority();
     if (!dequeue || index === 0) return this._elements[index].priority;
-    const clone = this.clone();
-    for (let i = 0; i < index; i++) {
-      clone.dequeue();
+    let i = index;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
     }
-    return clone.pop()?.priority ?? Number.MAX_VALUE;
+    return this.missingPriority();
   }
 
   /**
@@ -125,6 +202,7 @@ export class StablePriorityQueue<
   ): StablePriorityQueue<T, IStableNode<T>, IComparer<IStableNode<T>>>;
   /**
    * Creates a new instance of a stable priority queue from an array of elements.
+   * Arrays of value and priority pairs are treated as elements too; use `fromEntries` for them.
    * @param elements - The elements to add to the queue.
    * @param comparer - An optional comparison function.
    */
@@ -145,4 +223,5 @@ export class StablePriorityQueue<
     // biome-ignore lint/suspicious/noExplicitAny: <explanation>
     return new StablePriorityQueue(elements as any, comparer);
   }
+
 }
\ No newline at end of file
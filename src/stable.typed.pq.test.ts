@@ -1,5 +1,7 @@
 import { expect, describe, it } from "vitest";
 import { StableTypedPriorityQueue } from "./stable.typed.pq.ts";
+import { TypedPriorityQueue } from "./typed.pq.ts";
+import type { IStableNode } from "./types.ts";
 
 describe("StableTypedPriorityQueue", () => {
   it("should create a typed priority queue from an existing queue", () => {
@@ -346,4 +348,173 @@ describe("StableTypedPriorityQueue", () => {
     expect(nodes[0]).toHaveProperty("sindex");
     expect(nodes[1]).toHaveProperty("sindex");
   });
+  it("should keep insertion order in enqueueDequeue", () => {
+    const pq = new StableTypedPriorityQueue(Uint32Array, 10);
+    pq.enqueue(1, 3);
+    pq.enqueue(2, 5);
+
+    expect(pq.enqueueDequeue(3, 3)).toBe(1);
+    expect(pq.toArray()).toEqual([3, 2]);
+  });
+
+  it("should keep insertion order in dequeueEnqueue", () => {
+    const pq = new StableTypedPriorityQueue(Uint32Array, 10);
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 3);
+
+    expect(pq.dequeueEnqueue(4, 3)).toBe(1);
+    expect(pq.toArray()).toEqual([2, 3, 4]);
+  });
+
+  it("should keep insertion order after removing an element", () => {
+    const pq = new StableTypedPriorityQueue(Uint32Array, 10);
+    for (let i = 0; i < 6; i++) {
+      pq.enqueue(i, i < 2 ? 0 : 1);
+    }
+
+    pq.remove(0);
+    expect(pq.toArray()).toEqual([1, 2, 3, 4, 5]);
+  });
+  it("should keep insertion order with a configurable arity", () => {
+    const pq = new StableTypedPriorityQueue(Uint32Array, 4, undefined, { arity: 8 });
+    expect(pq.arity).toBe(8);
+    for (let i = 0; i < 20; i++) {
+      pq.enqueue(i, i % 2);
+    }
+
+    expect(pq.clone().arity).toBe(8);
+    expect(pq.toArray()).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]);
+  });
+
+  it("should keep FIFO order across melded queues", () => {
+    const pq = new StableTypedPriorityQueue(Int32Array, 4);
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 2);
+    const other = new StableTypedPriorityQueue(Int32Array, 4);
+    other.enqueue(3, 1);
+    other.enqueue(4, 2);
+    other.enqueue(5, 1);
+
+    pq.meld(other);
+    pq.enqueue(6, 1);
+    expect(pq.toArray()).toEqual([1, 3, 5, 6, 2, 4]);
+  });
+
+  it("should keep insertion order with separate backends", () => {
+    const pq = StableTypedPriorityQueue.from(
+      [10, 20, 30, 40],
+      [0.5, -1.5, 0.5, -1.5],
+      { valueBackend: Uint32Array, priorityBackend: Float32Array },
+      1
+    );
+
+    expect(pq.priorityAt(0)).toBe(-1.5);
+    expect(pq.clone().backends).toEqual({ valueBackend: Uint32Array, priorityBackend: Float32Array });
+    expect(pq.toArray()).toEqual([20, 40, 10, 30]);
+  });
+
+  it("should keep insertion order with bigint priorities", () => {
+    const pq = new StableTypedPriorityQueue<IStableNode<bigint, bigint>>(BigInt64Array, 1);
+    pq.enqueue(1n, 9_000_000_000_000_000_000n);
+    pq.enqueue(2n, -1n);
+    pq.enqueue(3n, 9_000_000_000_000_000_000n);
+    pq.enqueue(4n, -1n);
+
+    expect(pq.remove(4n)).toBe(true);
+    pq.enqueue(5n, -1n);
+    expect(pq.clone().toArray()).toEqual([2n, 5n, 1n, 3n]);
+    expect(pq.pop()).toMatchObject({ value: 2n, priority: -1n });
+  });
+
+  it("should keep insertion order when restored from JSON", () => {
+    const pq = new StableTypedPriorityQueue(Int32Array, 2);
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 0);
+    pq.enqueue(3, 1);
+    pq.dequeue();
+    pq.enqueue(4, 1);
+
+    const json = JSON.parse(JSON.stringify(pq));
+    expect(json.index).toBe("4");
+
+    const restored = StableTypedPriorityQueue.fromJSON(json);
+    restored.enqueue(5, 1);
+    expect(restored).toBeInstanceOf(StableTypedPriorityQueue);
+    expect(restored.toArray()).toEqual([1, 3, 4, 5]);
+  });
+
+  it("should keep insertion order when restored from a binary snapshot", () => {
+    const pq = new StableTypedPriorityQueue(Int32Array, 2);
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 0);
+    pq.enqueue(3, 1);
+    pq.dequeue();
+    pq.enqueue(4, 1);
+
+    const restored = StableTypedPriorityQueue.fromBuffer(pq.toBuffer());
+    restored.enqueue(5, 1);
+    expect(restored).toBeInstanceOf(StableTypedPriorityQueue);
+    expect(restored.toArray()).toEqual([1, 3, 4, 5]);
+  });
+
+  it("should insert elements of an unstable snapshot in heap order", () => {
+    const pq = TypedPriorityQueue.from([1, 2, 3], [1, 0, 1], Int32Array, 4);
+
+    const restored = StableTypedPriorityQueue.fromBuffer(pq.toBuffer());
+    restored.enqueue(4, 1);
+    expect(restored.toArray()).toEqual([2, 1, 3, 4]);
+  });
+
+  it("should keep insertion order when moved with transferable buffers", () => {
+    const pq = new StableTypedPriorityQueue(Int32Array, 2);
+    pq.enqueue(1, 1);
+    pq.enqueue(2, 0);
+    pq.enqueue(3, 1);
+    pq.dequeue();
+    pq.enqueue(4, 1);
+
+    const { descriptor, transfer } = pq.toTransferable();
+    expect(transfer).toHaveLength(3);
+
+    const moved = StableTypedPriorityQueue.fromTransferable(structuredClone(descriptor, { transfer }));
+    moved.enqueue(5, 1);
+    expect(moved).toBeInstanceOf(StableTypedPriorityQueue);
+    expect(moved.toArray()).toEqual([1, 3, 4, 5]);
+    pq.enqueue(6, 0);
+    expect(pq.toArray()).toEqual([6]);
+  });
+
+  it("should not be stored in a shared buffer", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Int32Array, 2));
+    expect(() => new StableTypedPriorityQueue(Int32Array, 2, undefined, { buffer } as object)).toThrow(
+      "[pq-ts] A stable typed queue cannot be stored in a shared buffer."
+    );
+    expect(() => TypedPriorityQueue.attach(buffer)).toThrow("[pq-ts] The shared buffer does not hold a queue.");
+
+    const pq = new TypedPriorityQueue(Int32Array, 2, undefined, { buffer });
+    pq.enqueue(7, 1);
+    expect(TypedPriorityQueue.attach(buffer).toArray()).toEqual([7]);
+  });
+
+  it("should emit events when queues are melded and drained", () => {
+    const pq = StableTypedPriorityQueue.from([1], [1], Int32Array, 4);
+    const other = StableTypedPriorityQueue.from([2, 3], [0, 2], Int32Array, 4);
+    const events: unknown[] = [];
+    pq.on("enqueue", ({ value, index }) => events.push(["enqueue", value, index]));
+    pq.on("dequeue", ({ value }) => events.push(["dequeue", value]));
+    other.on("clear", ({ count }) => events.push(["clear", count]));
+
+    pq.meld(other);
+    pq.dequeue();
+    pq.pop();
+
+    expect(events).toEqual([
+      ["enqueue", 2, 1],
+      ["enqueue", 3, 2],
+      ["clear", 2],
+      ["dequeue", 2],
+      ["dequeue", 1],
+    ]);
+  });
 });
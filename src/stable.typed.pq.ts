@@ -1,22 +1,26 @@
-import type { IComparer, IEqualityComparator, IStableNode, TypedArrayConstructor } from "./types.ts";
+import type { IComparer, IEqualityComparator, IPriorityQueueOptions, IQueueJSON, IStableNode, ITypedPriorityQueueOptions, ITypedSnapshot, ITypedTransferable, TypedBackend, TypedValue } from "./types.ts";
 import { growTyped, downWithPriorities, upWithPriorities, heapifyWithPriorities } from "./primitive.ts";
 import { TypedPriorityQueue } from "./typed.pq.ts";
 
+/**
+ * A stable priority queue backed by typed arrays.
+ * Elements and priorities are numbers, or bigints when they are stored in a `BigInt64Array` or `BigUint64Array`.
+ */
 export class StableTypedPriorityQueue<
-  Node extends IStableNode<number> = IStableNode<number>,
+  Node extends IStableNode<TypedValue, TypedValue> = IStableNode<number>,
   Comparer extends IComparer<Node> = IComparer<Node>,
 > extends TypedPriorityQueue<Node, Comparer> {
   protected _indices: BigInt64Array;
   protected _sindex = 0n;
 
   protected readonly _up = (node: Node, index: number) => {
-    return upWithPriorities(this._elements, this._priorities, this._indices)(
+    return upWithPriorities(this._elements, this._priorities, this._indices, undefined, this._log2Arity)(
       node, index, this.compare as Comparer
     );
   }
 
   protected readonly _down = (node: Node, index: number) => {
-    return downWithPriorities(this._elements, this._priorities, this._size, this._indices)(
+    return downWithPriorities(this._elements, this._priorities, this._size, this._indices, undefined, this._log2Arity)(
       node,
       index,
       this.compare as Comparer
@@ -24,24 +28,29 @@ export class StableTypedPriorityQueue<
   }
 
   protected readonly _heapify = (size: number) => {
-    return heapifyWithPriorities(this._elements, this._priorities, size, this._indices)(
+    return heapifyWithPriorities(this._elements, this._priorities, size, this._indices, undefined, this._log2Arity)(
       this.compare as Comparer
     );
   }
 
   /**
    * Creates a new instance of a stable priority queue backed by a typed array.
-   * @param backend - The typed array constructor for the elements.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
    * @param size - The initial size of the queue.
    * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
+   * @throws - If the options hold a shared buffer, since the insertion indices cannot be shared.
    */
-  constructor(backend: TypedArrayConstructor, size: number, comparer?: Comparer) {
+  constructor(backend: TypedBackend, size: number, comparer?: Comparer, options?: IPriorityQueueOptions) {
+    if ((options as ITypedPriorityQueueOptions | undefined)?.buffer) {
+      throw new Error("[pq-ts] A stable typed queue cannot be stored in a shared buffer.");
+    }
     const min = (a: Node, b: Node) => {
       if (a.priority < b.priority) return -1;
       if (a.priority > b.priority) return 1;
       return a.sindex < b.sindex ? -1 : 1;
     }
-    super(backend, size, comparer ?? min as Comparer);
+    super(backend, size, comparer ?? min as Comparer, options);
     this._indices = new BigInt64Array(this._defaultSize);
   }
 
@@ -62,18 +71,17 @@ export class StableTypedPriorityQueue<
     return { value, priority, nindex: 0, sindex, } as Node;
   }
 
-  toArray(): number[] {
-    const clone = this.clone();
-    const result: number[] = [];
-    while (!clone.isEmpty()) {
-      result.push(clone.dequeue() as number);
+  toArray(): Node["value"][] {
+    const result: Node["value"][] = [];
+    for (const value of this) {
+      result.push(value);
     }
     return result;
   }
 
   clone(): this {
     const size = Math.max(this._elements.length, this._defaultSize);
-    const clone = new StableTypedPriorityQueue<Node, Comparer>(this._backend, size, this.compare);
+    const clone = new StableTypedPriorityQueue<Node, Comparer>(this.backends, size, this.compare, { arity: this.arity });
     clone._elements.set(this._elements);
     clone._priorities.set(this._priorities);
     clone._indices.set(this._indices);
@@ -82,13 +90,14 @@ export class StableTypedPriorityQueue<
     return clone as this;
   }
 
-  remove(value: number, comparer: IEqualityComparator<number> = (a, b) => a === b): boolean {
+  remove(value: Node["value"], comparer: IEqualityComparator<Node["value"]> = (a, b) => a === b): boolean {
     let index = -1;
     for (let i = 0; i < this._size; i++) {
-      if (comparer(value, this._elements[i])) { index = i; break; }
+      if (comparer(value, this._elements[i] as Node["value"])) { index = i; break; }
     }
     if (index < 0) return false;
     const [removedElement, removedPriority] = [this._elements[index], this._priorities[index]];
+    this._events?.emit("remove", { value: removedElement, priority: removedPriority, index });
     const newSize = --this._size;
     const removedNode = {
       value: removedElement,
@@ -100,7 +109,7 @@ export class StableTypedPriorityQueue<
     // If the element is not the last one, replace it with the last element.
     if (index < newSize) {
       const lastNode = {
-        value: this._elements[newSize] as number,
+        value: this._elements[newSize],
         priority: this._priorities[newSize],
         nindex: newSize,
         sindex: this._indices[newSize]
@@ -115,39 +124,32 @@ export class StableTypedPriorityQueue<
       }
     }
 
-    this._elements[newSize] = 0;
-    this._priorities[newSize] = 0;
-    this._indices[newSize] = 0n;
+    this.clearAt(newSize);
 
     return true;
   }
 
-  indexOf(value: number, dequeue = false, comparer: IEqualityComparator<number> = (a, b) => a === b): number {
+  indexOf(value: Node["value"], dequeue = false, comparer: IEqualityComparator<Node["value"]> = (a, b) => a === b): number {
     if (!dequeue) {
       for (let i = 0; i < this._size; i++) {
-        if (comparer?.(this._elements[i], value)) return i;
+        if (comparer?.(this._elements[i] as Node["value"], value)) return i;
       }
       return -1;
     }
-    const clone = this.clone();
     let index = 0;
-    while (!clone.isEmpty()) {
-      if (comparer?.(clone.dequeue() as number, value)) return index;
+    for (const element of this) {
+      if (comparer?.(element, value)) return index;
       index++;
     }
     return -1;
   }
 
-  priorityAt(index: number, dequeue = false): number {
+  priorityAt(index: number, dequeue = false): Node["priority"] | number {
     if (index >= this._size) return Number.MAX_VALUE;
-    if (!dequeue || index === 0) return this._priorities[index];
-    const clone = this.clone();
+    if (!dequeue || index === 0) return this._priorities[index] as Node["priority"];
     let i = index;
-    // We don't really know the index of the element
-    // so we will have to dequeue until we find the element
-    while (!clone.isEmpty()) {
-      const node = clone.pop();
-      if (i-- === 0) return node?.priority ?? Number.MAX_VALUE;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
     }
 
     return Number.MAX_VALUE;
@@ -157,11 +159,12 @@ export class StableTypedPriorityQueue<
     return this.toArray().join(", ");
   }
 
-  override enqueue(value: number, priority: number): boolean {
+  override enqueue(value: Node["value"], priority: Node["priority"]): boolean {
     const currentSize = this._size;
     if (currentSize >= this._elements.length) {
       this.grow(this._elements.length * 2);
     }
+    this._events?.emit("enqueue", { value, priority, index: currentSize });
     this._size = currentSize + 1;
     this._indices[currentSize] = this._sindex++;
 
@@ -169,20 +172,21 @@ export class StableTypedPriorityQueue<
     return true;
   }
 
-  dequeue(): number | undefined {
+  dequeue(): Node["value"] | undefined {
     if (this.isEmpty()) return undefined;
-    const element = this._elements[0];
+    const element = this._elements[0] as Node["value"];
     this.removeRootNode();
     return element;
   }
 
-  peek(): number | undefined {
-    return this.isEmpty() ? undefined : this._elements[0];
+  peek(): Node["value"] | undefined {
+    return this.isEmpty() ? undefined : this._elements[0] as Node["value"];
   }
 
   clear(): void {
+    this._events?.emit("clear", { count: this._size });
     this._elements = new this._backend(this._defaultSize);
-    this._priorities = new this._backend(this._defaultSize);
+    this._priorities = new this._priorityBackend(this._defaultSize);
     this._indices = new BigInt64Array(this._defaultSize);
     this._size = 0;
     this._sindex = 0n;
@@ -192,10 +196,10 @@ export class StableTypedPriorityQueue<
     return this._size;
   }
 
-  get values(): number[] {
-    const result: number[] = [];
+  get values(): Node["value"][] {
+    const result: Node["value"][] = [];
     for (let i = 0; i < this._size; i++) {
-      result.push(this._elements[i]);
+      result.push(this._elements[i] as Node["value"]);
     }
     return result;
   }
@@ -204,11 +208,131 @@ export class StableTypedPriorityQueue<
     return this._size === 0;
   }
 
+  protected override createNode(value: Node["value"], priority: Node["priority"], nindex: number): Node {
+    return { value, priority, nindex, sindex: this._sindex++ } as Node;
+  }
+
+  protected override nodeAt(index: number): Node {
+    return {
+      value: this._elements[index],
+      priority: this._priorities[index],
+      nindex: index,
+      sindex: this._indices[index]
+    } as Node;
+  }
+
+  /**
+   * Copies the elements of another queue to the end of the storage.
+   * The stability indices of the other queue are shifted so that its elements keep their relative
+   * insertion order and are ordered after the elements already in this queue.
+   * @param other - The queue to copy elements from.
+   * @param offset - The index to copy the first element to.
+   */
+  protected override append(other: StableTypedPriorityQueue<Node, Comparer>, offset: number): void {
+    super.append(other, offset);
+    let first = other._sindex;
+    for (let i = 0; i < other._size; i++) {
+      if (other._indices[i] < first) first = other._indices[i];
+    }
+    const shift = this._sindex - first;
+    for (let i = 0; i < other._size; i++) {
+      this._indices[offset + i] = other._indices[i] + shift;
+    }
+    this._sindex += other._sindex - first;
+  }
+
+  protected override clearAt(index: number): void {
+    super.clearAt(index);
+    this._indices[index] = 0n;
+  }
+
+  /**
+   * Loads the elements of a queue from its JSON representation, keeping their heap order and insertion order.
+   * Without stored insertion indices, the elements are inserted in heap order.
+   * @param json - The JSON representation of the queue.
+   */
+  protected override restore(json: IQueueJSON): void {
+    super.restore(json);
+    if (this._indices.length < this._elements.length) {
+      this._indices = growTyped(this._indices, this._elements.length, BigInt64Array);
+    }
+    for (let i = 0; i < this._size; i++) {
+      this._indices[i] = json.indices ? BigInt(json.indices[i]) : BigInt(i);
+    }
+    this._sindex = BigInt(json.indices ? json.index ?? this._size : this._size);
+  }
+
+  /**
+   * Converts the queue to its JSON representation, including the insertion order of its elements.
+   * @returns - The JSON representation of the queue.
+   */
+  override toJSON(): IQueueJSON<number | string, number | string> {
+    const indices = Array.from(this._indices.subarray(0, this._size), (sindex) => sindex.toString());
+    return { ...super.toJSON(), indices, index: this._sindex.toString() };
+  }
+
+  /**
+   * Captures the contents of the queue for a binary snapshot, including the insertion order of its elements.
+   * @returns - The contents of the queue.
+   */
+  protected override snapshot(): ITypedSnapshot {
+    return { ...super.snapshot(), indices: this._indices.subarray(0, this._size), sindex: this._sindex };
+  }
+
+  /**
+   * Loads the elements of a queue from a binary snapshot, keeping their heap order and insertion order.
+   * Without stored insertion indices, the elements are inserted in heap order.
+   * @param snapshot - The contents of the queue.
+   */
+  protected override restoreSnapshot(snapshot: ITypedSnapshot): void {
+    super.restoreSnapshot(snapshot);
+    if (this._indices.length < this._elements.length) {
+      this._indices = growTyped(this._indices, this._elements.length, BigInt64Array);
+    }
+    if (snapshot.indices) {
+      this._indices.set(snapshot.indices);
+      this._sindex = snapshot.sindex;
+    } else {
+      for (let i = 0; i < this._size; i++) {
+        this._indices[i] = BigInt(i);
+      }
+      this._sindex = BigInt(this._size);
+    }
+  }
+
+  /**
+   * Describes the queue for a transfer to another thread, including the insertion order of its elements.
+   * @returns - The description of the queue.
+   */
+  protected override transferable(): ITypedTransferable {
+    return { ...super.transferable(), indices: this._indices, index: this._sindex };
+  }
+
+  /**
+   * Takes over the storage of a queue that was transferred from another thread.
+   * Without insertion indices, the elements are inserted in heap order.
+   * @param descriptor - The description of the queue.
+   */
+  protected override adopt(descriptor: ITypedTransferable): void {
+    super.adopt(descriptor);
+    if (descriptor.indices && descriptor.indices.length === this._elements.length) {
+      this._indices = descriptor.indices;
+      this._sindex = descriptor.index ?? BigInt(this._size);
+      return;
+    }
+    this._indices = new BigInt64Array(this._elements.length);
+    for (let i = 0; i < this._size; i++) {
+      this._indices[i] = BigInt(i);
+    }
+    this._sindex = BigInt(this._size);
+  }
+
   protected removeRootNode(): void {
     if (this.isEmpty()) return;
     if (this._elements.length !== this._priorities.length) {
       throw new Error("[pq-ts] Elements and priorities are out of sync.");
     }
+    this._events?.emit("dequeue", { value: this._elements[0], priority: this._priorities[0], index: 0 });
 
     const lastNodeIndex = --this._size;
 
@@ -220,8 +344,8 @@ export class StableTypedPriorityQueue<
 
       // Down heapify from root
       const rootNode: Node = {
-        value: this._elements[0] as number,
-        priority: this._priorities[0] as number,
+        value: this._elements[0],
+        priority: this._priorities[0],
         nindex: 0,
         sindex: this._indices[0]
       } as const as Node;
@@ -230,23 +354,24 @@ export class StableTypedPriorityQueue<
     }
 
     // Clear last position
-    this._elements[lastNodeIndex] = 0;
-    this._priorities[lastNodeIndex] = 0;
-    this._indices[lastNodeIndex] = 0n;
+    this.clearAt(lastNodeIndex);
   }
 
   protected grow(newSize: number): void {
     this._elements = growTyped(this._elements, newSize, this._backend);
-    this._priorities = growTyped(this._priorities, newSize, this._backend);
+    this._priorities = growTyped(this._priorities, newSize, this._priorityBackend);
     this._indices = growTyped(this._indices, newSize, BigInt64Array);
+    this._events?.emit("grow", { capacity: this._elements.length });
   }
 
   /**
    * Iterates over the queue in priority order.
    * @returns - An iterator for the queue.
    */
-  [Symbol.iterator](): Iterator<number> {
-    return this.toArray()[Symbol.iterator]();
+  *[Symbol.iterator](): Iterator<Node["value"]> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
   }
 
   /**
@@ -254,18 +379,20 @@ export class StableTypedPriorityQueue<
   * 
   * @param elements - An array of elements to be added to the queue.
   * @param priorities - An array of priorities corresponding to the elements.
-  * @param backend - The typed array constructor to be used for the queue.
+  * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
   * @param size - The initial size of the queue.
   * @param comparer - (Optional) A custom comparer for the queue elements.
+  * @param options - (Optional) The options for the queue.
   * @returns A new instance of the stable typed priority queue.
   */
-  static override from(
-    elements: number[],
-    priorities: number[],
-    backend: TypedArrayConstructor,
+  static override from<Node extends IStableNode<TypedValue, TypedValue> = IStableNode<number>>(
+    elements: Node["value"][],
+    priorities: Node["priority"][],
+    backend: TypedBackend,
     size: number,
-    comparer?: IComparer<IStableNode<number>>
-  ): StableTypedPriorityQueue<IStableNode<number>>;
+    comparer?: IComparer<Node>,
+    options?: IPriorityQueueOptions
+  ): StableTypedPriorityQueue<Node>;
 
   /**
    * Create a queue from an existing queue.
@@ -274,25 +401,26 @@ export class StableTypedPriorityQueue<
    * @param comparer - (Optional) A custom comparer for the queue elements.
    * @returns A new instance of the stable typed priority queue.
    */
-  static override from<Node extends IStableNode<number>>(
+  static override from<Node extends IStableNode<TypedValue, TypedValue>>(
     queue: StableTypedPriorityQueue<Node>,
     comparer?: IComparer<Node>
   ): StableTypedPriorityQueue<Node>;
-  static override from<Node extends IStableNode<number>>(
-    elementsOrQueue: number[] | StableTypedPriorityQueue<Node>,
-    prioritiesOrSize?: number[] | IComparer<Node>,
-    backendOrComparer?: TypedArrayConstructor | IComparer<Node>,
+  static override from<Node extends IStableNode<TypedValue, TypedValue>>(
+    elementsOrQueue: Node["value"][] | StableTypedPriorityQueue<Node>,
+    prioritiesOrSize?: Node["priority"][] | IComparer<Node>,
+    backendOrComparer?: TypedBackend | IComparer<Node>,
     size?: number,
-    comparer?: IComparer<Node>
+    comparer?: IComparer<Node>,
+    options?: IPriorityQueueOptions
   ): StableTypedPriorityQueue<Node> {
     const fromElements = (
-      elements: number[],
-      priorities: number[],
-      backend: TypedArrayConstructor,
+      elements: Node["value"][],
+      priorities: Node["priority"][],
+      backend: TypedBackend,
       size: number,
       comparer?: IComparer<Node>
     ) => {
-      const queue = new StableTypedPriorityQueue<Node>(backend, size, comparer);
+      const queue = new StableTypedPriorityQueue<Node>(backend, size, comparer, options);
       for (let i = 0; i < elements.length; i++) {
         queue.enqueue(elements[i], priorities[i]);
       }
@@ -303,8 +431,8 @@ export class StableTypedPriorityQueue<
       queue: StableTypedPriorityQueue<Node>,
       comparer?: IComparer<Node>
     ) => {
-      const size = queue._size > queue._defaultSize ? queue._size : queue._defaultSize;
-      const newQueue = new StableTypedPriorityQueue<Node>(queue._backend, size, comparer);
+      const size = Math.max(queue._elements.length, queue._defaultSize);
+      const newQueue = new StableTypedPriorityQueue<Node>(queue.backends, size, comparer, { arity: queue.arity });
       newQueue._elements.set(queue._elements);
       newQueue._priorities.set(queue._priorities);
       newQueue._indices.set(queue._indices);
@@ -315,11 +443,11 @@ export class StableTypedPriorityQueue<
 
     if (Array.isArray(elementsOrQueue)) {
       return fromElements(
-        elementsOrQueue as number[],
-        prioritiesOrSize as number[],
-        backendOrComparer as TypedArrayConstructor,
+        elementsOrQueue as Node["value"][],
+        prioritiesOrSize as Node["priority"][],
+        backendOrComparer as TypedBackend,
         size as number,
-        comparer as IComparer<IStableNode<number>>
+        comparer
       );
     }
 
@@ -329,4 +457,5 @@ export class StableTypedPriorityQueue<
     );
   }
 
+
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { expect, describe, it } from "vitest";
 import { TypedPriorityQueue } from "./typed.pq.ts";
+import type { IPriorityNode } from "./types.ts";
 
 describe("TypedPriorityQueue", () => {
   it("should create a typed priority queue from an existing queue", () => {
@@ -313,4 +314,275 @@ describe("TypedPriorityQueue", () => {
     expect(clone.count).toBe(10);
     expect(clone.toArray()).toEqual(pq.toArray());
   });
+  it("should return the new element from enqueueDequeue when it has the highest priority", () => {
+    const pq = new TypedPriorityQueue(Uint32Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+
+    expect(pq.enqueueDequeue(3, 1)).toBe(3);
+    expect(pq.enqueueDequeue(4, 4)).toBe(2);
+    expect(pq.toArray()).toEqual([4, 1]);
+  });
+
+  it("should replace the root with dequeueEnqueue", () => {
+    const pq = new TypedPriorityQueue(Uint32Array, 10);
+    expect(pq.dequeueEnqueue(1, 5)).toBeUndefined();
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    expect(pq.dequeueEnqueue(4, 6)).toBe(2);
+    expect(pq.count).toBe(3);
+    expect(pq.toArray()).toEqual([3, 1, 4]);
+  });
+  it("should iterate lazily without modifying the queue", () => {
+    const pq = new TypedPriorityQueue(Uint32Array, 10);
+    pq.enqueue(1, 5);
+    pq.enqueue(2, 3);
+    pq.enqueue(3, 4);
+
+    const iterator = pq[Symbol.iterator]();
+    expect(iterator.next().value).toBe(2);
+    expect(pq.count).toBe(3);
+    expect([...pq.orderedNodes()].map((node) => node.priority)).toEqual([3, 4, 5]);
+  });
+  it("should use a configurable arity", () => {
+    for (const arity of [2, 8, 16]) {
+      const pq = new TypedPriorityQueue(Float64Array, 10, undefined, { arity });
+      expect(pq.arity).toBe(arity);
+      for (let i = 0; i < 100; i++) {
+        pq.enqueue(i, Math.random());
+      }
+      expect(pq.clone().arity).toBe(arity);
+      expect(TypedPriorityQueue.from(pq).arity).toBe(arity);
+
+      let prev = pq.pop()!;
+      while (!pq.isEmpty()) {
+        const curr = pq.pop()!;
+        expect(curr.priority).toBeGreaterThanOrEqual(prev.priority);
+        prev = curr;
+      }
+    }
+  });
+
+  it("should meld another queue", () => {
+    const pq = TypedPriorityQueue.from([1, 2], [5, 1], Int32Array, 2);
+    const other = TypedPriorityQueue.from([3, 4, 5], [3, 0, 4], Int32Array, 4);
+
+    pq.meld(other);
+    expect(pq.count).toBe(5);
+    expect(other.count).toBe(0);
+    expect(pq.toArray()).toEqual([4, 2, 3, 5, 1]);
+  });
+
+  it("should store priorities in a separate backend", () => {
+    const pq = new TypedPriorityQueue({ valueBackend: Uint32Array, priorityBackend: Float64Array }, 2);
+    pq.enqueue(4_000_000_000, 1.5);
+    pq.enqueue(7, -2.25);
+    pq.enqueue(9, 0.5);
+
+    expect(pq.backends).toEqual({ valueBackend: Uint32Array, priorityBackend: Float64Array });
+    expect(pq.priorityAt(0)).toBe(-2.25);
+    expect(pq.clone().toArray()).toEqual([7, 9, 4_000_000_000]);
+    expect(TypedPriorityQueue.from(pq).backends.priorityBackend).toBe(Float64Array);
+    pq.clear();
+    pq.enqueue(1, 0.75);
+    expect(pq.pop()).toEqual({ value: 1, priority: 0.75, nindex: 0 });
+  });
+
+  it("should use one backend for values and priorities by default", () => {
+    const pq = TypedPriorityQueue.from([1, 2], [0.5, -1], { valueBackend: Uint8Array }, 2);
+    expect(pq.backends).toEqual({ valueBackend: Uint8Array, priorityBackend: Uint8Array });
+    expect(new TypedPriorityQueue(Int16Array, 1).backends.priorityBackend).toBe(Int16Array);
+  });
+
+  it("should store 64-bit values and priorities as bigints", () => {
+    const pq = new TypedPriorityQueue<IPriorityNode<bigint, bigint>>({ valueBackend: BigInt64Array, priorityBackend: BigUint64Array }, 2);
+    pq.enqueue(-(2n ** 63n), 1_700_000_000_000_000_002n);
+    pq.enqueue(2n ** 63n - 1n, 1_700_000_000_000_000_000n);
+    pq.enqueue(42n, 1_700_000_000_000_000_001n);
+
+    expect(pq.peek()).toBe(2n ** 63n - 1n);
+    expect(pq.priorityAt(0)).toBe(1_700_000_000_000_000_000n);
+    expect(pq.clone().toArray()).toEqual([2n ** 63n - 1n, 42n, -(2n ** 63n)]);
+    expect(pq.remove(42n)).toBe(true);
+    expect(pq.dequeue()).toBe(2n ** 63n - 1n);
+    expect(pq.dequeue()).toBe(-(2n ** 63n));
+    expect(pq.dequeue()).toBeUndefined();
+  });
+
+  it("should create a bigint queue from arrays", () => {
+    const pq = TypedPriorityQueue.from<IPriorityNode<bigint, bigint>>([1n, 2n, 3n], [30n, 10n, 20n], BigUint64Array, 3);
+    expect(pq.toArray()).toEqual([2n, 3n, 1n]);
+    expect(TypedPriorityQueue.from(pq).backends.valueBackend).toBe(BigUint64Array);
+  });
+
+  it("should mix number values with bigint priorities", () => {
+    const pq = new TypedPriorityQueue<IPriorityNode<number, bigint>>({ valueBackend: Uint32Array, priorityBackend: BigInt64Array }, 1);
+    pq.enqueue(7, 5n);
+    pq.enqueue(8, -5n);
+    expect(pq.pop()).toEqual({ value: 8, priority: -5n, nindex: 0 });
+    expect(pq.dequeue()).toBe(7);
+  });
+
+  it("should clamp values stored in a Uint8ClampedArray", () => {
+    const pq = new TypedPriorityQueue({ valueBackend: Uint8ClampedArray, priorityBackend: Float64Array }, 2);
+    pq.enqueue(300, 2);
+    pq.enqueue(-5, 1);
+    expect(pq.toArray()).toEqual([0, 255]);
+  });
+
+  it("should store the queue in a shared buffer", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength({ valueBackend: Uint16Array, priorityBackend: Float64Array }, 3));
+    const pq = new TypedPriorityQueue({ valueBackend: Uint16Array, priorityBackend: Float64Array }, 3, undefined, { buffer, arity: 2 });
+    pq.enqueue(1, 0.5);
+    pq.enqueue(2, 0.25);
+    pq.enqueue(3, 0.75);
+
+    const attached = TypedPriorityQueue.attach(buffer);
+    expect(pq.buffer).toBe(buffer);
+    expect(attached.backends).toEqual({ valueBackend: Uint16Array, priorityBackend: Float64Array });
+    expect(attached.arity).toBe(2);
+    expect(attached.dequeue()).toBe(2);
+    expect(pq.count).toBe(2);
+    expect(pq.enqueue(4, 0)).toBe(true);
+    expect(pq.enqueue(5, 0)).toBe(false);
+    expect(attached.toArray()).toEqual([4, 1, 3]);
+
+    attached.clear();
+    expect(pq.isEmpty()).toBe(true);
+    expect(new TypedPriorityQueue(Int32Array, 2).buffer).toBeUndefined();
+  });
+
+  it("should reject shared buffers that do not fit the queue", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Int32Array, 4));
+    expect(() => TypedPriorityQueue.attach(buffer)).toThrow("[pq-ts] The shared buffer does not hold a queue.");
+    expect(() => new TypedPriorityQueue(Int32Array, 8, undefined, { buffer })).toThrow("[pq-ts] The shared buffer is too small for the queue.");
+
+    new TypedPriorityQueue(Int32Array, 4, undefined, { buffer });
+    expect(() => new TypedPriorityQueue(Float32Array, 4, undefined, { buffer })).toThrow("[pq-ts] The shared buffer holds a queue with a different layout.");
+    expect(() => new TypedPriorityQueue(Int32Array, 0, undefined, { buffer })).toThrow("[pq-ts] A queue in a shared buffer must have a size of at least 1.");
+  });
+
+  it("should restore a queue from JSON", () => {
+    const pq = new TypedPriorityQueue({ valueBackend: Int32Array, priorityBackend: Float64Array }, 8, undefined, { arity: 2 });
+    pq.enqueue(1, 0.5);
+    pq.enqueue(2, Number.POSITIVE_INFINITY);
+    pq.enqueue(3, -1);
+
+    const json = JSON.stringify(pq);
+    const restored = TypedPriorityQueue.fromJSON(json);
+    expect(JSON.parse(json).backends).toEqual({ valueBackend: "Int32Array", priorityBackend: "Float64Array" });
+    expect(restored.backends).toEqual(pq.backends);
+    expect(restored.arity).toBe(2);
+    expect(restored.toJSON().capacity).toBe(8);
+    expect(restored.pop()).toEqual({ value: 3, priority: -1, nindex: 0 });
+    expect(restored.dequeue()).toBe(1);
+    expect(restored.pop()).toEqual({ value: 2, priority: Number.POSITIVE_INFINITY, nindex: 0 });
+  });
+
+  it("should store bigints as strings in JSON", () => {
+    const pq = new TypedPriorityQueue<IPriorityNode<bigint, bigint>>(BigInt64Array, 2);
+    pq.enqueue(2n ** 62n, 2n);
+    pq.enqueue(-1n, 1n);
+
+    expect(pq.toJSON().values).toEqual(["-1", (2n ** 62n).toString()]);
+    const restored = TypedPriorityQueue.fromJSON<IPriorityNode<bigint, bigint>>(JSON.stringify(pq));
+    expect(restored.toArray()).toEqual([-1n, 2n ** 62n]);
+    expect(() => TypedPriorityQueue.fromJSON({ arity: 4, capacity: 0, values: [], priorities: [] }))
+      .toThrow("[pq-ts] The JSON does not describe a typed queue.");
+  });
+
+  it("should restore a queue from a binary snapshot", () => {
+    const pq = new TypedPriorityQueue({ valueBackend: Uint16Array, priorityBackend: Float64Array }, 8, undefined, { arity: 2 });
+    pq.enqueue(1, 0.5);
+    pq.enqueue(2, Number.NEGATIVE_INFINITY);
+    pq.enqueue(3, -1);
+
+    const restored = TypedPriorityQueue.fromBuffer(pq.toBuffer());
+    expect(restored.backends).toEqual(pq.backends);
+    expect(restored.arity).toBe(2);
+    expect(restored.toJSON().capacity).toBe(8);
+    expect(restored.toArray()).toEqual([2, 3, 1]);
+    restored.enqueue(4, 0);
+    expect(restored.toArray()).toEqual([2, 3, 4, 1]);
+  });
+
+  it("should restore bigints from a binary snapshot at any byte offset", () => {
+    const pq = new TypedPriorityQueue<IPriorityNode<bigint, bigint>>(BigInt64Array, 2);
+    pq.enqueue(2n ** 62n, 2n);
+    pq.enqueue(-1n, 1n);
+
+    const bytes = pq.toBuffer();
+    const shifted = new Uint8Array(bytes.length + 3);
+    shifted.set(bytes, 3);
+    const restored = TypedPriorityQueue.fromBuffer<IPriorityNode<bigint, bigint>>(shifted.subarray(3));
+    expect(restored.toArray()).toEqual([-1n, 2n ** 62n]);
+  });
+
+  it("should reject a corrupted binary snapshot", () => {
+    const pq = TypedPriorityQueue.from([1, 2, 3], [3, 2, 1], Int32Array, 4);
+    const bytes = pq.toBuffer();
+    bytes[bytes.length - 1] ^= 1;
+
+    expect(() => TypedPriorityQueue.fromBuffer(bytes)).toThrow("[pq-ts] The snapshot checksum does not match.");
+  });
+
+  it("should move a queue with transferable buffers", () => {
+    const pq = new TypedPriorityQueue({ valueBackend: Uint32Array, priorityBackend: Float64Array }, 2, undefined, { arity: 8 });
+    for (let i = 0; i < 10; i++) pq.enqueue(i, 10 - i);
+
+    const { descriptor, transfer } = pq.toTransferable();
+    expect(pq.count).toBe(0);
+    expect(transfer).toHaveLength(2);
+
+    const moved = TypedPriorityQueue.fromTransferable(structuredClone(descriptor, { transfer }));
+    expect(transfer[0].byteLength).toBe(0);
+    expect(moved.arity).toBe(8);
+    expect(moved.backends).toEqual(pq.backends);
+    expect(moved.dequeue()).toBe(9);
+    moved.enqueue(42, 0);
+    expect(moved.toArray()).toEqual([42, 8, 7, 6, 5, 4, 3, 2, 1, 0]);
+    moved.clear();
+    expect(moved.toJSON().capacity).toBe(2);
+  });
+
+  it("should reject transfers of shared queues and invalid descriptors", () => {
+    const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Int32Array, 4));
+    const shared = new TypedPriorityQueue(Int32Array, 4, undefined, { buffer });
+
+    expect(() => shared.toTransferable()).toThrow("[pq-ts] A queue in a shared buffer cannot be transferred; use attach instead.");
+    expect(() => TypedPriorityQueue.fromTransferable({
+      arity: 4, initialSize: 1, count: 2, elements: new Int32Array(1), priorities: new Int32Array(1)
+    })).toThrow("[pq-ts] The descriptor does not describe a typed queue.");
+  });
+
+  it("should emit lifecycle events to listeners", () => {
+    const pq = new TypedPriorityQueue(Int32Array, 1);
+    const events: unknown[] = [];
+    const onEnqueue = (event: unknown) => events.push(["enqueue", event]);
+    pq.on("enqueue", onEnqueue)
+      .on("dequeue", (event) => events.push(["dequeue", event]))
+      .on("remove", (event) => events.push(["remove", event]))
+      .on("clear", (event) => events.push(["clear", event]))
+      .on("grow", (event) => events.push(["grow", event]));
+
+    pq.enqueue(1, 2);
+    pq.enqueue(2, 1);
+    pq.dequeue();
+    pq.enqueue(3, 3);
+    pq.remove(3);
+    pq.off("enqueue", onEnqueue);
+    pq.enqueue(4, 4);
+    pq.clear();
+
+    expect(events).toEqual([
+      ["enqueue", { value: 1, priority: 2, index: 0 }],
+      ["grow", { capacity: 5 }],
+      ["enqueue", { value: 2, priority: 1, index: 1 }],
+      ["dequeue", { value: 2, priority: 1, index: 0 }],
+      ["enqueue", { value: 3, priority: 3, index: 1 }],
+      ["remove", { value: 3, priority: 3, index: 1 }],
+      ["clear", { count: 2 }],
+    ]);
+  });
 });
@@ -1,26 +1,92 @@
-import type { IComparer, IEqualityComparator, TypedArray, TypedArrayConstructor, IPriorityQueueLike, IPriorityNode } from "./types.ts";
-import { growTyped, upWithPriorities, downWithPriorities, heapifyWithPriorities } from "./primitive.ts";
+import type { IComparer, IEqualityComparator, TypedArrayConstructor, BigTypedArrayConstructor, IPriorityQueueLike, IPriorityNode, IPriorityQueueOptions, IQueueJSON, IQueueJSONOptions, ITypedBackends, ITypedSnapshot, ITypedTransfer, ITypedTransferable, IQueueEventMap, IQueueListener, QueueEventType, ITypedPriorityQueueOptions, TypedBackend, TypedStorage, TypedValue } from "./types.ts";
+import { growTyped, upWithPriorities, downWithPriorities, heapifyWithPriorities, ordered, log2Arity, parseQueueJSON, sharedLayout, ARITY, SHARED_BACKENDS, SHARED_HEADER } from "./primitive.ts";
+import { compareBigInts } from "./comparer.ts";
+import { QueueEmitter } from "./events.ts";
+import { readSnapshot, writeSnapshot } from "./snapshot.ts";
+
+/**
+ * Resolves the typed array constructors for the elements and priorities.
+ * @param backend - One constructor for both, or separate constructors for each.
+ * @returns - The constructors for the elements and priorities.
+ */
+const resolveBackends = (backend: TypedBackend): Required<ITypedBackends> => {
+  if (typeof backend === "function") {
+    return { valueBackend: backend, priorityBackend: backend };
+  }
+  return { valueBackend: backend.valueBackend, priorityBackend: backend.priorityBackend ?? backend.valueBackend };
+}
+
+/**
+ * Finds the typed array constructor with the specified name.
+ * @param name - The name of the constructor, such as `Float64Array`.
+ * @returns - The typed array constructor.
+ */
+const backendNamed = (name: string): TypedArrayConstructor | BigTypedArrayConstructor => {
+  const backend = SHARED_BACKENDS.find((backend) => backend.name === name);
+  if (!backend) {
+    throw new Error(`[pq-ts] Unknown typed array backend: ${name}.`);
+  }
+  return backend;
+}
+
+/**
+ * Converts a value stored in a typed array to a JSON value.
+ * Bigints and numbers that JSON cannot represent, such as `Infinity`, are stored as strings.
+ * @param value - The stored value.
+ * @returns - The JSON value.
+ */
+const encodeTyped = (value: TypedValue): number | string => {
+  return typeof value === "bigint" || !Number.isFinite(value) ? value.toString() : value;
+}
 
+/**
+ * Converts JSON values back to values that can be stored in a typed array.
+ * @param values - The JSON values.
+ * @param backend - The typed array constructor the values are stored in.
+ * @returns - The values.
+ */
+const decodeTyped = (values: unknown[], backend: TypedArrayConstructor | BigTypedArrayConstructor): TypedValue[] => {
+  return backend === BigInt64Array || backend === BigUint64Array
+    ? values.map((value) => BigInt(value as string | number))
+    : values.map(Number);
+}
 
+/**
+ * A priority queue backed by typed arrays.
+ * Elements and priorities are numbers, or bigints when they are stored in a `BigInt64Array` or `BigUint64Array`.
+ * The `Node` type parameter carries the value and priority types, for example `IPriorityNode<bigint, bigint>`.
+ *
+ * @remarks
+ * The queue can be stored in a `SharedArrayBuffer` with the `buffer` option and opened in other threads
+ * with `attach`. It does not synchronize its operations; use a `ConcurrentTypedPriorityQueue` to share a
+ * queue between threads that change it.
+ */
 export class TypedPriorityQueue<
-  Node extends IPriorityNode<number> = IPriorityNode<number>,
+  Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
   Comparer extends IComparer<Node> = IComparer<Node>,
-> implements IPriorityQueueLike<number, Node, Comparer> {
-  protected _elements: TypedArray;
-  protected _priorities: TypedArray;
+> implements IPriorityQueueLike<Node["value"], Node, Comparer, Node["priority"]> {
+  protected _elements: TypedStorage;
+  protected _priorities: TypedStorage;
+  /** The number of elements in the queue. Shared queues read and write it in the header of the buffer. */
   protected _size = 0;
-  protected _backend: TypedArrayConstructor;
-  protected readonly _defaultSize: number;
+  protected _header: Int32Array;
+  protected _buffer?: SharedArrayBuffer;
+  protected _backend: TypedArrayConstructor | BigTypedArrayConstructor;
+  protected _priorityBackend: TypedArrayConstructor | BigTypedArrayConstructor;
+  protected _defaultSize: number;
+  protected readonly _log2Arity: number;
+  /** The listeners of the queue, or undefined if there are none */
+  protected _events?: QueueEmitter<Node["value"], Node["priority"]>;
   compare: Comparer;
 
   protected readonly _up = (node: Node, index: number) => {
-    return upWithPriorities(this._elements, this._priorities)(
+    return upWithPriorities(this._elements, this._priorities, undefined, undefined, this._log2Arity)(
       node, index, this.compare as Comparer
     );
   }
 
   protected readonly _down = (node: Node, index: number) => {
-    return downWithPriorities(this._elements, this._priorities, this._size)(
+    return downWithPriorities(this._elements, this._priorities, this._size, undefined, undefined, this._log2Arity)(
       node,
       index,
       this.compare as Comparer
@@ -28,23 +94,85 @@ export class TypedPriorityQueue<
   }
 
   protected readonly _heapify = (size: number) => {
-    return heapifyWithPriorities(this._elements, this._priorities, size)(
+    return heapifyWithPriorities(this._elements, this._priorities, size, undefined, undefined, this._log2Arity)(
       this.compare as Comparer
     );
   }
 
   /**
    * Creates a new instance of a priority queue backed by a typed array.
-   * @param backend - The typed array constructor for the elements.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
    * @param size - The initial size of the queue.
    * @param comparer - An optional comparison function.
+   * @param options - The options for the queue.
    */
-  constructor(backend: TypedArrayConstructor, size: number, comparer?: Comparer) {
-    this._backend = backend;
+  constructor(backend: TypedBackend, size: number, comparer?: Comparer, options?: ITypedPriorityQueueOptions) {
+    const { valueBackend, priorityBackend } = resolveBackends(backend);
+    this._backend = valueBackend;
+    this._priorityBackend = priorityBackend;
     this._defaultSize = size;
-    this._elements = new backend(size);
-    this._priorities = new backend(size);
-    this.compare = comparer ?? ((a, b) => a.priority - b.priority) as Comparer;
+    this._log2Arity = log2Arity(options?.arity ?? ARITY);
+
+    const buffer = options?.buffer;
+    if (buffer) {
+      const layout = sharedLayout(valueBackend.BYTES_PER_ELEMENT, priorityBackend.BYTES_PER_ELEMENT, size);
+      const header = [
+        size,
+        SHARED_BACKENDS.indexOf(valueBackend as typeof SHARED_BACKENDS[number]) + 1,
+        SHARED_BACKENDS.indexOf(priorityBackend as typeof SHARED_BACKENDS[number]) + 1,
+        this._log2Arity
+      ];
+      if (size < 1) {
+        throw new Error("[pq-ts] A queue in a shared buffer must have a size of at least 1.");
+      }
+      if (header[1] === 0 || header[2] === 0) {
+        throw new Error("[pq-ts] The backend cannot be stored in a shared buffer.");
+      }
+      if (buffer.byteLength < layout.byteLength) {
+        throw new Error("[pq-ts] The shared buffer is too small for the queue.");
+      }
+
+      this._buffer = buffer;
+      this._header = new Int32Array(buffer, 0, SHARED_HEADER.LENGTH);
+      if (this._header[SHARED_HEADER.CAPACITY] === 0) {
+        this._header.set(header, SHARED_HEADER.CAPACITY);
+      } else if (header.some((field, i) => this._header[SHARED_HEADER.CAPACITY + i] !== field)) {
+        throw new Error("[pq-ts] The shared buffer holds a queue with a different layout.");
+      }
+      this._elements = new valueBackend(buffer, layout.values, size);
+      this._priorities = new priorityBackend(buffer, layout.priorities, size);
+      // Only shared queues pay for keeping the size in the header, where other threads can see it.
+      const sharedHeader = this._header;
+      Object.defineProperty(this, "_size", {
+        get: () => sharedHeader[SHARED_HEADER.SIZE],
+        set: (size: number) => { sharedHeader[SHARED_HEADER.SIZE] = size; },
+      });
+    } else {
+      this._header = new Int32Array(SHARED_HEADER.LENGTH);
+      this._elements = new valueBackend(size);
+      this._priorities = new priorityBackend(size);
+    }
+
+    const bigPriorities = this._priorityBackend === BigInt64Array || this._priorityBackend === BigUint64Array;
+    this.compare = comparer ?? (bigPriorities
+      ? (a: Node, b: Node) => compareBigInts(a.priority as bigint, b.priority as bigint)
+      : (a: Node, b: Node) => (a.priority as number) - (b.priority as number)) as Comparer;
+  }
+
+  /**
+   * The typed array constructors for the elements and priorities.
+   * @readonly
+   */
+  get backends(): Required<ITypedBackends> {
+    return { valueBackend: this._backend, priorityBackend: this._priorityBackend };
+  }
+
+  /**
+   * The shared buffer that stores the queue, or undefined if the queue is not shared.
+   * @readonly
+   */
+  get buffer(): SharedArrayBuffer | undefined {
+    return this._buffer;
   }
 
   get heap(): Node[] {
@@ -67,31 +195,40 @@ export class TypedPriorityQueue<
     return { value, priority, nindex: 0 } as Node;
   }
 
-  toArray(): number[] {
-    const clone = this.clone();
-    const result: number[] = [];
-    while (!clone.isEmpty()) {
-      result.push(clone.dequeue() as number);
+  toArray(): Node["value"][] {
+    const result: Node["value"][] = [];
+    for (const value of this) {
+      result.push(value);
     }
     return result;
   }
 
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * Reading the first k nodes takes O(k log k) time.
+   * @returns - A generator of nodes in priority order.
+   */
+  orderedNodes(): Generator<Node, void, undefined> {
+    return ordered((index) => this.nodeAt(index), this._size, this._log2Arity)(this.compare);
+  }
+
   clone(): this {
     const size = Math.max(this._elements.length, this._defaultSize);
-    const clone = new TypedPriorityQueue<Node, Comparer>(this._backend, size, this.compare);
+    const clone = new TypedPriorityQueue<Node, Comparer>(this.backends, size, this.compare, { arity: this.arity });
     clone._elements.set(this._elements);
     clone._priorities.set(this._priorities);
     clone._size = this._size;
     return clone as this;
   }
 
-  remove(value: number, comparer: IEqualityComparator<number> = (a, b) => a === b): boolean {
+  remove(value: Node["value"], comparer: IEqualityComparator<Node["value"]> = (a, b) => a === b): boolean {
     let index = -1;
     for (let i = 0; i < this._size; i++) {
-      if (comparer(value, this._elements[i])) { index = i; break; }
+      if (comparer(value, this._elements[i] as Node["value"])) { index = i; break; }
     }
     if (index < 0) return false;
     const [removedElement, removedPriority] = [this._elements[index], this._priorities[index]];
+    this._events?.emit("remove", { value: removedElement, priority: removedPriority, index });
     const newSize = --this._size;
     const removedNode = {
       value: removedElement,
@@ -102,7 +239,7 @@ export class TypedPriorityQueue<
     // If the element is not the last one, replace it with the last element.
     if (index < newSize) {
       const lastNode = {
-        value: this._elements[newSize] as number,
+        value: this._elements[newSize],
         priority: this._priorities[newSize],
         nindex: newSize
       } as const as Node;
@@ -116,38 +253,32 @@ export class TypedPriorityQueue<
       }
     }
 
-    this._elements[newSize] = 0;
-    this._priorities[newSize] = 0;
+    this.clearAt(newSize);
 
     return true;
   }
 
-  indexOf(value: number, dequeue = false, comparer: IEqualityComparator<number> = (a, b) => a === b): number {
+  indexOf(value: Node["value"], dequeue = false, comparer: IEqualityComparator<Node["value"]> = (a, b) => a === b): number {
     if (!dequeue) {
       for (let i = 0; i < this._size; i++) {
-        if (comparer?.(this._elements[i], value)) return i;
+        if (comparer?.(this._elements[i] as Node["value"], value)) return i;
       }
       return -1;
     }
-    const clone = this.clone();
     let index = 0;
-    while (!clone.isEmpty()) {
-      if (comparer?.(clone.dequeue() as number, value)) return index;
+    for (const element of this) {
+      if (comparer?.(element, value)) return index;
       index++;
     }
     return -1;
   }
 
-  priorityAt(index: number, dequeue = false): number {
+  priorityAt(index: number, dequeue = false): Node["priority"] | number {
     if (index >= this._size) return Number.MAX_VALUE;
-    if (!dequeue || index === 0) return this._priorities[index];
-    const clone = this.clone();
+    if (!dequeue || index === 0) return this._priorities[index] as Node["priority"];
     let i = index;
-    // We don't really know the index of the element
-    // so we will have to dequeue until we find the element
-    while (!clone.isEmpty()) {
-      const node = clone.pop();
-      if (i-- === 0) return node?.priority ?? Number.MAX_VALUE;
+    for (const node of this.orderedNodes()) {
+      if (i-- === 0) return node.priority;
     }
 
     return Number.MAX_VALUE;
@@ -157,30 +288,120 @@ export class TypedPriorityQueue<
     return this.toArray().join(", ");
   }
 
-  enqueue(value: number, priority: number): boolean {
+  enqueue(value: Node["value"], priority: Node["priority"]): boolean {
     const currentSize = this._size;
     if (currentSize === this._elements.length) {
+      if (this._buffer) return false;
       this.grow(currentSize + 1);
     }
+    this._events?.emit("enqueue", { value, priority, index: currentSize });
     this._size = currentSize + 1;
     this._up({ value, priority } as const as Node, currentSize);
     return true;
   }
 
-  dequeue(): number | undefined {
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element at the front of the queue after the element was added.
+   */
+  enqueueDequeue(value: Node["value"], priority: Node["priority"]): Node["value"] | undefined {
+    this._events?.emit("enqueue", { value, priority, index: 0 });
+    if (this.isEmpty()) {
+      this._events?.emit("dequeue", { value, priority, index: 0 });
+      return value;
+    }
+    const node = this.createNode(value, priority, 0);
+    const root = this.nodeAt(0);
+    if (this.compare(root, node) >= 0) {
+      this._events?.emit("dequeue", { value, priority, index: 0 });
+      return value;
+    }
+
+    this._events?.emit("dequeue", { value: root.value, priority: root.priority, index: 0 });
+    this._down(node, 0);
+    return root.value;
+  }
+
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * The new element replaces the front of the queue and is moved down once.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns - The element that was at the front of the queue, or undefined if the queue was empty.
+   */
+  dequeueEnqueue(value: Node["value"], priority: Node["priority"]): Node["value"] | undefined {
+    if (this.isEmpty()) {
+      this.enqueue(value, priority);
+      return undefined;
+    }
+
+    const root = this._elements[0] as Node["value"];
+    this._events?.emit("dequeue", { value: root, priority: this._priorities[0] as Node["priority"], index: 0 });
+    this._events?.emit("enqueue", { value, priority, index: 0 });
+    this._down(this.createNode(value, priority, 0), 0);
+    return root;
+  }
+
+  /**
+   * Moves all elements of another typed queue into this queue and leaves the other queue empty.
+   * The elements are appended to the heap, which is then rebuilt in O(n) when more elements were
+   * appended than were already in the queue; otherwise each appended element is moved up.
+   * @param other - The queue to take elements from.
+   * @returns - This queue.
+   */
+  meld(other: TypedPriorityQueue<Node, Comparer>): this {
+    if (other === this || other.isEmpty()) return this;
+    const currentSize = this._size;
+    const size = currentSize + other._size;
+    if (this._elements.length < size) {
+      this.grow(size);
+    }
+    this.append(other, currentSize);
+    this._size = size;
+    if (this._events) {
+      for (let i = currentSize; i < size; i++) {
+        this._events.emit("enqueue", { value: this._elements[i], priority: this._priorities[i], index: i });
+      }
+    }
+
+    if (size - currentSize > currentSize) {
+      this._heapify(size);
+    } else {
+      for (let i = currentSize; i < size; i++) {
+        this._up(this.nodeAt(i), i);
+      }
+    }
+
+    other.clear();
+    return this;
+  }
+
+  dequeue(): Node["value"] | undefined {
     if (this.isEmpty()) return undefined;
-    const element = this._elements[0];
+    const element = this._elements[0] as Node["value"];
     this.removeRootNode();
     return element;
   }
 
-  peek(): number | undefined {
-    return this.isEmpty() ? undefined : this._elements[0];
+  peek(): Node["value"] | undefined {
+    return this.isEmpty() ? undefined : this._elements[0] as Node["value"];
   }
 
   clear(): void {
+    this._events?.emit("clear", { count: this._size });
+    if (this._buffer) {
+      // Keep the shared storage so that other threads still see the queue.
+      for (let i = 0; i < this._size; i++) {
+        this.clearAt(i);
+      }
+      this._size = 0;
+      return;
+    }
     this._elements = new this._backend(this._defaultSize);
-    this._priorities = new this._backend(this._defaultSize);
+    this._priorities = new this._priorityBackend(this._defaultSize);
     this._size = 0;
   }
 
@@ -188,10 +409,18 @@ export class TypedPriorityQueue<
     return this._size;
   }
 
-  get values(): number[] {
-    const result: number[] = [];
+  /**
+   * The number of children each node in the heap has.
+   * @readonly
+   */
+  get arity(): number {
+    return 1 << this._log2Arity;
+  }
+
+  get values(): Node["value"][] {
+    const result: Node["value"][] = [];
     for (let i = 0; i < this._size; i++) {
-      result.push(this._elements[i]);
+      result.push(this._elements[i] as Node["value"]);
     }
     return result;
   }
@@ -200,11 +429,157 @@ export class TypedPriorityQueue<
     return this._size === 0;
   }
 
+  /**
+   * Creates a new node for the queue.
+   * @param value - The value of the node.
+   * @param priority - The priority of the node.
+   * @param nindex - The index of the node in the heap.
+   * @returns - The new node.
+   */
+  protected createNode(value: Node["value"], priority: Node["priority"], nindex: number): Node {
+    return { value, priority, nindex } as Node;
+  }
+
+  /**
+   * Reads the node at the specified heap index.
+   * @param index - The index of the node.
+   * @returns - The node at the index.
+   */
+  protected nodeAt(index: number): Node {
+    return { value: this._elements[index], priority: this._priorities[index], nindex: index } as Node;
+  }
+
+  /**
+   * Copies the elements of another queue to the end of the storage.
+   * @param other - The queue to copy elements from.
+   * @param offset - The index to copy the first element to.
+   */
+  protected append(other: TypedPriorityQueue<Node, Comparer>, offset: number): void {
+    this._elements.set(other._elements.subarray(0, other._size), offset);
+    this._priorities.set(other._priorities.subarray(0, other._size), offset);
+  }
+
+  /**
+   * Loads the elements of a queue from its JSON representation, keeping their heap order.
+   * @param json - The JSON representation of the queue.
+   */
+  protected restore(json: IQueueJSON): void {
+    const size = json.values.length;
+    if (this._elements.length < size) {
+      this.grow(size);
+    }
+    this._elements.set(decodeTyped(json.values, this._backend));
+    this._priorities.set(decodeTyped(json.priorities, this._priorityBackend));
+    this._size = size;
+  }
+
+  /**
+   * Captures the contents of the queue for a binary snapshot. The storage is not copied.
+   * @returns - The contents of the queue.
+   */
+  protected snapshot(): ITypedSnapshot {
+    return {
+      valueBackend: this._backend,
+      priorityBackend: this._priorityBackend,
+      log2Arity: this._log2Arity,
+      capacity: this._elements.length,
+      elements: this._elements.subarray(0, this._size),
+      priorities: this._priorities.subarray(0, this._size),
+      sindex: 0n
+    };
+  }
+
+  /**
+   * Loads the elements of a queue from a binary snapshot, keeping their heap order.
+   * @param snapshot - The contents of the queue.
+   */
+  protected restoreSnapshot(snapshot: ITypedSnapshot): void {
+    const size = snapshot.elements.length;
+    if (this._elements.length < size) {
+      this.grow(size);
+    }
+    this._elements.set(snapshot.elements);
+    this._priorities.set(snapshot.priorities);
+    this._size = size;
+  }
+
+  /**
+   * Adds a listener for an event of the queue. Queues without listeners do not create events.
+   * Listeners are not copied by `clone` or shared with other threads, and must not change the queue while it emits an event.
+   * @param type - The name of the event.
+   * @param listener - The function to call with the affected value, priority and heap index, or with the
+   * number of removed elements for `clear` and the new capacity for `grow`.
+   * @returns - This queue.
+   */
+  on<K extends QueueEventType>(type: K, listener: IQueueListener<IQueueEventMap<Node["value"], Node["priority"]>[K]>): this {
+    this._events ??= new QueueEmitter<Node["value"], Node["priority"]>();
+    this._events.on(type, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener for an event of the queue.
+   * @param type - The name of the event.
+   * @param listener - The function that was added with `on`.
+   * @returns - This queue.
+   */
+  off<K extends QueueEventType>(type: K, listener: IQueueListener<IQueueEventMap<Node["value"], Node["priority"]>[K]>): this {
+    if (this._events?.off(type, listener) && this._events.count === 0) {
+      this._events = undefined;
+    }
+    return this;
+  }
+
+  /**
+   * Describes the queue for a transfer to another thread. The storage is not copied.
+   * @returns - The description of the queue.
+   */
+  protected transferable(): ITypedTransferable {
+    return {
+      arity: this.arity,
+      initialSize: this._defaultSize,
+      count: this._size,
+      elements: this._elements,
+      priorities: this._priorities
+    };
+  }
+
+  /**
+   * Takes over the storage of a queue that was transferred from another thread.
+   * @param descriptor - The description of the queue.
+   */
+  protected adopt(descriptor: ITypedTransferable): void {
+    const size = descriptor.count;
+    if (this._buffer) {
+      // A shared queue keeps its storage, so the elements are copied into it.
+      if (this._elements.length < size) {
+        this.grow(size);
+      }
+      this._elements.set(descriptor.elements.subarray(0, size));
+      this._priorities.set(descriptor.priorities.subarray(0, size));
+    } else {
+      this._elements = descriptor.elements;
+      this._priorities = descriptor.priorities;
+      this._defaultSize = descriptor.initialSize;
+    }
+    this._size = size;
+  }
+
+  /**
+   * Resets the storage at the specified index after its element left the queue.
+   * @param index - The index to reset.
+   */
+  protected clearAt(index: number): void {
+    this._elements[index] = typeof this._elements[index] === "bigint" ? 0n : 0;
+    this._priorities[index] = typeof this._priorities[index] === "bigint" ? 0n : 0;
+  }
+
   protected removeRootNode(): void {
     if (this.isEmpty()) return;
     if (this._elements.length !== this._priorities.length) {
       throw new Error("[pq-ts] Elements and priorities are out of sync.");
     }
+    this._events?.emit("dequeue", { value: this._elements[0], priority: this._priorities[0], index: 0 });
 
     const lastNodeIndex = --this._size;
 
@@ -215,8 +590,8 @@ export class TypedPriorityQueue<
 
       // Down heapify from root
       const rootNode: Node = {
-        value: this._elements[0] as number,
-        priority: this._priorities[0] as number,
+        value: this._elements[0],
+        priority: this._priorities[0],
         nindex: 0
       } as const as Node;
 
@@ -224,21 +599,75 @@ export class TypedPriorityQueue<
     }
 
     // Clear last position
-    this._elements[lastNodeIndex] = 0;
-    this._priorities[lastNodeIndex] = 0;
+    this.clearAt(lastNodeIndex);
   }
 
   protected grow(minCapacity: number): void {
+    if (this._buffer) {
+      throw new Error("[pq-ts] A queue in a shared buffer cannot grow.");
+    }
     this._elements = growTyped(this._elements, minCapacity, this._backend);
-    this._priorities = growTyped(this._priorities, minCapacity, this._backend);
+    this._priorities = growTyped(this._priorities, minCapacity, this._priorityBackend);
+    this._events?.emit("grow", { capacity: this._elements.length });
+  }
+
+  /**
+   * Converts the queue to its JSON representation, which `fromJSON` restores.
+   * Bigints and numbers that JSON cannot represent, such as `Infinity`, are stored as strings.
+   * @returns - The JSON representation of the queue.
+   */
+  toJSON(): IQueueJSON<number | string, number | string> {
+    return {
+      arity: this.arity,
+      capacity: this._elements.length,
+      values: Array.from(this._elements.subarray(0, this._size), encodeTyped),
+      priorities: Array.from(this._priorities.subarray(0, this._size), encodeTyped),
+      backends: { valueBackend: this._backend.name, priorityBackend: this._priorityBackend.name }
+    };
+  }
+
+  /**
+   * Writes the queue to a compact binary snapshot, which `fromBuffer` restores.
+   * The snapshot stores the raw bytes of the elements and priorities, so it is much faster than JSON for large queues.
+   * @returns - The bytes of the snapshot.
+   */
+  toBuffer(): Uint8Array {
+    return writeSnapshot(this.snapshot());
+  }
+
+  /**
+   * Moves the storage of the queue into a plain description that `postMessage` can send to another thread,
+   * where `fromTransferable` turns it back into a queue. The queue is left empty.
+   * Pass the returned buffers as the transfer list to move the storage instead of copying it.
+   * @returns - The description of the queue and the buffers to transfer.
+   * @throws - If the queue is stored in a shared buffer; open such queues with `attach` instead.
+   *
+   * @example
+   * ```typescript
+   * const { descriptor, transfer } = queue.toTransferable();
+   * worker.postMessage(descriptor, transfer);
+   * ```
+   */
+  toTransferable(): ITypedTransfer {
+    if (this._buffer) {
+      throw new Error("[pq-ts] A queue in a shared buffer cannot be transferred; use attach instead.");
+    }
+    const descriptor = this.transferable();
+    const transfer = [descriptor.elements, descriptor.priorities, descriptor.indices]
+      .map((storage) => (storage as ArrayBufferView | undefined)?.buffer as ArrayBuffer)
+      .filter((buffer, i, buffers) => buffer && buffers.indexOf(buffer) === i);
+    this.clear();
+    return { descriptor, transfer };
   }
 
   /**
    * Iterates over the queue in priority order.
    * @returns - An iterator for the queue.
    */
-  [Symbol.iterator](): Iterator<number> {
-    return this.toArray()[Symbol.iterator]();
+  *[Symbol.iterator](): Iterator<Node["value"]> {
+    for (const node of this.orderedNodes()) {
+      yield node.value;
+    }
   }
 
   /**
@@ -246,22 +675,24 @@ export class TypedPriorityQueue<
   * 
   * @param elements - An array of elements to be added to the queue.
   * @param priorities - An array of priorities corresponding to the elements.
-  * @param backend - The typed array constructor to be used for the queue.
+  * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
   * @param size - The initial size of the queue.
   * @param comparer - (Optional) A custom comparer for the queue elements.
+  * @param options - (Optional) The options for the queue.
   * @returns A new instance of the queue.
   */
   static from<
-    Node extends IPriorityNode<number>,
-    Comparer extends IComparer<Node>,
-    Self extends typeof TypedPriorityQueue<Node, Comparer>
+    Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    Self extends typeof TypedPriorityQueue<Node, Comparer> = typeof TypedPriorityQueue<Node, Comparer>
   >(
     this: Self,
-    elements: number[],
-    priorities: number[],
-    backend: TypedArrayConstructor,
+    elements: Node["value"][],
+    priorities: Node["priority"][],
+    backend: TypedBackend,
     size: number,
-    comparer?: Comparer
+    comparer?: Comparer,
+    options?: IPriorityQueueOptions
   ): InstanceType<Self>;
 
   /**
@@ -272,35 +703,35 @@ export class TypedPriorityQueue<
    * @returns A new instance of the queue.
    */
   static from<
-    Node extends IPriorityNode<number>,
+    Node extends IPriorityNode<TypedValue, TypedValue>,
     Comparer extends IComparer<Node>,
-    Self extends typeof TypedPriorityQueue<Node, Comparer>
+    Queue extends TypedPriorityQueue<Node, Comparer>
   >(
-    this: Self,
-    queue: InstanceType<Self>,
+    queue: Queue & TypedPriorityQueue<Node, Comparer>,
     comparer?: Comparer
-  ): InstanceType<Self>;
+  ): Queue;
   static from<
-    Node extends IPriorityNode<number>,
-    Comparer extends IComparer<Node>,
-    Self extends typeof TypedPriorityQueue<Node, Comparer>
+    Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    Self extends typeof TypedPriorityQueue<Node, Comparer> = typeof TypedPriorityQueue<Node, Comparer>
   >(
     this: Self,
-    elementsOrQueue: number[] | InstanceType<Self>,
-    prioritiesOrSize?: number[] | TypedArrayConstructor | Comparer,
-    backendOrComparer?: TypedArrayConstructor | Comparer,
+    elementsOrQueue: Node["value"][] | InstanceType<Self>,
+    prioritiesOrSize?: Node["priority"][] | Comparer,
+    backendOrComparer?: TypedBackend | Comparer,
     size?: number,
-    comparer?: Comparer
+    comparer?: Comparer,
+    options?: IPriorityQueueOptions
   ): InstanceType<Self> {
     const fromElements = (
-      elements: number[],
-      priorities: number[],
-      backend: TypedArrayConstructor,
+      elements: Node["value"][],
+      priorities: Node["priority"][],
+      backend: TypedBackend,
       size: number,
       comparer?: Comparer
     ) => {
       // biome-ignore lint/complexity/noThisInStatic: <explanation>
-      const queue = new this(backend, size, comparer);
+      const queue = new this(backend, size, comparer, options);
       for (let i = 0; i < elements.length; i++) {
         queue.enqueue(elements[i], priorities[i]);
       }
@@ -311,9 +742,9 @@ export class TypedPriorityQueue<
       queue: InstanceType<Self>,
       comparer?: Comparer
     ) => {
-      const size = queue._size > queue._defaultSize ? queue._size : queue._defaultSize;
+      const size = Math.max(queue._elements.length, queue._defaultSize);
       // biome-ignore lint/complexity/noThisInStatic: <explanation>
-      const newQueue = new this(queue._backend, size, comparer);
+      const newQueue = new this(queue.backends, size, comparer, { arity: queue.arity });
       newQueue._elements.set(queue._elements);
       newQueue._priorities.set(queue._priorities);
       newQueue._size = queue._size;
@@ -322,9 +753,9 @@ export class TypedPriorityQueue<
 
     if (Array.isArray(elementsOrQueue)) {
       return fromElements(
-        elementsOrQueue as number[],
-        prioritiesOrSize as number[],
-        backendOrComparer as TypedArrayConstructor,
+        elementsOrQueue as Node["value"][],
+        prioritiesOrSize as Node["priority"][],
+        backendOrComparer as TypedBackend,
         size as number,
         comparer
       ) as InstanceType<Self>;
@@ -335,4 +766,167 @@ export class TypedPriorityQueue<
       prioritiesOrSize as Comparer
     ) as InstanceType<Self>;
   }
+
+  /**
+   * Restores a typed queue from its JSON representation.
+   * The elements keep their heap order, and the heap is rebuilt in O(n) in case the comparer changed.
+   * @param json - The JSON representation of the queue, or a string that contains it.
+   * @param options - (Optional) The comparer and arity of the queue. The arity defaults to the stored arity.
+   * @returns - A new instance of the queue.
+   */
+  static fromJSON<
+    Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Self extends typeof TypedPriorityQueue<any, any> = typeof TypedPriorityQueue<Node, Comparer>
+  >(
+    this: Self,
+    json: IQueueJSON | string,
+    options?: Pick<IQueueJSONOptions<Node["value"], Node["priority"], Comparer>, "comparer" | "arity">
+  ): InstanceType<Self> {
+    const data = parseQueueJSON(json);
+    if (!data.backends) {
+      throw new Error("[pq-ts] The JSON does not describe a typed queue.");
+    }
+    const backends = {
+      valueBackend: backendNamed(data.backends.valueBackend),
+      priorityBackend: backendNamed(data.backends.priorityBackend)
+    };
+    const size = Math.max(data.capacity, data.values.length);
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const queue = new this(backends, size, options?.comparer, { arity: options?.arity ?? data.arity }) as InstanceType<Self>;
+    queue.restore(data);
+    queue._heapify(queue._size);
+    return queue;
+  }
+
+  /**
+   * Restores a typed queue from a binary snapshot written by `toBuffer`.
+   * The elements keep their heap order, and the heap is rebuilt in O(n) in case the comparer changed.
+   * @param bytes - The bytes of the snapshot.
+   * @param comparer - (Optional) A custom comparer for the queue elements.
+   * @returns - A new instance of the queue.
+   * @throws - If the bytes are not a snapshot, the version is not supported, or the checksum does not match.
+   */
+  static fromBuffer<
+    Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Self extends typeof TypedPriorityQueue<any, any> = typeof TypedPriorityQueue<Node, Comparer>
+  >(
+    this: Self,
+    bytes: ArrayBufferLike | ArrayBufferView,
+    comparer?: Comparer
+  ): InstanceType<Self> {
+    const snapshot = readSnapshot(bytes);
+    const backends = { valueBackend: snapshot.valueBackend, priorityBackend: snapshot.priorityBackend };
+    const size = Math.max(snapshot.capacity, snapshot.elements.length, 1);
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const queue = new this(backends, size, comparer, { arity: 1 << snapshot.log2Arity }) as InstanceType<Self>;
+    queue.restoreSnapshot(snapshot);
+    queue._heapify(queue._size);
+    return queue;
+  }
+
+  /**
+   * Creates a queue from a description that `toTransferable` made in another thread, without copying its storage.
+   * The elements keep their heap order, and the heap is rebuilt in O(n) in case the comparer changed.
+   * @param descriptor - The description of the queue.
+   * @param comparer - (Optional) A custom comparer for the queue elements.
+   * @returns - A new instance of the queue.
+   * @throws - If the description does not hold typed array storage for the queue.
+   *
+   * @example
+   * ```typescript
+   * parentPort.on("message", (descriptor) => {
+   *   const queue = TypedPriorityQueue.fromTransferable(descriptor);
+   * });
+   * ```
+   */
+  static fromTransferable<
+    Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+    Self extends typeof TypedPriorityQueue<any, any> = typeof TypedPriorityQueue<Node, Comparer>
+  >(
+    this: Self,
+    descriptor: ITypedTransferable,
+    comparer?: Comparer
+  ): InstanceType<Self> {
+    const { elements, priorities, count } = descriptor;
+    const valueBackend = SHARED_BACKENDS.find((backend) => elements instanceof backend);
+    const priorityBackend = SHARED_BACKENDS.find((backend) => priorities instanceof backend);
+    if (!valueBackend || !priorityBackend || elements.length !== priorities.length || count > elements.length) {
+      throw new Error("[pq-ts] The descriptor does not describe a typed queue.");
+    }
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const size = this.adoptionSize(descriptor);
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const queue = new this({ valueBackend, priorityBackend }, size, comparer, { arity: descriptor.arity }) as InstanceType<Self>;
+    queue.adopt(descriptor);
+    queue._heapify(queue._size);
+    return queue;
+  }
+
+  /**
+   * Returns the size to create a queue with before it adopts transferred storage.
+   * Queues that take over the transferred arrays start without storage, so that nothing is allocated twice.
+   * @param descriptor - The description of the queue.
+   * @returns - The initial size of the new queue.
+   */
+  protected static adoptionSize(descriptor: ITypedTransferable): number {
+    return 0;
+  }
+
+  /**
+   * Computes the number of bytes a shared buffer needs to store a queue.
+   * @param backend - The typed array constructor for the elements and priorities, or separate constructors for each.
+   * @param size - The number of elements the queue can hold.
+   * @returns - The byte length of the buffer.
+   *
+   * @example
+   * ```typescript
+   * const buffer = new SharedArrayBuffer(TypedPriorityQueue.byteLength(Float64Array, 1024));
+   * const queue = new TypedPriorityQueue(Float64Array, 1024, undefined, { buffer });
+   * ```
+   */
+  static byteLength(backend: TypedBackend, size: number): number {
+    const { valueBackend, priorityBackend } = resolveBackends(backend);
+    return sharedLayout(valueBackend.BYTES_PER_ELEMENT, priorityBackend.BYTES_PER_ELEMENT, size).byteLength;
+  }
+
+  /**
+   * Opens a queue that was created in a shared buffer, for example by another thread.
+   * The backends, size and arity are read from the buffer; comparers cannot be shared and must be passed again.
+   * @param buffer - The shared buffer of the queue.
+   * @param comparer - (Optional) A custom comparer for the queue elements.
+   * @returns - A queue that reads and writes the shared buffer.
+   * @throws - If the buffer does not hold a queue, or this kind of queue cannot be stored in a shared buffer.
+   */
+  static attach<
+    Node extends IPriorityNode<TypedValue, TypedValue> = IPriorityNode<number>,
+    Comparer extends IComparer<Node> = IComparer<Node>,
+    Self extends typeof TypedPriorityQueue<Node, Comparer> = typeof TypedPriorityQueue<Node, Comparer>
+  >(
+    this: Self,
+    buffer: SharedArrayBuffer,
+    comparer?: Comparer
+  ): InstanceType<Self> {
+    const header = new Int32Array(buffer, 0, SHARED_HEADER.LENGTH);
+    const size = header[SHARED_HEADER.CAPACITY];
+    if (size === 0) {
+      throw new Error("[pq-ts] The shared buffer does not hold a queue.");
+    }
+    const backends = {
+      valueBackend: SHARED_BACKENDS[header[SHARED_HEADER.VALUE_BACKEND] - 1],
+      priorityBackend: SHARED_BACKENDS[header[SHARED_HEADER.PRIORITY_BACKEND] - 1]
+    };
+    const options = { buffer, arity: 1 << header[SHARED_HEADER.LOG2_ARITY] };
+    // biome-ignore lint/complexity/noThisInStatic: <explanation>
+    const queue = new this(backends, size, comparer, options) as InstanceType<Self>;
+    if (queue.buffer !== buffer) {
+      throw new Error("[pq-ts] This kind of queue cannot be stored in a shared buffer.");
+    }
+    return queue;
+  }
 }
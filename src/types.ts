@@ -23,14 +23,62 @@ export type IEqualityComparator<T> = (a: T, b: T) => boolean;
 /**
  * A type representing a typed array.
  */
-export type TypedArray = Int8Array | Int16Array | Int32Array | Uint8Array | Uint16Array | Uint32Array | Float32Array | Float64Array
+export type TypedArray = Int8Array | Int16Array | Int32Array | Uint8Array | Uint8ClampedArray | Uint16Array | Uint32Array | Float32Array | Float64Array
 /**
  * A type representing a constructor for a typed array.
  */
 export interface TypedArrayConstructor<T extends TypedArray = TypedArray> {
   new(length: number): T;
+  new(buffer: ArrayBufferLike, byteOffset?: number, length?: number): T;
   from(arrayLike: ArrayLike<number>): T;
+  readonly BYTES_PER_ELEMENT: number;
 }
+/**
+ * A type representing a typed array of 64-bit integers.
+ */
+export type BigTypedArray = BigInt64Array | BigUint64Array;
+/**
+ * A type representing a constructor for a typed array of 64-bit integers.
+ */
+export interface BigTypedArrayConstructor<T extends BigTypedArray = BigTypedArray> {
+  new(length: number): T;
+  new(buffer: ArrayBufferLike, byteOffset?: number, length?: number): T;
+  from(arrayLike: ArrayLike<bigint>): T;
+  readonly BYTES_PER_ELEMENT: number;
+}
+/**
+ * A type representing a value stored in a typed array: a number, or a bigint for 64-bit integer arrays.
+ */
+export type TypedValue = number | bigint;
+/**
+ * A type representing the storage of a typed priority queue, which is any typed array
+ * read and written as numbers or bigints.
+ */
+export interface TypedStorage extends Indexable<TypedValue> {
+  set(array: ArrayLike<TypedValue>, offset?: number): void;
+  subarray(begin?: number, end?: number): TypedStorage;
+  [Symbol.iterator](): Iterator<TypedValue>;
+}
+
+/**
+ * The typed array constructors used by a typed priority queue for its elements and priorities.
+ */
+export interface ITypedBackends {
+  /** The typed array constructor for the elements */
+  valueBackend: TypedArrayConstructor | BigTypedArrayConstructor;
+  /**
+   * The typed array constructor for the priorities.
+   * @defaultValue `valueBackend`
+   */
+  priorityBackend?: TypedArrayConstructor | BigTypedArrayConstructor;
+}
+
+/**
+ * A type representing the storage of a typed priority queue: either one typed array constructor
+ * for both the elements and the priorities, or separate constructors for each.
+ * 64-bit integer arrays store their elements or priorities as bigints.
+ */
+export type TypedBackend = TypedArrayConstructor | BigTypedArrayConstructor | ITypedBackends;
 
 /**
  * A type representing an indexable object with a length property.
@@ -51,10 +99,11 @@ export interface INode<T> {
  * Represents a node in a priority queue that extends a basic Node type with priority information.
  * 
  * @template T The type of value stored in the node
- * @property {number} priority The priority value of the node used for queue ordering
+ * @template P The type of the priority, which is a number by default
+ * @property {P} priority The priority value of the node used for queue ordering
  */
-export interface IPriorityNode<T = unknown> extends INode<T> {
-  priority: number;
+export interface IPriorityNode<T = unknown, P = number> extends INode<T> {
+  priority: P;
   /**
   * The index of the node in the heap.
   * @remarks `nindex` is short for "node index".
@@ -66,11 +115,12 @@ export interface IPriorityNode<T = unknown> extends INode<T> {
  * Extends the base INode interface with an additional index property for stability.
  * 
  * @template T The type of value stored in the node
+ * @template P The type of the priority, which is a number by default
  * @interface IStableNode
- * @extends {IPriorityNode<T>}
+ * @extends {IPriorityNode<T, P>}
  * @property {bigint} sindex An index used to maintain insertion order stability
  */
-export interface IStableNode<T> extends IPriorityNode<T> {
+export interface IStableNode<T, P = number> extends IPriorityNode<T, P> {
   /**
   * An index used to maintain insertion order stability.
   * @remarks `sindex` is short for "stability index".
@@ -78,13 +128,489 @@ export interface IStableNode<T> extends IPriorityNode<T> {
   sindex: bigint;
 }
 
+/**
+ * Represents a node in a pairing heap.
+ * Each node links to its first child and its next sibling, so a node can have any number of children.
+ *
+ * @template T The type of value stored in the node
+ * @interface IPairingNode
+ * @extends {IPriorityNode<T>}
+ * @remarks Pairing heap nodes are not stored in an array. `nindex` is 0 while the node is in a queue and -1 after it leaves.
+ */
+export interface IPairingNode<T> extends IPriorityNode<T> {
+  /** The first child of the node */
+  child?: IPairingNode<T>;
+  /** The next sibling of the node */
+  sibling?: IPairingNode<T>;
+  /** The previous sibling of the node, or its parent if it is the first child */
+  prev?: IPairingNode<T>;
+  /** The token of the queue that holds the node, which tells handles of other queues apart */
+  owner?: IPairingOwner;
+}
+
+/**
+ * Identifies the queue that holds a pairing heap node.
+ * When a queue is melded into another queue, its token forwards to the token of the other queue.
+ *
+ * @interface IPairingOwner
+ */
+export interface IPairingOwner {
+  /** The token of the queue this queue was melded into */
+  next?: IPairingOwner;
+}
+
+/**
+ * Options for creating a priority queue.
+ *
+ * @template P The type of the priority, which is a number by default
+ */
+export interface IPriorityQueueOptions<P = number> {
+  /**
+   * The number of children each node in the heap has. Must be a power of two from 2 to 65536.
+   * Wider heaps make enqueues and priority decreases cheaper; binary heaps make dequeues cheaper.
+   * @defaultValue 4
+   */
+  arity?: number;
+  /**
+   * The comparison function for priorities, used to order elements when no comparer is given.
+   * Without it, priorities must be numbers; with it, any value other than `undefined` and `null` is accepted.
+   * @defaultValue Numeric order, smallest first
+   */
+  priorityComparer?: IComparer<P>;
+  /**
+   * Whether an array passed to the constructor holds value and priority pairs instead of elements.
+   * @defaultValue false
+   */
+  entries?: boolean;
+}
+
+/**
+ * Options for creating a typed priority queue.
+ */
+export interface ITypedPriorityQueueOptions extends IPriorityQueueOptions {
+  /**
+   * A shared buffer to store the queue in, so that other threads can open the queue with `attach`.
+   * The buffer must hold at least `TypedPriorityQueue.byteLength(backend, size)` bytes, and the
+   * queue cannot grow beyond `size` elements.
+   */
+  buffer?: SharedArrayBuffer;
+}
+
+/**
+ * Converts values to and from JSON values, for values such as dates, maps, or class instances.
+ *
+ * @template T The type of the value
+ * @template E The type of the JSON value
+ */
+export interface IJSONCodec<T, E = unknown> {
+  /** Converts a value to a JSON value */
+  encode(value: T): E;
+  /** Converts a JSON value back to a value */
+  decode(encoded: E): T;
+}
+
+/**
+ * The codecs used to convert the values and priorities of a queue to and from JSON values.
+ * Values and priorities without a codec are stored as they are.
+ */
+export interface IQueueCodecs<T, P = number> {
+  /** The codec for the values */
+  codec?: IJSONCodec<T>;
+  /** The codec for the priorities */
+  priorityCodec?: IJSONCodec<P>;
+}
+
+/**
+ * Options for restoring a queue from JSON.
+ */
+export interface IQueueJSONOptions<T, P = number, Comparer = IComparer<IPriorityNode<T, P>>>
+  extends IPriorityQueueOptions<P>, IQueueCodecs<T, P> {
+  /** The comparison function of the queue, which cannot be stored in JSON */
+  comparer?: Comparer;
+}
+
+/**
+ * The JSON representation of a queue, produced by `toJSON` and restored by `fromJSON`.
+ * The elements are stored in heap order.
+ */
+export interface IQueueJSON<V = unknown, Q = unknown> {
+  /** The number of children each node in the heap has */
+  arity: number;
+  /** The number of elements the queue has room for */
+  capacity: number;
+  /** The values of the elements */
+  values: V[];
+  /** The priorities of the elements */
+  priorities: Q[];
+  /** The insertion indices of the elements of a stable queue, as strings */
+  indices?: string[];
+  /** The next insertion index of a stable queue, as a string */
+  index?: string;
+  /** The names of the typed array constructors of a typed queue */
+  backends?: { valueBackend: string; priorityBackend: string };
+}
+
+/**
+ * The contents of a typed queue that are stored in a binary snapshot.
+ */
+export interface ITypedSnapshot {
+  /** The typed array constructor for the elements */
+  valueBackend: TypedArrayConstructor | BigTypedArrayConstructor;
+  /** The typed array constructor for the priorities */
+  priorityBackend: TypedArrayConstructor | BigTypedArrayConstructor;
+  /** The log base 2 of the heap's arity */
+  log2Arity: number;
+  /** The number of elements the queue has room for */
+  capacity: number;
+  /** The elements in heap order */
+  elements: TypedStorage;
+  /** The priorities of the elements */
+  priorities: TypedStorage;
+  /** The insertion indices of the elements of a stable queue */
+  indices?: BigInt64Array;
+  /** The next insertion index of a stable queue */
+  sindex: bigint;
+}
+
+/**
+ * A plain description of a typed queue that `postMessage` can send to another thread.
+ * The typed arrays hold the storage of the queue, so their buffers can be transferred instead of copied.
+ */
+export interface ITypedTransferable {
+  /** The number of children each node in the heap has */
+  arity: number;
+  /** The size the queue was created with */
+  initialSize: number;
+  /** The number of elements in the queue */
+  count: number;
+  /** The storage of the elements, in heap order */
+  elements: TypedStorage;
+  /** The storage of the priorities */
+  priorities: TypedStorage;
+  /** The storage of the insertion indices of a stable queue */
+  indices?: BigInt64Array;
+  /** The next insertion index of a stable queue */
+  index?: bigint;
+}
+
+/**
+ * A typed queue prepared for `postMessage`, with the buffers to pass in the transfer list.
+ */
+export interface ITypedTransfer {
+  /** The description of the queue to send */
+  descriptor: ITypedTransferable;
+  /** The buffers to transfer with the description */
+  transfer: ArrayBuffer[];
+}
+
+/**
+ * An event about an element that entered or left a queue.
+ */
+export interface IQueueElementEvent<T, P = number> {
+  /** The value of the element */
+  value: T;
+  /** The priority of the element */
+  priority: P;
+  /** The heap index the element was added at or removed from */
+  index: number;
+}
+
+/**
+ * The events of a queue and the data passed to their listeners.
+ * - `enqueue`: An element was added.
+ * - `dequeue`: The element at the front of the queue was removed.
+ * - `remove`: An element was removed from elsewhere in the queue.
+ * - `clear`: All elements were removed.
+ * - `grow`: The storage of the queue was enlarged.
+ */
+export interface IQueueEventMap<T, P = number> {
+  enqueue: IQueueElementEvent<T, P>;
+  dequeue: IQueueElementEvent<T, P>;
+  remove: IQueueElementEvent<T, P>;
+  clear: { /** The number of elements that were removed */ count: number };
+  grow: { /** The number of elements the storage can hold after growing */ capacity: number };
+}
+
+/**
+ * The names of the events of a queue.
+ */
+export type QueueEventType = keyof IQueueEventMap<unknown>;
+
+/**
+ * A function that is called when a queue emits an event.
+ */
+export type IQueueListener<E> = (event: E) => void;
+
+/**
+ * The operations of a priority queue that an async priority queue uses to store its elements.
+ */
+export type IPriorityQueueCore<T, P = number> = Pick<IPriorityQueueLike<T, INode<T>, IComparer<INode<T>>, P>, "count" | "enqueue" | "dequeue" | "peek" | "isEmpty">;
+
+/**
+ * Options for waiting for an element of an async priority queue.
+ */
+export interface IAsyncDequeueOptions {
+  /** A signal that stops waiting when it is aborted */
+  signal?: AbortSignal;
+  /** The number of milliseconds to wait before giving up */
+  timeout?: number;
+}
+
+/**
+ * Options for creating a priority scheduler.
+ */
+export interface IPrioritySchedulerOptions<P = number> extends IPriorityQueueOptions<P> {
+  /**
+   * The maximum number of tasks that run at once. Must be a positive integer or `Infinity`.
+   * @defaultValue 1
+   */
+  concurrency?: number;
+  /**
+   * Whether the scheduler starts paused, so that no tasks run until `resume` is called.
+   * @defaultValue false
+   */
+  paused?: boolean;
+}
+
+/**
+ * Options for scheduling a task.
+ */
+export interface IScheduleOptions {
+  /**
+   * A signal that cancels the task. A pending task is removed from the scheduler, and a running task
+   * receives the signal so that it can stop itself.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A task run by a priority scheduler. The task receives the signal it was scheduled with.
+ */
+export type IScheduledTask<R> = (signal?: AbortSignal) => R | PromiseLike<R>;
+
+/**
+ * A source of the current time in milliseconds, such as `Date`. Tests can pass a virtual clock.
+ */
+export interface IClock {
+  /** Returns the current time in milliseconds */
+  now(): number;
+}
+
+/**
+ * A clock that can also call a function after a delay, such as the global timer functions.
+ */
+export interface ITimerClock extends IClock {
+  /**
+   * Calls a function after a delay.
+   * @param callback - The function to call.
+   * @param delay - The number of milliseconds to wait.
+   * @returns - A handle that cancels the call when passed to `clearTimeout`.
+   */
+  setTimeout(callback: () => void, delay: number): unknown;
+  /**
+   * Cancels a call scheduled with `setTimeout`.
+   * @param handle - The handle returned by `setTimeout`.
+   */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * How a retry scheduler retries a failed task.
+ * The delay before attempt `n + 1` is `delay * factor ** (n - 1)`, at most `maxDelay`, and then jittered.
+ */
+export interface IRetryPolicy<P = number> {
+  /**
+   * The number of times a task is run before it is given up, including the first attempt.
+   * @defaultValue 3
+   */
+  maxAttempts?: number;
+  /**
+   * The number of milliseconds to wait before the first retry.
+   * @defaultValue 100
+   */
+  delay?: number;
+  /**
+   * The factor the delay is multiplied by after each retry. A factor of 1 waits the same delay every time.
+   * @defaultValue 2
+   */
+  factor?: number;
+  /**
+   * The longest delay in milliseconds.
+   * @defaultValue Infinity
+   */
+  maxDelay?: number;
+  /**
+   * How the delay is randomized so that failed tasks do not retry at once.
+   * - `none`: The delay is not randomized.
+   * - `full`: The delay is random between 0 and the delay.
+   * - `equal`: The delay is random between half the delay and the delay.
+   * @defaultValue "none"
+   */
+  jitter?: "none" | "full" | "equal";
+  /**
+   * How the priority changes after each failure: an amount added to numeric priorities,
+   * or a function of the priority and the number of the failed attempt.
+   * Amounts are only accepted by schedulers without a priority comparer.
+   */
+  demote?: number | ((priority: P, attempt: number) => P);
+  /**
+   * Decides whether a failed task is retried. Tasks are retried after every error by default.
+   * @param error - The error of the failed attempt.
+   * @param attempt - The number of the failed attempt, starting at 1.
+   */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Options for creating a retry scheduler.
+ */
+export interface IRetrySchedulerOptions<P = number> extends IPrioritySchedulerOptions<P> {
+  /** The retry policy of tasks that are scheduled without one */
+  retry?: IRetryPolicy<P>;
+  /**
+   * The clock that waits for the delays between attempts.
+   * @defaultValue The global `Date.now`, `setTimeout` and `clearTimeout`
+   */
+  clock?: ITimerClock;
+  /**
+   * A function that returns a random number in `[0, 1)` for jitter.
+   * @defaultValue Math.random
+   */
+  random?: () => number;
+}
+
+/**
+ * Options for scheduling a task that is retried when it fails.
+ */
+export interface IRetryScheduleOptions<P = number> extends IScheduleOptions {
+  /** The retry policy of the task, which overrides the fields of the scheduler's policy */
+  retry?: IRetryPolicy<P>;
+}
+
+/**
+ * A task that failed on every attempt, collected by a retry scheduler.
+ */
+export interface IDeadLetter<P = number> {
+  /** The task that failed */
+  task: IScheduledTask<unknown>;
+  /** The priority of the last attempt */
+  priority: P;
+  /** The number of attempts */
+  attempts: number;
+  /** The errors of the attempts, in order */
+  errors: unknown[];
+}
+
+/**
+ * Options for creating a delay queue.
+ */
+export interface IDelayQueueOptions {
+  /**
+   * The clock that tells when elements become available and wakes `take`.
+   * @defaultValue The global `Date.now`, `setTimeout` and `clearTimeout`
+   */
+  clock?: ITimerClock;
+}
+
+/**
+ * An element that expired before it left an expiring priority queue.
+ */
+export interface IExpiredElement<T, P = number> {
+  /** The value of the element */
+  value: T;
+  /** The priority of the element */
+  priority: P;
+  /** The time the element expired at */
+  expiresAt: number;
+}
+
+/**
+ * Options for creating an expiring priority queue.
+ */
+export interface IExpiringPriorityQueueOptions<T, P = number> extends IPriorityQueueOptions<P> {
+  /**
+   * The clock that tells when elements expire.
+   * @defaultValue The global `Date.now`
+   */
+  clock?: IClock;
+  /**
+   * The time to live of elements that are added without an expiry time, in the units of the clock.
+   * @defaultValue Infinity, so that such elements never expire
+   */
+  ttl?: number;
+  /**
+   * A function called with each element that is purged because it expired.
+   */
+  onExpire?: (element: IExpiredElement<T, P>) => void;
+}
+
+/**
+ * The policy applied by a bounded priority queue when an element is added to a full queue.
+ * - `reject`: The new element is not added.
+ * - `evict-worst`: The lowest-ranked element is removed, unless the new element ranks lower.
+ * - `drop-oldest`: The element that was added first is removed.
+ */
+export type OverflowPolicy = "reject" | "evict-worst" | "drop-oldest";
+
+/**
+ * Options for creating a bounded priority queue.
+ */
+export interface IBoundedPriorityQueueOptions extends IPriorityQueueOptions {
+  /**
+   * The policy applied when an element is added to a full queue.
+   * @defaultValue "reject"
+   */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * The layout of a bucket priority queue.
+ * - `bucket`: One FIFO bucket per integer priority in the range.
+ * - `calendar`: A fixed number of buckets that each cover `width` priorities and wrap around, for wide but dense ranges.
+ */
+export type BucketQueueMode = "bucket" | "calendar";
+
+/**
+ * Options for creating a bucket priority queue.
+ */
+export interface IBucketPriorityQueueOptions {
+  /**
+   * The layout of the queue.
+   * @defaultValue "bucket"
+   */
+  mode?: BucketQueueMode;
+  /**
+   * The smallest priority that can be enqueued.
+   * @defaultValue 0
+   */
+  min?: number;
+  /**
+   * The largest priority that can be enqueued. Only used in `bucket` mode.
+   * @defaultValue 255
+   */
+  max?: number;
+  /**
+   * The number of priorities covered by each bucket. Only used in `calendar` mode.
+   * @defaultValue 1
+   */
+  width?: number;
+  /**
+   * The number of buckets. Only used in `calendar` mode.
+   * @defaultValue 256
+   */
+  buckets?: number;
+}
+
 export interface IPriorityQueueLike<
   T,
   Node extends INode<T> = INode<T>,
   Comparer extends IComparer<Node> = IComparer<Node>,
+  P = number,
 > {
   /** The number of elements in the queue */
   readonly count: number;
+  /** The number of children each node in the heap has */
+  readonly arity: number;
   /** The elements in the queue returned in an unordered manner */
   readonly values: T[];
   /** The heap array containing the elements */
@@ -95,7 +621,7 @@ export interface IPriorityQueueLike<
    * @param priority - The priority of the element.
    * @returns True if the element was added, false otherwise.
    */
-  enqueue(value: T, priority: number): boolean;
+  enqueue(value: T, priority: P): boolean;
   /**
    * Removes and returns the element at the front of the queue.
    * @returns The element at the front of the queue, or undefined if the queue is empty.
@@ -105,6 +631,22 @@ export interface IPriorityQueueLike<
    * Removes and returns the element at the front of the queue.
    */
   pop(): Node | undefined;
+  /**
+   * Adds an element to the queue and then removes and returns the element at the front of the queue.
+   * If the new element would be at the front of the queue, it is returned without touching the heap.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns The element at the front of the queue after the element was added.
+   */
+  enqueueDequeue(value: T, priority: P): T | undefined;
+  /**
+   * Removes the element at the front of the queue and then adds an element to the queue.
+   * The new element replaces the front of the queue and is moved down once.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns The element that was at the front of the queue, or undefined if the queue was empty.
+   */
+  dequeueEnqueue(value: T, priority: P): T | undefined;
   /** Returns the element at the front of the queue without removing it */
   peek(): T | undefined;
   /** Removes all elements from the queue */
@@ -114,6 +656,11 @@ export interface IPriorityQueueLike<
    * @returns An array of elements in the queue.
    */
   toArray(): T[];
+  /**
+   * Iterates over the nodes in the queue in priority order without modifying the queue.
+   * @returns A generator of nodes in priority order.
+   */
+  orderedNodes(): Generator<Node, void, undefined>;
   /**
    * Creates a shallow copy of the priority queue.
    * @returns A new priority queue instance with the same elements.
@@ -128,7 +675,7 @@ export interface IPriorityQueueLike<
   /**
    * Returns the index of the first occurrence of a specific element in the queue.
    * @param value - The element to search for.
-   * @param dequeue - If true, searches for the element by dequeuing elements from a cloned queue, preserving the original queue's order.
+   * @param dequeue - If true, searches for the element in priority order, preserving the original queue's order.
    * @param comparer - An optional equality comparison function.
    */
   indexOf(
@@ -139,10 +686,11 @@ export interface IPriorityQueueLike<
   /**
    * Returns the priority of the element at the specified index.
    * @param index - The index of the element.
-   * @param dequeue - If true, retrieves the priority by dequeuing elements from a cloned queue, preserving the original queue's order.
-   * @returns The priority of the element if it exists, or `Number.MAX_VALUE` if the index is out of range.
+   * @param dequeue - If true, retrieves the priority of the element at the index in priority order, preserving the original queue's order.
+   * @returns The priority of the element if it exists. If the index is out of range, `Number.MAX_VALUE`,
+   * or undefined for queues with a `priorityComparer`.
    */
-  priorityAt(index: number, dequeue?: boolean): number;
+  priorityAt(index: number, dequeue?: boolean): P | number | undefined;
   /**
    * Determine whether the queue is empty
    */
@@ -161,15 +709,55 @@ export interface IPriorityQueueLike<
   [Symbol.iterator](): Iterator<T>;
 }
 
+/**
+ * A reference to an element in a priority queue.
+ * The handle stays valid until the element leaves the queue and can be used
+ * to update or remove the element in O(log n).
+ *
+ * @template T The type of value stored in the node
+ * @remarks A handle is the queue's own node, exposed as read-only. Its `nindex` always reflects the node's position in the heap.
+ */
+export type IPriorityHandle<T, Node extends IPriorityNode<T, unknown> = IPriorityNode<T>> = Readonly<Node>;
+
 /**
  * Represents a generic priority queue interface.
  * Elements in the queue are ordered based on their priority values.
  * 
  * @template T - The type of elements stored in the priority queue
+ * @template P - The type of the priorities, which defaults to the priority type of `Node`
  * @interface IPriorityQueue
  */
 export interface IPriorityQueue<
   T,
-  Node extends IPriorityNode<T> = IPriorityNode<T>,
+  // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+  Node extends IPriorityNode<T, any> = IPriorityNode<T>,
   Comparer extends IComparer<Node> = IComparer<Node>,
-> extends IPriorityQueueLike<T, Node, Comparer> { }
\ No newline at end of file
+  P = Node["priority"],
+> extends IPriorityQueueLike<T, Node, Comparer, P> {
+  /**
+   * Adds an element to the queue and returns a handle to it.
+   * @param value - The value to add.
+   * @param priority - The priority of the element.
+   * @returns A handle to the element, or undefined if the element was not added.
+   */
+  enqueueWithHandle(value: T, priority: P): IPriorityHandle<T, Node> | undefined;
+  /**
+   * Changes the priority of the element referenced by a handle.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @param priority - The new priority of the element.
+   * @returns True if the priority was updated, false if the handle is no longer in the queue.
+   */
+  updatePriority(handle: IPriorityHandle<T, Node>, priority: P): boolean;
+  /**
+   * Removes the element referenced by a handle.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns True if the element was removed, false if the handle is no longer in the queue.
+   */
+  removeHandle(handle: IPriorityHandle<T, Node>): boolean;
+  /**
+   * Returns the priority of the element referenced by a handle.
+   * @param handle - The handle returned by `enqueueWithHandle`.
+   * @returns The priority of the element, or undefined if the handle is no longer in the queue.
+   */
+  priorityOf(handle: IPriorityHandle<T, Node>): P | undefined;
+}
\ No newline at end of file